@@ -0,0 +1,161 @@
+import { buildCallGraph } from '../src/callgraph'
+import { fromYAMLString } from '../src/parser'
+import { call, returnStep, tryExcept } from '../src/steps'
+import { MainWorkflow, Subworkflow, WorkflowApp } from '../src/workflows'
+
+describe('Call graph', () => {
+  const app = fromYAMLString(`
+  main:
+    steps:
+      - call_a:
+          call: a
+      - call_b:
+          call: b
+      - log:
+          call: sys.log
+          args:
+            text: done
+  a:
+    steps:
+      - call_c:
+          call: c
+  b:
+    steps:
+      - try_call:
+          try:
+            steps:
+              - call_a_again:
+                  call: a
+          retry:
+            predicate: \${should_retry}
+            max_retries: 3
+            backoff:
+              initial_delay: 1
+              max_delay: 10
+              multiplier: 2
+  c:
+    steps:
+      - recurse:
+          call: a
+  should_retry:
+    params: [e]
+    steps:
+      - check:
+          return: true
+  unused:
+    steps:
+      - done:
+          return: 1
+  `)
+  const graph = buildCallGraph(app)
+
+  it('has an edge for each subworkflow call and retry predicate', () => {
+    expect(graph.workflows).toEqual([
+      'main',
+      'a',
+      'b',
+      'c',
+      'should_retry',
+      'unused',
+    ])
+    expect(graph.edges).toEqual([
+      { from: 'main', to: 'a', step: 'call_a', kind: 'call' },
+      { from: 'main', to: 'b', step: 'call_b', kind: 'call' },
+      { from: 'a', to: 'c', step: 'call_c', kind: 'call' },
+      {
+        from: 'b',
+        to: 'should_retry',
+        step: 'try_call',
+        kind: 'retryPredicate',
+      },
+      { from: 'b', to: 'a', step: 'call_a_again', kind: 'call' },
+      { from: 'c', to: 'a', step: 'recurse', kind: 'call' },
+    ])
+    expect(graph.callees('b')).toEqual(['should_retry', 'a'])
+    expect(graph.callers('a')).toEqual(['main', 'b', 'c'])
+  })
+
+  it('lists transitive dependencies', () => {
+    expect(graph.dependencies('main')).toEqual(['a', 'b', 'c', 'should_retry'])
+    expect(graph.dependencies('b')).toEqual(['should_retry', 'a', 'c'])
+    expect(graph.dependencies('unused')).toEqual([])
+  })
+
+  it('finds recursion paths', () => {
+    expect(graph.recursionPath('a')).toEqual(['a', 'c', 'a'])
+    expect(graph.recursionPath('c')).toEqual(['c', 'a', 'c'])
+    expect(graph.recursionPath('b')).toBeUndefined()
+    expect(graph.recursionPath('main')).toBeUndefined()
+  })
+
+  it('has an edge for each subworkflow called in expressions', () => {
+    const app = fromYAMLString(`
+    main:
+      steps:
+        - compute:
+            assign:
+              - y: \${double_it(2) + double_it(3)}
+        - check:
+            switch:
+              - condition: \${is_even(y)}
+                steps:
+                  - return_length:
+                      return: \${len([y])}
+    double_it:
+      params: [x]
+      steps:
+        - return_double:
+            return: \${x * 2}
+    is_even:
+      params: [n]
+      steps:
+        - check_zero:
+            switch:
+              - condition: \${n == 0}
+                next: return_true
+        - recurse:
+            return: \${not is_even(n - 1)}
+        - return_true:
+            return: true
+    `)
+
+    expect(buildCallGraph(app).edges).toEqual([
+      { from: 'main', to: 'double_it', step: 'compute', kind: 'expression' },
+      { from: 'main', to: 'is_even', step: 'check', kind: 'expression' },
+      { from: 'is_even', to: 'is_even', step: 'recurse', kind: 'expression' },
+    ])
+    expect(buildCallGraph(app).recursionPath('is_even')).toEqual([
+      'is_even',
+      'is_even',
+    ])
+  })
+
+  it('includes calls to subworkflows that are not in the app', () => {
+    const predicate = new Subworkflow('predicate', [returnStep('r', true)])
+    const missing = new Subworkflow('missing', [returnStep('r', 1)])
+    const app = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_call', {
+          steps: [call('call_missing', { call: missing })],
+          retryPolicy: {
+            predicate,
+            maxRetries: 1,
+            backoff: { initialDelay: 1, maxDelay: 1, multiplier: 1 },
+          },
+          exceptSteps: [],
+        }),
+        call('call_by_name', { call: 'not_a_subworkflow' }),
+      ])
+    )
+
+    expect(buildCallGraph(app).edges).toEqual([
+      {
+        from: 'main',
+        to: 'predicate',
+        step: 'try_call',
+        kind: 'retryPredicate',
+      },
+      { from: 'main', to: 'missing', step: 'call_missing', kind: 'call' },
+    ])
+  })
+})
@@ -0,0 +1,127 @@
+import {
+  buildControlFlowGraph,
+  entryNode,
+  exitNode,
+  ControlFlowGraph,
+} from '../src/cfg'
+import { fromYAMLString } from '../src/parser'
+
+function edgeList(graph: ControlFlowGraph): string[] {
+  return graph.edges.map((e) => `${e.from} -> ${e.to} (${e.kind})`)
+}
+
+describe('Control-flow graph', () => {
+  it('connects sequential steps, switch conditions and jumps', () => {
+    const app = fromYAMLString(`
+    main:
+      params: [args]
+      steps:
+        - check:
+            switch:
+              - condition: \${args.x > 0}
+                next: positive
+              - condition: \${args.x < 0}
+                steps:
+                  - log_negative:
+                      call: sys.log
+                      args:
+                        text: negative
+            next: zero
+        - positive:
+            return: positive
+        - zero:
+            assign:
+              - result: zero
+            next: end
+    `)
+    const graph = buildControlFlowGraph(app.mainWorkflow)
+
+    expect(graph.nodes.map((x) => x.id)).toEqual([
+      entryNode,
+      'check',
+      'log_negative',
+      'positive',
+      'zero',
+      exitNode,
+    ])
+    expect(edgeList(graph)).toEqual([
+      '<entry> -> check (sequence)',
+      'check -> positive (condition)',
+      'check -> log_negative (condition)',
+      'log_negative -> zero (jump)',
+      'check -> zero (jump)',
+      'positive -> <exit> (return)',
+      'zero -> <exit> (jump)',
+    ])
+    expect(graph.edges[1].label).toEqual('args.x > 0')
+  })
+
+  it('connects try blocks, loops and loop control', () => {
+    const app = fromYAMLString(`
+    main:
+      steps:
+        - loop:
+            for:
+              value: v
+              in: [1, 2]
+              steps:
+                - try_get:
+                    try:
+                      steps:
+                        - get:
+                            call: http.get
+                            args:
+                              url: \${v}
+                    except:
+                      steps:
+                        - skip:
+                            next: continue
+                - stop:
+                    next: break
+        - fail:
+            raise: done
+    `)
+    const graph = buildControlFlowGraph(app.mainWorkflow)
+
+    expect(edgeList(graph)).toEqual([
+      '<entry> -> loop (sequence)',
+      'loop -> try_get (loopBody)',
+      'try_get -> get (sequence)',
+      'get -> skip (exception)',
+      'get -> stop (sequence)',
+      'skip -> loop (jump)',
+      'stop -> fail (jump)',
+      'loop -> fail (loopExit)',
+      'fail -> <exit> (raise)',
+    ])
+  })
+
+  it('connects parallel branches', () => {
+    const app = fromYAMLString(`
+    main:
+      steps:
+        - parallel_step:
+            parallel:
+              branches:
+                - branch1:
+                    steps:
+                      - a:
+                          assign:
+                            - x: 1
+                - branch2:
+                    steps:
+                      - b:
+                          assign:
+                            - y: 1
+        - done:
+            return: 1
+    `)
+    const graph = buildControlFlowGraph(app.mainWorkflow)
+
+    expect(graph.successors('parallel_step')).toEqual(['branch1', 'branch2'])
+    expect(graph.predecessors('done')).toEqual(['a', 'b'])
+    expect(graph.reachableFrom('branch1')).toEqual(
+      new Set(['branch1', 'a', 'done', exitNode])
+    )
+  })
+})
@@ -0,0 +1,204 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { runCli } from '../src/cli'
+
+const appsModule = path.join(__dirname, 'fixtures', 'apps.ts')
+const invalidModule = path.join(__dirname, 'fixtures', 'invalid.ts')
+const rulesModule = path.join(__dirname, 'fixtures', 'rules.ts')
+
+function run(args: string[]) {
+  let stdout = ''
+  let stderr = ''
+  const exitCode = runCli(args, {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  })
+
+  return { exitCode, stdout, stderr }
+}
+
+describe('Command line interface', () => {
+  let outDir: string
+
+  beforeEach(() => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflows-cli-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(outDir, { recursive: true, force: true })
+  })
+
+  it('builds a file for each exported workflow app', () => {
+    const { exitCode } = run(['build', appsModule, '--out', outDir])
+
+    expect(exitCode).toBe(0)
+    expect(fs.readdirSync(outDir).sort()).toEqual([
+      'counter.yaml',
+      'greeter.yaml',
+    ])
+    expect(fs.readFileSync(path.join(outDir, 'counter.yaml'), 'utf8')).toEqual(
+      `main:
+  steps:
+    - init:
+        assign:
+          - count: 0
+    - return_count:
+        return: \${count}
+`
+    )
+  })
+
+  it('builds JSON files', () => {
+    const { exitCode } = run([
+      'build',
+      appsModule,
+      '--out',
+      outDir,
+      '--format',
+      'json',
+      '--export',
+      'greeter',
+    ])
+
+    expect(exitCode).toBe(0)
+    expect(fs.readdirSync(outDir)).toEqual(['greeter.json'])
+
+    const built = JSON.parse(
+      fs.readFileSync(path.join(outDir, 'greeter.json'), 'utf8')
+    )
+    expect(Object.keys(built)).toEqual(['main', 'greet'])
+    expect(built.greet.params).toEqual(['name'])
+  })
+
+  it('fails and writes nothing if a workflow is invalid', () => {
+    const { exitCode, stderr } = run(['build', invalidModule, '--out', outDir])
+
+    expect(exitCode).toBe(1)
+    expect(stderr).toContain('invalid: error: undefinedVariable:')
+    expect(stderr).toContain('(main > return_total)')
+    expect(fs.readdirSync(outDir)).toEqual([])
+  })
+
+  it('writes a validation report', () => {
+    const reportFile = path.join(outDir, 'report.json')
+    const failed = run(['validate', invalidModule, '--report', reportFile])
+
+    expect(failed.exitCode).toBe(1)
+    expect(JSON.parse(fs.readFileSync(reportFile, 'utf8'))).toEqual({
+      valid: false,
+      apps: [
+        {
+          name: 'invalid',
+          issues: [
+            {
+              type: 'undefinedVariable',
+              message: expect.stringContaining('"total"'),
+              severity: 'error',
+              location: {
+                workflow: 'main',
+                step: 'return_total',
+                path: 'main > return_total',
+              },
+            },
+          ],
+        },
+      ],
+    })
+
+    const passed = run([
+      'validate',
+      invalidModule,
+      '--disable',
+      'undefinedVariable',
+      '--report',
+      '-',
+    ])
+
+    expect(passed.exitCode).toBe(0)
+    expect(JSON.parse(passed.stdout)).toEqual({
+      valid: true,
+      apps: [{ name: 'invalid', issues: [] }],
+    })
+  })
+
+  it('loads validation rules from a configuration module', () => {
+    const { exitCode, stdout } = run([
+      'validate',
+      invalidModule,
+      '--config',
+      rulesModule,
+      '--report',
+      '-',
+    ])
+
+    expect(exitCode).toBe(0)
+    expect(JSON.parse(stdout).apps[0].issues).toEqual([
+      expect.objectContaining({
+        type: 'undefinedVariable',
+        severity: 'warning',
+      }),
+    ])
+  })
+
+  it('prints a workflow app', () => {
+    const { exitCode, stdout } = run([
+      'print',
+      appsModule,
+      '--export',
+      'counter',
+      '--format',
+      'json',
+    ])
+
+    expect(exitCode).toBe(0)
+    expect(JSON.parse(stdout)).toEqual({
+      main: {
+        steps: [
+          { init: { assign: [{ count: 0 }] } },
+          { return_count: { return: '${count}' } },
+        ],
+      },
+    })
+  })
+
+  it('writes source maps and looks up steps', () => {
+    const built = run([
+      'build',
+      appsModule,
+      '--out',
+      outDir,
+      '--export',
+      'counter',
+      '--source-map',
+    ])
+    const sourceMapFile = path.join(outDir, 'counter.yaml.map')
+
+    expect(built.exitCode).toBe(0)
+    expect(
+      Object.keys(JSON.parse(fs.readFileSync(sourceMapFile, 'utf8')).steps)
+    ).toEqual(['main.steps[0]', 'main.steps[1]'])
+
+    const found = run(['lookup', sourceMapFile, 'main.steps[1]'])
+
+    expect(found.exitCode).toBe(0)
+    expect(found.stdout).toMatch(
+      /^__tests__\/fixtures\/apps.ts:\d+:\d+ \(step "return_count" in workflow "main"\)\n$/
+    )
+    expect(
+      run([
+        'lookup',
+        sourceMapFile,
+        '{"context": "in step \\"init\\", routine \\"main\\""}',
+      ]).stdout
+    ).toContain('step "init"')
+    expect(run(['lookup', sourceMapFile, 'main.steps[2]']).exitCode).toBe(1)
+  })
+
+  it('reports usage errors', () => {
+    expect(run(['compile', appsModule]).exitCode).toBe(2)
+    expect(run(['print', appsModule]).stderr).toContain('--export')
+    expect(run(['validate', appsModule, '--format', 'xml']).exitCode).toBe(2)
+    expect(run(['validate', 'missing_module.ts']).exitCode).toBe(2)
+  })
+})
@@ -0,0 +1,270 @@
+import * as ts from 'typescript'
+
+import * as toolkit from '../src/index'
+import { toTypeScript } from '../src/codegen'
+import { fromYAMLString } from '../src/parser'
+import { $ } from '../src/variables'
+import { assign, call, returnStep } from '../src/steps'
+import { MainWorkflow, Subworkflow, WorkflowApp } from '../src/workflows'
+
+// Compile and run the generated code and return the exported WorkflowApp
+function evaluate(code: string): WorkflowApp {
+  const js = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS },
+  }).outputText
+  const exports: Record<string, unknown> = {}
+  const requireToolkit = () => toolkit
+  new Function('exports', 'require', js)(exports, requireToolkit)
+
+  return exports.workflow as WorkflowApp
+}
+
+describe('TypeScript code generator', () => {
+  it('generates builder code for a workflow', () => {
+    const subworkflow = new Subworkflow(
+      'say_hello',
+      [
+        call('log_greetings', {
+          call: 'sys.log',
+          args: {
+            text: $('"Hello, " + name'),
+          },
+        }),
+      ],
+      [{ name: 'name' }]
+    )
+    const mainWorkflow = new MainWorkflow([
+      assign('assign_name', [['name', 'Leela']]),
+      call('call_subworkflow', {
+        call: subworkflow,
+        args: {
+          name: $('name'),
+        },
+      }),
+      returnStep('return_value', null),
+    ])
+    const app = new WorkflowApp(mainWorkflow, [subworkflow])
+
+    const expected = `import {
+  MainWorkflow,
+  Subworkflow,
+  WorkflowApp,
+  $,
+  assign,
+  call,
+  returnStep,
+} from 'gcp-workflows-toolkit'
+
+const sayHello = new Subworkflow(
+  'say_hello',
+  [
+    call('log_greetings', {
+      call: 'sys.log',
+      args: { text: $('"Hello, " + name') },
+    }),
+  ],
+  [{ name: 'name' }]
+)
+
+const main = new MainWorkflow([
+  assign('assign_name', [['name', 'Leela']]),
+  call('call_subworkflow', { call: sayHello, args: { name: $('name') } }),
+  returnStep('return_value', null),
+])
+
+export const workflow = new WorkflowApp(main, [sayHello])
+`
+
+    expect(toTypeScript(app)).toEqual(expected)
+  })
+
+  it('declares subworkflows before they are referenced', () => {
+    const app = fromYAMLString(`
+    main:
+      steps:
+        - call_first:
+            call: first
+    first:
+      steps:
+        - call_second:
+            call: second
+    second:
+      steps:
+        - return_value:
+            return: 1
+    `)
+    const code = toTypeScript(app)
+
+    expect(code.indexOf('const second =')).toBeLessThan(
+      code.indexOf('const first =')
+    )
+    expect(code).toContain("call('call_second', { call: second })")
+  })
+
+  it('refers to recursive subworkflows by name', () => {
+    const app = fromYAMLString(`
+    main:
+      steps:
+        - call_recursive:
+            call: recursive
+    recursive:
+      steps:
+        - call_itself:
+            call: recursive
+    `)
+    const code = toTypeScript(app)
+
+    expect(code).toContain("call('call_itself', { call: 'recursive' })")
+    expect(code).toContain("call('call_recursive', { call: recursive })")
+  })
+
+  it('avoids name collisions in variable names', () => {
+    const app = fromYAMLString(`
+    main:
+      steps:
+        - call_call:
+            call: call
+    call:
+      steps:
+        - return_value:
+            return: 1
+    `)
+
+    expect(toTypeScript(app)).toContain('const callSubworkflow = ')
+  })
+
+  it('generates connector parameters', () => {
+    const app = fromYAMLString(`
+    main:
+      steps:
+        - publish:
+            call: googleapis.pubsub.v1.projects.topics.publish
+            args:
+              topic: projects/my-project/topics/orders
+              connector_params:
+                timeout: 60
+                scopes: https://www.googleapis.com/auth/pubsub
+    `)
+    const code = toTypeScript(app)
+
+    expect(code).toContain(
+      "connectorParams: {\n      timeout: 60,\n      scopes: 'https://www.googleapis.com/auth/pubsub',\n    },"
+    )
+    expect(evaluate(code).render()).toEqual(app.render())
+  })
+
+  it('generates code that recreates the original workflow', () => {
+    const source = `
+    main:
+      params: [args]
+      steps:
+        - init:
+            assign:
+              - total: 0
+              - "my-map": { "a key": "it's", b: [1, null, true] }
+        - call_subworkflow:
+            call: get_order_status
+            args:
+              order_id: \${args.order_id}
+            result: order_status
+            next: loop
+        - loop:
+            for:
+              value: v
+              index: i
+              in: \${order_status.items}
+              steps:
+                - add:
+                    assign:
+                      - total: \${total + v}
+                - stop:
+                    next: break
+                - skipped:
+                    next: parallel_loop
+        - parallel_loop:
+            parallel:
+              shared: [total]
+              for:
+                value: v
+                range: [1, 3]
+                steps:
+                  - add2:
+                      assign:
+                        - total: \${total + v}
+                  - skip:
+                      next: continue
+        - parallel_branches:
+            parallel:
+              concurrency_limit: 2
+              branches:
+                - branch1:
+                    steps:
+                      - log1:
+                          call: sys.log
+                          args:
+                            text: one
+                - branch2:
+                    steps:
+                      - log2:
+                          call: sys.log
+                          args:
+                            text: two
+            next: check
+        - check:
+            switch:
+              - condition: \${total > 10}
+                next: return_status
+            next: end
+        - return_status:
+            return: \${order_status}
+    get_order_status:
+      params: [order_id, attempts: 0]
+      steps:
+        - try_get:
+            try:
+              steps:
+                - get:
+                    call: http.get
+                    args:
+                      url: \${"https://planet.express.test/orders/" + order_id}
+                    result: response
+            retry:
+              predicate: \${my_retry_predicate}
+              max_retries: 3
+              backoff:
+                initial_delay: 1
+                max_delay: 60
+                multiplier: 2
+            except:
+              as: e
+              steps:
+                - known_errors:
+                    switch:
+                      - condition: \${e.code == 404}
+                        steps:
+                          - return_error:
+                              return: Not found
+                - unknown_errors:
+                    raise: \${e}
+        - try_with_default_retry:
+            try:
+              steps:
+                - get_again:
+                    call: http.get
+                    args:
+                      url: https://planet.express.test/
+            retry: \${http.default_retry}
+        - return_response:
+            return: \${response.body}
+    my_retry_predicate:
+      params: [e]
+      steps:
+        - always_retry:
+            return: true
+    `
+    const app = fromYAMLString(source)
+    const generated = evaluate(toTypeScript(app))
+
+    expect(generated.render()).toEqual(app.render())
+  })
+})
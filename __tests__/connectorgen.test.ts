@@ -0,0 +1,108 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import {
+  DiscoveryDocument,
+  generateConnectors,
+  loadDiscoveryDocuments,
+} from '../src/connectorgen'
+
+const document: DiscoveryDocument = {
+  name: 'workflows',
+  version: 'v1',
+  resources: {
+    projects: {
+      resources: {
+        locations: {
+          resources: {
+            workflows: {
+              methods: {
+                get: {
+                  description:
+                    'Gets details of a single workflow. More text here.',
+                  parameters: {
+                    name: { type: 'string', location: 'path', required: true },
+                    revisionId: { type: 'string', location: 'query' },
+                  } as DiscoveryDocument['schemas'],
+                },
+                create: {
+                  parameters: {
+                    parent: { type: 'string', required: true },
+                    workflowId: { type: 'string' },
+                  },
+                  request: { $ref: 'Workflow' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  schemas: {
+    Workflow: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        labels: { type: 'object', additionalProperties: { type: 'string' } },
+        stateError: { $ref: 'StateError' },
+      },
+    },
+    StateError: {
+      type: 'object',
+      properties: { details: { type: 'string' } },
+    },
+  },
+}
+
+describe('Connector generator', () => {
+  it('generates a builder function and an argument interface for each method', () => {
+    const code = generateConnectors([document])
+
+    expect(code)
+      .toContain(`export interface WorkflowsV1ProjectsLocationsWorkflowsGetArgs {
+  name: string | GWExpression
+  revisionId?: string | GWExpression
+}
+
+/**
+ * Gets details of a single workflow.
+ */
+function workflowsV1ProjectsLocationsWorkflowsGet(
+  name: GWStepName,
+  options: ConnectorCallOptions<WorkflowsV1ProjectsLocationsWorkflowsGetArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.workflows.v1.projects.locations.workflows.get',
+`)
+    expect(code).toContain('  body?: WorkflowsV1Workflow | GWExpression\n')
+    expect(code).toContain(`export interface WorkflowsV1Workflow {
+  name?: string | GWExpression
+  labels?: Record<string, string | GWExpression> | GWExpression
+  stateError?: WorkflowsV1StateError | GWExpression
+}
+`)
+    expect(code).toContain('export interface WorkflowsV1StateError {')
+    expect(code).toContain(`export const connectors = {
+  workflows: {
+    v1: {
+      projects: {
+        locations: {
+          workflows: {
+            create: workflowsV1ProjectsLocationsWorkflowsCreate,
+            get: workflowsV1ProjectsLocationsWorkflowsGet,
+          },
+`)
+  })
+
+  it('has generated the connector module from the checked-in discovery documents', () => {
+    const root = path.join(__dirname, '..')
+    const documents = loadDiscoveryDocuments(path.join(root, 'discovery'))
+    const generated = fs.readFileSync(
+      path.join(root, 'src', 'connectors.ts'),
+      'utf8'
+    )
+
+    expect(generateConnectors(documents)).toEqual(generated)
+  })
+})
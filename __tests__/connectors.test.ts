@@ -0,0 +1,79 @@
+import * as YAML from 'yaml'
+
+import { connectors } from '../src/connectors'
+import { CallStep } from '../src/steps'
+import { $ } from '../src/variables'
+import { MainWorkflow, WorkflowApp, toYAMLString } from '../src/workflows'
+
+describe('Connectors', () => {
+  it('creates call steps for connector methods', () => {
+    const publish = connectors.pubsub.v1.projects.topics.publish('publish', {
+      args: {
+        topic: $('"projects/" + project + "/topics/orders"'),
+        body: { messages: [{ data: $('base64.encode(text.encode(order))') }] },
+      },
+      result: 'published',
+    })
+    const step = publish.step as CallStep
+
+    expect(step).toBeInstanceOf(CallStep)
+    expect(step.call).toBe('googleapis.pubsub.v1.projects.topics.publish')
+    expect(step.result).toBe('published')
+    expect(publish.source?.file).toBe(__filename)
+  })
+
+  it('renders connector parameters', () => {
+    const app = new WorkflowApp(
+      new MainWorkflow([
+        connectors.storage.v1.buckets.insert('create_bucket', {
+          args: { project: 'my-project', body: { name: 'my-bucket' } },
+          connectorParams: {
+            timeout: 300,
+            pollingPolicy: { initialDelay: 1, multiplier: 2, maxDelay: 60 },
+            skipPolling: true,
+          },
+        }),
+        connectors.firestore.v1.projects.databases.documents.get('get', {
+          args: {
+            name: 'projects/p/databases/(default)/documents/orders/1',
+            'mask.fieldPaths': ['status'],
+          },
+        }),
+      ])
+    )
+
+    expect(YAML.parse(toYAMLString(app))).toEqual({
+      main: {
+        steps: [
+          {
+            create_bucket: {
+              call: 'googleapis.storage.v1.buckets.insert',
+              args: {
+                project: 'my-project',
+                body: { name: 'my-bucket' },
+                connector_params: {
+                  timeout: 300,
+                  polling_policy: {
+                    initial_delay: 1,
+                    multiplier: 2,
+                    max_delay: 60,
+                  },
+                  skip_polling: true,
+                },
+              },
+            },
+          },
+          {
+            get: {
+              call: 'googleapis.firestore.v1.projects.databases.documents.get',
+              args: {
+                name: 'projects/p/databases/(default)/documents/orders/1',
+                'mask.fieldPaths': ['status'],
+              },
+            },
+          },
+        ],
+      },
+    })
+  })
+})
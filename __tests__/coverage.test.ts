@@ -0,0 +1,216 @@
+import {
+  CoverageReport,
+  WorkflowCoverage,
+  summarizeCoverage,
+  toLcov,
+} from '../src/coverage'
+import { WorkflowRuntimeError } from '../src/expressions'
+import { executeWorkflow } from '../src/interpreter'
+import { fromYAMLString } from '../src/parser'
+import {
+  assign,
+  call,
+  condition,
+  returnStep,
+  switchStep,
+  tryExcept,
+} from '../src/steps'
+import { runWorkflow } from '../src/testing'
+import { $ } from '../src/variables'
+import { MainWorkflow, WorkflowApp } from '../src/workflows'
+
+const app = new WorkflowApp(
+  new MainWorkflow(
+    [
+      switchStep('check_size', {
+        conditions: [
+          condition($('args.size > 10'), {
+            steps: [assign('big', [['size', 'big']])],
+          }),
+          condition($('true'), {
+            steps: [assign('small', [['size', 'small']])],
+          }),
+        ],
+      }),
+      tryExcept('try_get', {
+        steps: [call('get', { call: 'http.get', args: { url: 'x' } })],
+        errorMap: 'e',
+        exceptSteps: [returnStep('return_error', 'error')],
+      }),
+      returnStep('return_size', $('size')),
+    ],
+    'args'
+  )
+)
+
+const succeeding = { 'http.get': () => null }
+const failing = {
+  'http.get': () => {
+    throw new WorkflowRuntimeError({ code: 500 })
+  },
+}
+
+describe('Workflow coverage', () => {
+  it('counts the executed steps, matched conditions and caught errors', async () => {
+    const coverage = new WorkflowCoverage()
+    await runWorkflow(app, { args: { size: 1 }, mocks: succeeding, coverage })
+    await runWorkflow(app, { args: { size: 2 }, mocks: failing, coverage })
+
+    const report = coverage.report()
+    const [main] = report.workflows
+
+    expect(main.steps.map((x) => [x.step, x.hits])).toEqual([
+      ['check_size', 2],
+      ['big', 0],
+      ['small', 2],
+      ['try_get', 2],
+      ['get', 2],
+      ['return_error', 1],
+      ['return_size', 1],
+    ])
+    expect(main.conditions).toEqual([
+      {
+        step: 'check_size',
+        index: 0,
+        condition: 'args.size > 10',
+        hits: 0,
+        source: expect.objectContaining({ file: __filename }),
+      },
+      {
+        step: 'check_size',
+        index: 1,
+        condition: 'true',
+        hits: 2,
+        source: expect.objectContaining({ file: __filename }),
+      },
+    ])
+    expect(main.exceptBlocks.map((x) => [x.step, x.hits])).toEqual([
+      ['try_get', 1],
+    ])
+    expect(summarizeCoverage(report)).toEqual({
+      steps: { total: 7, covered: 6 },
+      conditions: { total: 2, covered: 1 },
+      exceptBlocks: { total: 1, covered: 1 },
+    })
+  })
+
+  it('records coverage through an execution observer', async () => {
+    const coverage = new WorkflowCoverage()
+    await executeWorkflow(
+      app,
+      { size: 20 },
+      { handlers: succeeding, observer: coverage.observer(app) }
+    )
+
+    expect(summarizeCoverage(coverage.report())).toEqual({
+      steps: { total: 7, covered: 5 },
+      conditions: { total: 2, covered: 1 },
+      exceptBlocks: { total: 1, covered: 0 },
+    })
+  })
+
+  it('merges reports of several test runs', async () => {
+    const first = new WorkflowCoverage()
+    await runWorkflow(app, {
+      args: { size: 1 },
+      mocks: succeeding,
+      coverage: first,
+    })
+    const second = new WorkflowCoverage()
+    await runWorkflow(app, {
+      args: { size: 20 },
+      mocks: failing,
+      coverage: second,
+    })
+
+    // Reports are plain JSON
+    const merged = new WorkflowCoverage()
+    merged.merge(JSON.parse(JSON.stringify(first.report())))
+    merged.merge(JSON.parse(JSON.stringify(second.report())))
+
+    expect(summarizeCoverage(merged.report())).toEqual({
+      steps: { total: 7, covered: 7 },
+      conditions: { total: 2, covered: 2 },
+      exceptBlocks: { total: 1, covered: 1 },
+    })
+    expect(merged.report().workflows[0].steps[0].hits).toBe(2)
+  })
+
+  it('converts a report to lcov', () => {
+    const source = (line: number) => ({
+      file: '/app/src/flow.ts',
+      line,
+      column: 1,
+    })
+    const report: CoverageReport = {
+      version: 1,
+      workflows: [
+        {
+          workflow: 'main',
+          steps: [
+            { step: 'check', hits: 2, source: source(3) },
+            { step: 'a', hits: 1, source: source(5) },
+            { step: 'b', hits: 0, source: source(6) },
+            { step: 'try_get', hits: 2, source: source(8) },
+            { step: 'parsed', hits: 1 },
+          ],
+          conditions: [
+            {
+              step: 'check',
+              index: 0,
+              condition: 'x',
+              hits: 1,
+              source: source(3),
+            },
+            {
+              step: 'check',
+              index: 1,
+              condition: 'y',
+              hits: 0,
+              source: source(3),
+            },
+          ],
+          exceptBlocks: [{ step: 'try_get', hits: 1, source: source(8) }],
+        },
+      ],
+    }
+
+    expect(toLcov(report, { rootDir: '/app' })).toEqual(
+      [
+        'TN:',
+        'SF:src/flow.ts',
+        'BRDA:3,0,0,1',
+        'BRDA:3,0,1,0',
+        'BRDA:8,1,0,1',
+        'BRF:3',
+        'BRH:2',
+        'DA:3,2',
+        'DA:5,1',
+        'DA:6,0',
+        'DA:8,2',
+        'LF:4',
+        'LH:3',
+        'end_of_record',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('reports parsed workflows without source locations', async () => {
+    const parsed = fromYAMLString(`
+main:
+  steps:
+    - log:
+        call: sys.log
+        args:
+          text: hello
+`)
+    const coverage = new WorkflowCoverage()
+    await runWorkflow(parsed, { coverage })
+
+    expect(coverage.report().workflows[0].steps).toEqual([
+      { step: 'log', hits: 1 },
+    ])
+    expect(toLcov(coverage.report())).toBe('')
+  })
+})
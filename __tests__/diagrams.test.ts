@@ -0,0 +1,126 @@
+import { toDot, toMermaid } from '../src/diagrams'
+import { fromYAMLString } from '../src/parser'
+
+const app = fromYAMLString(`
+main:
+  params: [args]
+  steps:
+    - get:
+        try:
+          steps:
+            - fetch:
+                call: http.get
+                args:
+                  url: \${args.url}
+                result: response
+        except:
+          as: e
+          steps:
+            - fail:
+                raise: \${e}
+    - check:
+        switch:
+          - condition: \${response.code == 200}
+            next: process
+    - not_found:
+        return: null
+    - process:
+        call: sum_prices
+        args:
+          items: \${response.body.items}
+        result: total
+    - done:
+        return: \${total}
+sum_prices:
+  params: [items]
+  steps:
+    - loop:
+        for:
+          value: item
+          in: \${items}
+          steps:
+            - log:
+                call: sys.log
+                args:
+                  text: \${item}
+`)
+
+describe('Diagrams', () => {
+  it('renders a Mermaid flowchart', () => {
+    expect(toMermaid(app)).toEqual(
+      `flowchart TD
+  subgraph w0_c0 ["main"]
+    w0_n0(["main(args)"])
+    w0_n1["get<br>try"]
+    w0_n4{"check"}
+    w0_n5["not_found<br>return"]
+    w0_n6[["process<br>call sum_prices"]]
+    w0_n7["done<br>return"]
+    w0_n8(["end"])
+    subgraph w0_c1 ["try (get)"]
+      w0_n2["fetch<br>call http.get"]
+    end
+    subgraph w0_c2 ["except (get)"]
+      w0_n3["fail<br>raise"]
+    end
+  end
+  subgraph w1_c0 ["sum_prices"]
+    w1_n0(["sum_prices(items)"])
+    w1_n1["loop<br>for item in \${items}"]
+    w1_n3(["end"])
+    subgraph w1_c1 ["for (loop)"]
+      w1_n2["log<br>call sys.log"]
+    end
+  end
+  w0_n6 -.-> w1_n0
+  w0_n0 --> w0_n1
+  w0_n1 --> w0_n2
+  w0_n2 -.->|"error"| w0_n3
+  w0_n2 --> w0_n4
+  w0_n3 --> w0_n8
+  w0_n4 -->|"response.code == 200"| w0_n6
+  w0_n4 --> w0_n5
+  w0_n5 --> w0_n8
+  w0_n6 --> w0_n7
+  w0_n7 --> w0_n8
+  w1_n0 --> w1_n1
+  w1_n1 --> w1_n2
+  w1_n2 --> w1_n1
+  w1_n1 -->|"done"| w1_n3
+`
+    )
+  })
+
+  it('renders a Graphviz digraph', () => {
+    const dot = toDot(app)
+
+    expect(dot).toMatch(/^digraph workflow {\n/)
+    expect(dot).toContain('  subgraph cluster_w0_c0 {\n    label="main";\n')
+    expect(dot).toContain(
+      '    subgraph cluster_w0_c1 {\n      label="try (get)";\n'
+    )
+    expect(dot).toContain('    w0_n4 [label="check", shape=diamond];\n')
+    expect(dot).toContain(
+      '    w0_n6 [label="process\\ncall sum_prices", peripheries=2];\n'
+    )
+    expect(dot).toContain('  w0_n6 -> w1_n0 [style=dashed];\n')
+    expect(dot).toContain('  w0_n4 -> w0_n6 [label="response.code == 200"];\n')
+    expect(dot).toMatch(/}\n$/)
+  })
+
+  it('escapes labels', () => {
+    const quoted = fromYAMLString(`
+    main:
+      steps:
+        - check:
+            switch:
+              - condition: \${"<a>" == "#1"}
+                next: end
+    `)
+
+    expect(toMermaid(quoted)).toContain(
+      '-->|"#quot;#lt;a#gt;#quot; == #quot;#35;1#quot;"|'
+    )
+    expect(toDot(quoted)).toContain('[label="\\"<a>\\" == \\"#1\\""]')
+  })
+})
@@ -0,0 +1,149 @@
+import * as YAML from 'yaml'
+
+import { and, fn, lit, not, or, v } from '../src/expressionBuilder'
+import { evaluateExpression } from '../src/expressions'
+import { assign, call, condition, forStep, switchStep } from '../src/steps'
+import { $ } from '../src/variables'
+
+describe('Expression builder', () => {
+  it('renders a variable', () => {
+    expect(v('name').render()).toBe('${name}')
+    expect(v('args.name').render()).toBe('${args.name}')
+  })
+
+  it('renders literals with quoting', () => {
+    expect(lit('Hello, ').render()).toBe('${"Hello, "}')
+    expect(lit('say "hi"\n').render()).toBe('${"say \\"hi\\"\\n"}')
+    expect(lit(12).render()).toBe('${12}')
+    expect(lit(true).render()).toBe('${true}')
+    expect(lit(null).render()).toBe('${null}')
+    expect(lit([1, 'a', v('x')]).render()).toBe('${[1, "a", x]}')
+  })
+
+  it('accepts string literals that contain "$", "{" and "}"', () => {
+    expect(lit('Total: $5').render()).toBe('${"Total: $5"}')
+    expect(v('m').get('a{b}').render()).toBe('${m["a{b}"]}')
+    expect(
+      evaluateExpression(v('m').get('a{b}').plus(lit('}')).expression, {
+        m: { 'a{b}': '{x' },
+      })
+    ).toBe('{x}')
+  })
+
+  it('renders the same form as $()', () => {
+    expect(lit('Hello, ').plus(v('name'))).toEqual(
+      expect.objectContaining({ expression: '"Hello, " + name' })
+    )
+    expect(lit('Hello, ').plus(v('name')).render()).toBe(
+      $('"Hello, " + name').render()
+    )
+    expect(v('e').get('code').eq(404).render()).toBe('${e.code == 404}')
+    expect(fn('len', v('list')).render()).toBe('${len(list)}')
+    expect(fn('sys.now').render()).toBe('${sys.now()}')
+  })
+
+  it('renders indexing', () => {
+    expect(v('list').get(0).render()).toBe('${list[0]}')
+    expect(v('headers').get('Content-Type').render()).toBe(
+      '${headers["Content-Type"]}'
+    )
+    expect(
+      v('list')
+        .get(fn('len', v('list')).minus(1))
+        .render()
+    ).toBe('${list[len(list) - 1]}')
+  })
+
+  it('adds parentheses according to operator precedence', () => {
+    expect(v('a').plus(v('b')).times(v('c')).render()).toBe('${(a + b) * c}')
+    expect(
+      v('a')
+        .plus(v('b').times(v('c')))
+        .render()
+    ).toBe('${a + b * c}')
+    expect(
+      v('a')
+        .minus(v('b').minus(v('c')))
+        .render()
+    ).toBe('${a - (b - c)}')
+    expect(v('a').minus(v('b')).minus(v('c')).render()).toBe('${a - b - c}')
+    expect(v('a').or(v('b')).and(v('c')).render()).toBe('${(a or b) and c}')
+    expect(not(v('a').eq(1)).render()).toBe('${not a == 1}')
+    expect(not(v('a').and(v('b'))).render()).toBe('${not (a and b)}')
+    expect(v('a').plus(1).neg().render()).toBe('${-(a + 1)}')
+    expect(v('a').neg().neg().render()).toBe('${-(-a)}')
+    expect(v('a').plus(v('b')).get('c').render()).toBe('${(a + b).c}')
+  })
+
+  it('combines conditions', () => {
+    const ex = and(v('x').gt(0), or(v('y').in(v('list')), v('z')))
+
+    expect(ex.render()).toBe('${x > 0 and (y in list or z)}')
+  })
+
+  it('evaluates to the same value as the equivalent expression', () => {
+    const ex = lit(10)
+      .minus(lit(4).minus(v('a')))
+      .times(2)
+      .intDiv(3)
+
+    expect(evaluateExpression(ex.expression, { a: 1 })).toBe(
+      Math.floor(((10 - (4 - 1)) * 2) / 3)
+    )
+  })
+
+  it('rejects invalid names', () => {
+    expect(() => v('not a name')).toThrow()
+    expect(() => v('and')).toThrow()
+    expect(() => fn('len()')).toThrow()
+  })
+
+  it('is accepted in steps', () => {
+    const assignStep = assign('assign_greeting', [
+      ['greeting', lit('Hello, ').plus(v('name'))],
+    ])
+    const callStep = call('log', {
+      call: 'sys.log',
+      args: { text: v('greeting') },
+    })
+    const switchStep1 = switchStep('check', {
+      conditions: [
+        condition(v('e').get('code').eq(404), { next: 'not_found' }),
+      ],
+    })
+    const forStep1 = forStep('loop', {
+      loopVariable: 'x',
+      listExpression: fn('keys', v('my_map')),
+      steps: [],
+    })
+
+    expect(assignStep.step.render()).toEqual(
+      YAML.parse(`
+      assign:
+        - greeting: \${"Hello, " + name}
+      `)
+    )
+    expect(callStep.step.render()).toEqual(
+      YAML.parse(`
+      call: sys.log
+      args:
+        text: \${greeting}
+      `)
+    )
+    expect(switchStep1.step.render()).toEqual(
+      YAML.parse(`
+      switch:
+        - condition: \${e.code == 404}
+          next: not_found
+      `)
+    )
+    expect(forStep1.step.render()).toEqual(
+      YAML.parse(`
+      for:
+        value: x
+        in: \${keys(my_map)}
+        steps: []
+      `)
+    )
+  })
+})
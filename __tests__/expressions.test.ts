@@ -0,0 +1,226 @@
+import {
+  ExpressionSyntaxError,
+  WorkflowRuntimeError,
+  evaluateAsync,
+  evaluateExpression,
+  parseExpression,
+} from '../src/expressions'
+import { $ } from '../src/variables'
+
+describe('Expression parser', () => {
+  it('parses operators with precedence', () => {
+    expect(parseExpression('1 + 2 * 3')).toEqual({
+      type: 'binary',
+      operator: '+',
+      left: { type: 'literal', value: 1 },
+      right: {
+        type: 'binary',
+        operator: '*',
+        left: { type: 'literal', value: 2 },
+        right: { type: 'literal', value: 3 },
+      },
+    })
+  })
+
+  it('parses logical operators', () => {
+    expect(parseExpression('not a or b and c')).toEqual({
+      type: 'binary',
+      operator: 'or',
+      left: {
+        type: 'unary',
+        operator: 'not',
+        operand: { type: 'variable', name: 'a' },
+      },
+      right: {
+        type: 'binary',
+        operator: 'and',
+        left: { type: 'variable', name: 'b' },
+        right: { type: 'variable', name: 'c' },
+      },
+    })
+  })
+
+  it('parses member access, indexing and function calls', () => {
+    expect(parseExpression('sys.get_env("X")')).toEqual({
+      type: 'call',
+      name: 'sys.get_env',
+      args: [{ type: 'literal', value: 'X' }],
+    })
+    expect(parseExpression('response.body.items[len(items) - 1]')).toEqual({
+      type: 'index',
+      object: {
+        type: 'member',
+        object: {
+          type: 'member',
+          object: { type: 'variable', name: 'response' },
+          property: 'body',
+        },
+        property: 'items',
+      },
+      index: {
+        type: 'binary',
+        operator: '-',
+        left: {
+          type: 'call',
+          name: 'len',
+          args: [{ type: 'variable', name: 'items' }],
+        },
+        right: { type: 'literal', value: 1 },
+      },
+    })
+  })
+
+  it('parses literals', () => {
+    expect(parseExpression('[1, 2.5, "a\\"b", true, False, null]')).toEqual({
+      type: 'list',
+      items: [
+        { type: 'literal', value: 1 },
+        { type: 'literal', value: 2.5 },
+        { type: 'literal', value: 'a"b' },
+        { type: 'literal', value: true },
+        { type: 'literal', value: false },
+        { type: 'literal', value: null },
+      ],
+    })
+  })
+
+  it('reports the column of a syntax error', () => {
+    expect(() => parseExpression('order_status +')).toThrow(
+      ExpressionSyntaxError
+    )
+    expect(() => parseExpression('order_status +')).toThrow(
+      'Unexpected end of expression at column 15'
+    )
+    expect(() => parseExpression('a = 1')).toThrow(
+      'Unexpected character "=" at column 3'
+    )
+    expect(() => parseExpression('f(1, 2')).toThrow(
+      'Unexpected end of expression, expected "," at column 7'
+    )
+    expect(() => parseExpression('"unterminated')).toThrow(
+      'Unterminated string at column 1'
+    )
+  })
+
+  it('rejects calling something that is not a function name', () => {
+    expect(() => parseExpression('a[0](1)')).toThrow(ExpressionSyntaxError)
+  })
+})
+
+describe('Expression evaluator', () => {
+  it('evaluates arithmetic', () => {
+    expect(evaluateExpression('1 + 2 * 3 - 4 / 2')).toBe(5)
+    expect(evaluateExpression('7 // 2')).toBe(3)
+    expect(evaluateExpression('-7 % 3')).toBe(2)
+    expect(evaluateExpression('-(2 + 3)')).toBe(-5)
+  })
+
+  it('concatenates strings', () => {
+    expect(evaluateExpression('"Hello, " + name', { name: 'Leela' })).toBe(
+      'Hello, Leela'
+    )
+  })
+
+  it('evaluates comparisons and logical operators', () => {
+    expect(evaluateExpression('a > 1 and a <= 3', { a: 3 })).toBe(true)
+    expect(evaluateExpression('not (a == 1) or false', { a: 1 })).toBe(false)
+    expect(evaluateExpression('[1, 2] == [1, 2]')).toBe(true)
+    expect(evaluateExpression('"b" in m', { m: { a: 1, b: 2 } })).toBe(true)
+    expect(evaluateExpression('3 in [1, 2]')).toBe(false)
+  })
+
+  it('short-circuits logical operators', () => {
+    expect(evaluateExpression('"code" in e and e.code == 404', { e: {} })).toBe(
+      false
+    )
+  })
+
+  it('evaluates member access and indexing', () => {
+    const variables = { response: { body: { items: ['a', 'b'] } } }
+
+    expect(evaluateExpression('response.body.items[1]', variables)).toBe('b')
+    expect(evaluateExpression('response["body"]["items"][0]', variables)).toBe(
+      'a'
+    )
+  })
+
+  it('calls functions', () => {
+    const functions = { len: (x: unknown) => (x as unknown[]).length }
+
+    expect(
+      evaluateExpression('len(list) + 1', { list: [1, 2] }, functions)
+    ).toBe(3)
+  })
+
+  it('raises runtime errors', () => {
+    expect(() => evaluateExpression('missing + 1')).toThrow(
+      WorkflowRuntimeError
+    )
+    expect(() => evaluateExpression('1 / 0')).toThrow('Division by zero')
+    expect(() => evaluateExpression('m.x', { m: {} })).toThrow(
+      'Key not found: x'
+    )
+    expect(() => evaluateExpression('l[2]', { l: [1] })).toThrow(
+      'List index out of range: 2'
+    )
+    expect(() => evaluateExpression('1 + "a"')).toThrow(
+      'Operator "+" requires numeric operands'
+    )
+  })
+
+  it("doesn't find inherited members in maps", () => {
+    const variables = { m: { a: 1 } }
+
+    expect(evaluateExpression('"toString" in m', variables)).toBe(false)
+    expect(evaluateExpression('"a" in m', variables)).toBe(true)
+    expect(() => evaluateExpression('m.constructor', variables)).toThrow(
+      'Key not found: constructor'
+    )
+    expect(() => evaluateExpression('m["hasOwnProperty"]', variables)).toThrow(
+      'Key not found: hasOwnProperty'
+    )
+    expect(evaluateExpression('m == {"a": 1}', variables)).toBe(true)
+    expect(() => evaluateExpression('toString')).toThrow(
+      'Variable not found: toString'
+    )
+    expect(() => evaluateExpression('toString(1)')).toThrow(
+      'Function not found: toString'
+    )
+  })
+
+  it('evaluates asynchronous function calls', async () => {
+    const variables: Record<string, unknown> = { x: 2 }
+    const context = {
+      lookupVariable: (name: string) => variables[name],
+      callFunction: (name: string, args: unknown[]) =>
+        name === 'double' ? Promise.resolve(Number(args[0]) * 2) : args.length,
+    }
+
+    expect(evaluateAsync(parseExpression('x + count(1, 2)'), context)).toBe(4)
+    await expect(
+      evaluateAsync(parseExpression('{"a": double(x) + 1}'), context)
+    ).resolves.toEqual({ a: 5 })
+    expect(
+      evaluateAsync(parseExpression('false and double(x) > 0'), context)
+    ).toBe(false)
+  })
+
+  it('evaluates an already parsed expression', () => {
+    const ast = parseExpression('x * 2')
+
+    expect(evaluateExpression(ast, { x: 21 })).toBe(42)
+  })
+})
+
+describe('Expression validation', () => {
+  it('validates expressions eagerly', () => {
+    expect(() => $('order_staus +')).toThrow(ExpressionSyntaxError)
+    expect(() => $('order_status + 1')).not.toThrow()
+  })
+
+  it('can skip the validation', () => {
+    expect($('order_staus +', { validate: false }).render()).toBe(
+      '${order_staus +}'
+    )
+  })
+})
@@ -0,0 +1,39 @@
+import {
+  MainWorkflow,
+  Subworkflow,
+  WorkflowApp,
+  $,
+  assign,
+  call,
+  returnStep,
+} from '../../src/index'
+
+const greet = new Subworkflow(
+  'greet',
+  [returnStep('return_greeting', $('"Hello, " + name'))],
+  [{ name: 'name' }]
+)
+
+export const greeter = new WorkflowApp(
+  new MainWorkflow(
+    [
+      call('call_greet', {
+        call: greet,
+        args: { name: $('args.name') },
+        result: 'greeting',
+      }),
+      returnStep('return_result', $('greeting')),
+    ],
+    'args'
+  ),
+  [greet]
+)
+
+export const counter = new WorkflowApp(
+  new MainWorkflow([
+    assign('init', [['count', 0]]),
+    returnStep('return_count', $('count')),
+  ])
+)
+
+export const version = '1.0'
@@ -0,0 +1,5 @@
+import { MainWorkflow, WorkflowApp, $, returnStep } from '../../src/index'
+
+export default new WorkflowApp(
+  new MainWorkflow([returnStep('return_total', $('total'))])
+)
@@ -0,0 +1,18 @@
+import { CustomValidator, ValidateOptions } from '../../src/index'
+
+const noLogging: CustomValidator = {
+  name: 'noLogging',
+  severity: 'warning',
+  visitStep({ name, step }, { report }) {
+    if ('call' in step && step.call === 'sys.log') {
+      report(`Step "${name}" calls sys.log`)
+    }
+  },
+}
+
+const config: ValidateOptions = {
+  rules: { undefinedVariable: 'warning' },
+  validators: [noLogging],
+}
+
+export default config
@@ -0,0 +1,159 @@
+import * as YAML from 'yaml'
+
+import { WorkflowRuntimeError } from '../src/expressions'
+import {
+  httpDelete,
+  httpGet,
+  httpPost,
+  httpPut,
+  httpRequest,
+} from '../src/http'
+import { returnStep } from '../src/steps'
+import { runWorkflow } from '../src/testing'
+import { validate } from '../src/validation'
+import { $ } from '../src/variables'
+import { MainWorkflow, Subworkflow, WorkflowApp } from '../src/workflows'
+
+describe('HTTP call builders', () => {
+  it('renders a GET request', () => {
+    const { step, source } = httpGet('get_user', {
+      url: $('"https://example.com/users/" + user_id'),
+      query: { fields: 'name,email' },
+      headers: { 'Accept-Language': 'en' },
+      auth: { type: 'OIDC', audience: 'https://example.com' },
+      timeout: 30,
+      result: 'user',
+    })
+
+    expect(step.render()).toEqual(
+      YAML.parse(`
+      call: http.get
+      args:
+        url: \${"https://example.com/users/" + user_id}
+        query:
+          fields: name,email
+        headers:
+          Accept-Language: en
+        auth:
+          type: OIDC
+          audience: https://example.com
+        timeout: 30
+      result: user
+      `)
+    )
+    expect(source?.file).toBe(__filename)
+  })
+
+  it('renders requests with a body', () => {
+    const auth = { type: 'OAuth2' as const }
+
+    expect(
+      httpPost('create', {
+        url: 'https://example.com/orders',
+        body: { item: $('item') },
+        auth,
+        privateServiceName: 'projects/p/locations/l/namespaces/n/services/s',
+        next: 'done',
+      }).step.render()
+    ).toEqual({
+      call: 'http.post',
+      args: {
+        url: 'https://example.com/orders',
+        body: { item: '${item}' },
+        auth: { type: 'OAuth2' },
+        private_service_name: 'projects/p/locations/l/namespaces/n/services/s',
+      },
+      next: 'done',
+    })
+    expect(
+      httpPut('replace', { url: 'https://example.com', body: 1 }).step.render()
+    ).toEqual({
+      call: 'http.put',
+      args: { url: 'https://example.com', body: 1 },
+    })
+    expect(
+      httpRequest('request', {
+        method: 'DELETE',
+        url: 'https://example.com',
+      }).step.render()
+    ).toEqual({
+      call: 'http.request',
+      args: { method: 'DELETE', url: 'https://example.com' },
+    })
+  })
+
+  it('wraps the call in a try step with a retry policy', () => {
+    const retried = httpGet('get_status', {
+      url: 'https://example.com/status',
+      result: 'status',
+      retry: true,
+      next: 'done',
+    })
+
+    expect(retried.step.render()).toEqual(
+      YAML.parse(`
+      try:
+        steps:
+          - get_status_call:
+              call: http.get
+              args:
+                url: https://example.com/status
+              result: status
+      retry: \${http.default_retry}
+      next: done
+      `)
+    )
+    expect(retried.source?.file).toBe(__filename)
+    expect(retried.step.nestedSteps()[0].source?.file).toBe(__filename)
+
+    const predicate = new Subworkflow('retry_on_conflict', [], [{ name: 'e' }])
+    const custom = httpDelete('delete_order', {
+      url: 'https://example.com/orders/1',
+      retry: {
+        predicate,
+        maxRetries: 3,
+        backoff: { initialDelay: 1, maxDelay: 10, multiplier: 2 },
+      },
+    })
+
+    expect(custom.step.render()).toMatchObject({
+      retry: {
+        predicate: '${retry_on_conflict}',
+        max_retries: 3,
+        backoff: { initial_delay: 1, max_delay: 10, multiplier: 2 },
+      },
+    })
+  })
+
+  it('builds workflows that validate and execute', async () => {
+    const app = new WorkflowApp(
+      new MainWorkflow([
+        httpGet('get_status', {
+          url: 'https://example.com/status',
+          result: 'response',
+          retry: 'http.default_retry',
+        }),
+        returnStep('return_status', $('response.body')),
+      ])
+    )
+
+    expect(() => validate(app)).not.toThrow()
+
+    let attempts = 0
+    const run = await runWorkflow(app, {
+      mocks: {
+        'http.get': () => {
+          attempts += 1
+          if (attempts === 1) {
+            throw new WorkflowRuntimeError({ code: 503, tags: ['HttpError'] })
+          }
+          return { code: 200, body: 'ok' }
+        },
+      },
+    })
+
+    run.expectSucceeded()
+    expect(run.result).toBe('ok')
+    run.expectCallCount('http.get', 2)
+  })
+})
@@ -0,0 +1,596 @@
+import { WorkflowRuntimeError } from '../src/expressions'
+import { executeWorkflow } from '../src/interpreter'
+import { fromYAMLString } from '../src/parser'
+import {
+  ForStep,
+  assign,
+  call,
+  condition,
+  forStep,
+  parallel,
+  raise,
+  returnStep,
+  stepsStep,
+  switchStep,
+  tryExcept,
+} from '../src/steps'
+import { $ } from '../src/variables'
+import { MainWorkflow, Subworkflow, WorkflowApp } from '../src/workflows'
+
+const noSleep = () => Promise.resolve()
+
+describe('Workflow interpreter', () => {
+  it('returns the value of a return step', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow(
+        [
+          assign('assign_name', [['name', $('args.name')]]),
+          returnStep('return_greeting', $('"Hello, " + name')),
+        ],
+        'args'
+      )
+    )
+
+    const result = await executeWorkflow(wf, { name: 'Leela' })
+
+    expect(result).toEqual({ status: 'succeeded', result: 'Hello, Leela' })
+  })
+
+  it('returns null if the workflow completes without a return step', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([assign('assign_name', [['name', 'Fry']])])
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: null,
+    })
+  })
+
+  it('assigns list elements and map keys', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [
+          ['my_list', [0, 1, 2]],
+          ['my_map', { a: 1 }],
+          ['idx', 0],
+          ['my_list[idx + 1]', 'Value1'],
+          ['my_map.b', 2],
+          ['my_map.nested.key', 3],
+          ['copy', $('my_list')],
+          ['copy[0]', 'changed'],
+        ]),
+        returnStep('return_values', [$('my_list'), $('my_map'), $('copy')]),
+      ])
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: [
+        [0, 'Value1', 2],
+        { a: 1, b: 2, nested: { key: 3 } },
+        ['changed', 'Value1', 2],
+      ],
+    })
+  })
+
+  it("doesn't find inherited members in maps", async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [
+          ['m', {}],
+          ['m.toString.value', 1],
+        ]),
+        returnStep('return_values', [
+          $('m'),
+          $('map.get(m, "hasOwnProperty")'),
+          $('map.get(m, "constructor")'),
+        ]),
+      ])
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: [{ toString: { value: 1 } }, null, null],
+    })
+  })
+
+  it('executes the first matching switch condition', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow(
+        [
+          switchStep('check_city', {
+            conditions: [
+              condition($('city == "New New York"'), {
+                next: 'return_nny',
+              }),
+              condition($('city == "Mars Vegas"'), {
+                steps: [assign('assign_mars', [['planet', 'Mars']])],
+              }),
+            ],
+            next: 'return_planet',
+          }),
+          returnStep('return_nny', 'Earth'),
+          returnStep('return_planet', $('planet')),
+        ],
+        'city'
+      )
+    )
+
+    expect(await executeWorkflow(wf, 'New New York')).toEqual({
+      status: 'succeeded',
+      result: 'Earth',
+    })
+    expect(await executeWorkflow(wf, 'Mars Vegas')).toEqual({
+      status: 'succeeded',
+      result: 'Mars',
+    })
+  })
+
+  it('iterates over a list and a range', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [
+          ['sum', 0],
+          ['indexes', []],
+        ]),
+        forStep('loop_list', {
+          loopVariable: 'v',
+          indexVariable: 'i',
+          listExpression: [10, 20, 30],
+          steps: [
+            assign('add', [
+              ['sum', $('sum + v')],
+              ['indexes', $('list.concat(indexes, i)')],
+            ]),
+          ],
+        }),
+        forStep('loop_range', {
+          loopVariable: 'v',
+          start: 1,
+          end: 3,
+          steps: [assign('add_range', [['sum', $('sum + v')]])],
+        }),
+        returnStep('return_sum', [$('sum'), $('indexes')]),
+      ])
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: [66, [0, 1, 2]],
+    })
+  })
+
+  it('keeps loop variables local to the loop body', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        forStep('loop', {
+          loopVariable: 'v',
+          listExpression: [1],
+          steps: [assign('assign_x', [['x', $('v')]])],
+        }),
+        returnStep('return_v', $('v')),
+      ])
+    )
+
+    const result = await executeWorkflow(wf)
+
+    expect(result.status).toBe('failed')
+  })
+
+  it('calls subworkflows with arguments and default values', async () => {
+    const subworkflow = new Subworkflow(
+      'greet',
+      [returnStep('return_greeting', $('greeting + ", " + name'))],
+      [{ name: 'name' }, { name: 'greeting', default: 'Hello' }]
+    )
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        call('call_greet', {
+          call: subworkflow,
+          args: { name: 'Leela' },
+          result: 'greeting',
+        }),
+        returnStep('return_greeting', $('greeting')),
+      ]),
+      [subworkflow]
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: 'Hello, Leela',
+    })
+  })
+
+  it('calls runtime function handlers', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        call('get_order', {
+          call: 'http.get',
+          args: { url: $('"https://planet.express.test/orders/" + "1"') },
+          result: 'response',
+        }),
+        returnStep('return_body', $('response.body')),
+      ])
+    )
+    const httpGet = jest.fn().mockResolvedValue({ code: 200, body: 'ok' })
+
+    const result = await executeWorkflow(wf, null, {
+      handlers: { 'http.get': httpGet },
+    })
+
+    expect(result).toEqual({ status: 'succeeded', result: 'ok' })
+    expect(httpGet).toHaveBeenCalledWith({
+      url: 'https://planet.express.test/orders/1',
+    })
+  })
+
+  it('rejects if a runtime function has no handler', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([call('get_order', { call: 'http.get' })])
+    )
+
+    await expect(executeWorkflow(wf)).rejects.toThrow(
+      'No handler for the runtime function "http.get"'
+    )
+  })
+
+  it('rejects if a function called in an expression has no handler', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('get_order', [['order', $('http.get("https://example.com")')]]),
+      ])
+    )
+
+    await expect(executeWorkflow(wf)).rejects.toThrow(
+      'No handler for the runtime function "http.get"'
+    )
+  })
+
+  it('calls subworkflows in expressions', async () => {
+    const double = new Subworkflow(
+      'double_it',
+      [returnStep('return_double', $('x * factor'))],
+      [{ name: 'x' }, { name: 'factor', default: 2 }]
+    )
+    const countdown = new Subworkflow(
+      'countdown',
+      [
+        switchStep('check', {
+          conditions: [
+            condition($('n <= 0'), { steps: [returnStep('zero', 0)] }),
+          ],
+        }),
+        returnStep('recurse', $('1 + countdown(n - 1)')),
+      ],
+      [{ name: 'n' }]
+    )
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('compute', [
+          ['y', $('double_it(3) + double_it(1, 10)')],
+          ['steps', $('countdown(y // 4)')],
+          ['skipped', $('false and double_it("a")')],
+        ]),
+        returnStep('return_values', [$('y'), $('steps'), $('skipped')]),
+      ]),
+      [double, countdown]
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: [16, 4, false],
+    })
+    await expect(
+      executeWorkflow(
+        new WorkflowApp(
+          new MainWorkflow([returnStep('r', $('double_it(1, 2, 3)'))]),
+          [double]
+        )
+      )
+    ).resolves.toEqual({
+      status: 'failed',
+      error: expect.objectContaining({
+        message: 'Too many arguments for workflow "double_it"',
+      }),
+    })
+  })
+
+  it('returns the raised error', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([raise('fail', { code: 55, message: 'Failed' })])
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'failed',
+      error: { code: 55, message: 'Failed' },
+    })
+  })
+
+  it('catches errors in except blocks', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_get', {
+          steps: [call('get_order', { call: 'http.get', result: 'response' })],
+          errorMap: 'e',
+          exceptSteps: [
+            switchStep('known_errors', {
+              conditions: [
+                condition($('"code" in e and e.code == 404'), {
+                  steps: [returnStep('return_error', 'Not found')],
+                }),
+              ],
+            }),
+            raise('unknown_errors', $('e')),
+          ],
+        }),
+      ])
+    )
+
+    const notFound = await executeWorkflow(wf, null, {
+      handlers: {
+        'http.get': () => {
+          throw new WorkflowRuntimeError({ code: 404, tags: ['HttpError'] })
+        },
+      },
+    })
+    const otherError = await executeWorkflow(wf, null, {
+      handlers: {
+        'http.get': () => {
+          throw new Error('Connection refused')
+        },
+      },
+    })
+
+    expect(notFound).toEqual({ status: 'succeeded', result: 'Not found' })
+    expect(otherError).toEqual({
+      status: 'failed',
+      error: { message: 'Connection refused', tags: ['RuntimeError'] },
+    })
+  })
+
+  it('raises runtime errors from expressions', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_divide', {
+          steps: [assign('divide', [['x', $('1 / 0')]])],
+          errorMap: 'e',
+          exceptSteps: [returnStep('return_tags', $('e.tags'))],
+        }),
+      ])
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: ['ZeroDivisionError'],
+    })
+  })
+
+  it('retries with a backoff', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_get', {
+          steps: [call('get', { call: 'http.get', result: 'response' })],
+          retryPolicy: {
+            predicate: 'http.default_retry',
+            maxRetries: 3,
+            backoff: { initialDelay: 1, maxDelay: 3, multiplier: 2 },
+          },
+          exceptSteps: [],
+        }),
+        returnStep('return_response', $('response')),
+      ])
+    )
+    let attempts = 0
+    const httpGet = () => {
+      attempts += 1
+      if (attempts < 4) {
+        throw new WorkflowRuntimeError({ code: 503, tags: ['HttpError'] })
+      }
+      return 'ok'
+    }
+    const sleep = jest.fn().mockResolvedValue(undefined)
+
+    const result = await executeWorkflow(wf, null, {
+      handlers: { 'http.get': httpGet },
+      sleep,
+    })
+
+    expect(result).toEqual({ status: 'succeeded', result: 'ok' })
+    expect(sleep.mock.calls).toEqual([[1], [2], [3]])
+  })
+
+  it('gives up after the maximum number of retries', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_get', {
+          steps: [call('get', { call: 'http.get' })],
+          retryPolicy: 'http.default_retry',
+          exceptSteps: [],
+        }),
+      ])
+    )
+    const httpGet = jest.fn(() => {
+      throw new WorkflowRuntimeError({ code: 503, tags: ['HttpError'] })
+    })
+
+    const result = await executeWorkflow(wf, null, {
+      handlers: { 'http.get': httpGet },
+      sleep: noSleep,
+    })
+
+    expect(result).toEqual({
+      status: 'failed',
+      error: { code: 503, tags: ['HttpError'] },
+    })
+    expect(httpGet).toHaveBeenCalledTimes(6)
+  })
+
+  it('calls a subworkflow as a retry predicate', async () => {
+    const predicate = new Subworkflow(
+      'retry_on_500',
+      [returnStep('check_code', $('e.code == 500'))],
+      [{ name: 'e' }]
+    )
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_get', {
+          steps: [call('get', { call: 'http.get' })],
+          retryPolicy: {
+            predicate,
+            maxRetries: 2,
+            backoff: { initialDelay: 1, maxDelay: 10, multiplier: 2 },
+          },
+          exceptSteps: [],
+        }),
+      ]),
+      [predicate]
+    )
+    const httpGet = jest.fn(() => {
+      throw new WorkflowRuntimeError({ code: 500 })
+    })
+
+    await executeWorkflow(wf, null, {
+      handlers: { 'http.get': httpGet },
+      sleep: noSleep,
+    })
+
+    expect(httpGet).toHaveBeenCalledTimes(3)
+  })
+
+  it('executes parallel branches with shared variables', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['results', [null, null]]]),
+        parallel('parallel_branches', {
+          shared: ['results'],
+          branches: [
+            stepsStep('branch1', [assign('set_1', [['results[0]', 'one']])]),
+            stepsStep('branch2', [assign('set_2', [['results[1]', 'two']])]),
+          ],
+        }),
+        returnStep('return_results', $('results')),
+      ])
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: ['one', 'two'],
+    })
+  })
+
+  it('executes parallel for loops', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['total', 0]]),
+        parallel('parallel_loop', {
+          shared: ['total'],
+          concurrencyLimit: 2,
+          forLoop: new ForStep(
+            [assign('add', [['total', $('total + v')]])],
+            'v',
+            [1, 2, 3]
+          ),
+        }),
+        returnStep('return_total', $('total')),
+      ])
+    )
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: 6,
+    })
+  })
+
+  it("doesn't allow assigning non-shared variables in parallel branches", async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['total', 0]]),
+        parallel('parallel_branches', {
+          branches: [stepsStep('branch1', [assign('set', [['total', 1]])])],
+        }),
+      ])
+    )
+
+    const result = await executeWorkflow(wf)
+
+    expect(result.status).toBe('failed')
+  })
+
+  it('follows next on non-switch steps', async () => {
+    const wf = fromYAMLString(`
+    main:
+      steps:
+        - init:
+            assign:
+              - visited: []
+            next: second
+        - first:
+            assign:
+              - visited: \${list.concat(visited, "first")}
+            next: third
+        - second:
+            steps:
+              - add_second:
+                  assign:
+                    - visited: \${list.concat(visited, "second")}
+            next: first
+        - third:
+            return: \${visited}
+    `)
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: ['second', 'first'],
+    })
+  })
+
+  it('supports break and continue in for loops', async () => {
+    const wf = fromYAMLString(`
+    main:
+      steps:
+        - init:
+            assign:
+              - visited: []
+        - loop:
+            for:
+              value: v
+              range: [1, 10]
+              steps:
+                - check:
+                    switch:
+                      - condition: \${v == 2}
+                        next: continue
+                      - condition: \${v == 4}
+                        next: break
+                - add:
+                    assign:
+                      - visited: \${list.concat(visited, v)}
+        - done:
+            return: \${visited}
+    `)
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: [1, 3],
+    })
+  })
+
+  it('jumps to the end', async () => {
+    const wf = fromYAMLString(`
+    main:
+      steps:
+        - check:
+            switch:
+              - condition: true
+                next: end
+        - unreachable:
+            raise: should not get here
+    `)
+
+    expect(await executeWorkflow(wf)).toEqual({
+      status: 'succeeded',
+      result: null,
+    })
+  })
+})
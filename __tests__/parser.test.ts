@@ -0,0 +1,501 @@
+import * as YAML from 'yaml'
+
+import { ExpressionBuilder } from '../src/expressionBuilder'
+import { parseExpression } from '../src/expressions'
+import { WorkflowParseError, fromJSON, fromYAMLString } from '../src/parser'
+import {
+  AssignStep,
+  CallStep,
+  ForStep,
+  Parallel,
+  StepsStep,
+  SwitchStep,
+  TryExceptStep,
+} from '../src/steps'
+import { Subworkflow, toYAMLString } from '../src/workflows'
+
+const orderWorkflow = `
+main:
+  params: [args]
+  steps:
+    - call_subworkflow:
+        call: get_order_status
+        args:
+          order_id: \${args.order_id}
+        result: order_status
+    - log_order:
+        call: sys.log
+        args:
+          text: \${order_status}
+    - return_status:
+        return: \${order_status}
+get_order_status:
+  params: [order_id, attempts: 0]
+  steps:
+    - try_get_order_status:
+        try:
+          steps:
+            - get_order_status:
+                call: http.get
+                args:
+                  url: \${"https://planet.express.test/orders/" + order_id}
+                result: response
+        retry:
+          predicate: \${my_retry_predicate}
+          max_retries: 3
+          backoff:
+            initial_delay: 1
+            max_delay: 60
+            multiplier: 2
+        except:
+          as: e
+          steps:
+            - known_errors:
+                switch:
+                  - condition: \${e.code == 404}
+                    steps:
+                      - return_error:
+                          return: Not found
+                  - condition: true
+                    next: unknown_errors
+            - unknown_errors:
+                raise: \${e}
+    - return_response:
+        return: \${response.body}
+my_retry_predicate:
+  params: [e]
+  steps:
+    - always_retry:
+        return: true
+`
+
+describe('Workflow parser', () => {
+  it('parses a workflow with subworkflows', () => {
+    const app = fromYAMLString(orderWorkflow)
+
+    expect(app.mainWorkflow.params).toEqual([{ name: 'args' }])
+    expect(app.mainWorkflow.steps.map((x) => x.name)).toEqual([
+      'call_subworkflow',
+      'log_order',
+      'return_status',
+    ])
+    expect(app.subworkflows.map((x) => x.name)).toEqual([
+      'get_order_status',
+      'my_retry_predicate',
+    ])
+    expect(app.subworkflows[0].params).toEqual([
+      { name: 'order_id' },
+      { name: 'attempts', default: 0 },
+    ])
+
+    const callStep = app.mainWorkflow.steps[0].step
+    expect(callStep).toBeInstanceOf(CallStep)
+    expect((callStep as CallStep).call).toBe('get_order_status')
+    expect((callStep as CallStep).args?.order_id).toEqual(
+      new ExpressionBuilder(parseExpression('args.order_id'))
+    )
+    expect((callStep as CallStep).result).toBe('order_status')
+  })
+
+  it('resolves subworkflows used as retry predicates', () => {
+    const app = fromYAMLString(orderWorkflow)
+    const tryStep = app.subworkflows[0].steps[0].step as TryExceptStep
+
+    expect(tryStep).toBeInstanceOf(TryExceptStep)
+    expect(tryStep.errorMap).toBe('e')
+    expect(tryStep.exceptSteps[0].step).toBeInstanceOf(SwitchStep)
+    expect(typeof tryStep.retryPolicy).toBe('object')
+    if (typeof tryStep.retryPolicy === 'object') {
+      expect(tryStep.retryPolicy.predicate).toBeInstanceOf(Subworkflow)
+      expect(tryStep.retryPolicy.predicate).toBe(app.subworkflows[1])
+    }
+  })
+
+  it('round-trips the default retry predicates', () => {
+    const source = `
+main:
+  steps:
+    - try_get:
+        try:
+          steps:
+            - get:
+                call: http.get
+                args:
+                  url: https://example.com
+        retry:
+          predicate: \${http.default_retry_predicate}
+          max_retries: 5
+          backoff:
+            initial_delay: 1
+            max_delay: 60
+            multiplier: 2
+    - try_post:
+        try:
+          steps:
+            - post:
+                call: http.post
+                args:
+                  url: https://example.com
+        retry:
+          predicate: \${http.default_retry_predicate_non_idempotent}
+          max_retries: 3
+          backoff:
+            initial_delay: 2
+            max_delay: 30
+            multiplier: 1.5
+`
+    const app = fromYAMLString(source)
+    const predicates = app.mainWorkflow.steps.map(({ step }) =>
+      step instanceof TryExceptStep && typeof step.retryPolicy === 'object'
+        ? step.retryPolicy.predicate
+        : undefined
+    )
+
+    expect(predicates).toEqual([
+      'http.default_retry_predicate',
+      'http.default_retry_predicate_non_idempotent',
+    ])
+    expect(YAML.parse(toYAMLString(app))).toEqual(YAML.parse(source))
+  })
+
+  it('parses a try block with a single step', () => {
+    const source = `
+main:
+  steps:
+    - try_get:
+        try:
+          call: http.get
+          args:
+            url: https://example.com
+          result: response
+        retry: \${http.default_retry}
+`
+    const app = fromYAMLString(source)
+    const tryStep = app.mainWorkflow.steps[0].step as TryExceptStep
+
+    expect(tryStep).toBeInstanceOf(TryExceptStep)
+    expect(tryStep.trySteps).toHaveLength(1)
+    expect(tryStep.trySteps[0].name).toBe('try_get_body')
+    expect(tryStep.trySteps[0].step).toBeInstanceOf(CallStep)
+    expect((tryStep.trySteps[0].step as CallStep).result).toBe('response')
+    expect(tryStep.retryPolicy).toBe('http.default_retry')
+    expect(YAML.parse(toYAMLString(app))).toEqual({
+      main: {
+        steps: [
+          {
+            try_get: {
+              try: {
+                steps: [
+                  {
+                    try_get_body: {
+                      call: 'http.get',
+                      args: { url: 'https://example.com' },
+                      result: 'response',
+                    },
+                  },
+                ],
+              },
+              retry: '${http.default_retry}',
+            },
+          },
+        ],
+      },
+    })
+  })
+
+  it('round-trips a workflow through YAML', () => {
+    const app = fromYAMLString(orderWorkflow)
+
+    expect(YAML.parse(toYAMLString(app))).toEqual(
+      YAML.parse(orderWorkflow.replace('condition: true', 'condition: ${true}'))
+    )
+  })
+
+  it('parses connector parameters', () => {
+    const source = `
+    main:
+      steps:
+        - create_bucket:
+            call: googleapis.storage.v1.buckets.insert
+            args:
+              project: my-project
+              body:
+                name: my-bucket
+              connector_params:
+                timeout: 300
+                polling_policy:
+                  initial_delay: 1
+                  multiplier: 1.5
+                  max_delay: 60
+                skip_polling: false
+                scopes:
+                  - https://www.googleapis.com/auth/devstorage.full_control
+    `
+    const app = fromYAMLString(source)
+    const step = app.mainWorkflow.steps[0].step as CallStep
+
+    expect(step.args).toEqual({
+      project: 'my-project',
+      body: { name: 'my-bucket' },
+    })
+    expect(step.connectorParams).toEqual({
+      timeout: 300,
+      pollingPolicy: { initialDelay: 1, multiplier: 1.5, maxDelay: 60 },
+      skipPolling: false,
+      scopes: ['https://www.googleapis.com/auth/devstorage.full_control'],
+    })
+    expect(YAML.parse(toYAMLString(app))).toEqual(YAML.parse(source))
+    expect(() =>
+      fromYAMLString(source.replace('skip_polling', 'poll'))
+    ).toThrow('Unknown keys: poll')
+  })
+
+  it('round-trips all step types', () => {
+    const source = `
+    main:
+      steps:
+        - init:
+            assign:
+              - total: 0
+              - my_list: [1, 2, 3]
+              - my_map: { key: value, nested: { list: ["\${a}", null] } }
+            next: loop
+        - loop:
+            for:
+              value: v
+              index: i
+              in: \${my_list}
+              steps:
+                - skip_odd:
+                    switch:
+                      - condition: \${v % 2 == 1}
+                        next: continue
+                - add:
+                    assign:
+                      - total: \${total + i * v}
+                - stop:
+                    next: break
+        - range_loop:
+            for:
+              value: v
+              range: [1, 9]
+              steps:
+                - add2:
+                    assign:
+                      - total: \${total + v}
+        - parallel_branches:
+            parallel:
+              shared: [total]
+              concurrency_limit: 2
+              branches:
+                - branch1:
+                    steps:
+                      - log1:
+                          call: sys.log
+                          args:
+                            text: branch 1
+                - branch2:
+                    steps:
+                      - log2:
+                          call: sys.log
+                          args:
+                            text: branch 2
+        - parallel_loop:
+            parallel:
+              for:
+                value: x
+                in: [a, b]
+                steps:
+                  - log3:
+                      call: sys.log
+                      args:
+                        text: \${x}
+            next: retry_only
+        - retry_only:
+            try:
+              steps:
+                - get:
+                    call: http.get
+                    args:
+                      url: https://example.test/
+            retry: \${http.default_retry}
+            next: check
+        - check:
+            switch:
+              - condition: \${total > 10}
+                next: done
+            next: fail
+        - fail:
+            raise: too small
+        - done:
+            return: \${total}
+    `
+    const app = fromYAMLString(source)
+    const steps = app.mainWorkflow.steps.map((x) => x.step)
+
+    expect(steps[0]).toBeInstanceOf(AssignStep)
+    expect(steps[1]).toBeInstanceOf(ForStep)
+    expect(steps[3]).toBeInstanceOf(Parallel)
+    expect((steps[3] as Parallel).branches?.[0].step).toBeInstanceOf(StepsStep)
+    expect((steps[4] as Parallel).forStep).toBeInstanceOf(ForStep)
+    expect(YAML.parse(toYAMLString(app))).toEqual(YAML.parse(source))
+  })
+
+  it('parses a workflow written as a plain list of steps', () => {
+    const app = fromYAMLString(`
+    - say_hello:
+        call: sys.log
+        args:
+          text: Hello
+    `)
+
+    expect(app.mainWorkflow.name).toBe('main')
+    expect(app.mainWorkflow.steps[0].name).toBe('say_hello')
+    expect(app.subworkflows).toEqual([])
+  })
+
+  it('parses JSON', () => {
+    const source = {
+      main: {
+        steps: [{ assign_name: { assign: [{ name: '${args.name}' }] } }],
+      },
+    }
+    const app = fromJSON(JSON.stringify(source))
+
+    expect(app.render()).toEqual(source)
+  })
+
+  it('parses expressions with braces and dollar signs in literals', () => {
+    const source = {
+      main: {
+        steps: [
+          {
+            assign_values: {
+              assign: [
+                { wrapped: '${"{" + x + "}"}' },
+                { encoded: '${json.encode({"a": 1})}' },
+                { price: '${"$" + string(amount)}' },
+              ],
+            },
+          },
+        ],
+      },
+    }
+    const app = fromJSON(JSON.stringify(source))
+
+    expect(app.render()).toEqual(source)
+  })
+
+  it('reports invalid expressions', () => {
+    const source = `
+    main:
+      steps:
+        - return_value:
+            return: \${1 +}
+    `
+
+    expect(() => fromYAMLString(source)).toThrow(WorkflowParseError)
+    expect(() => fromYAMLString(source)).toThrow(
+      '(at main.steps[0].return_value.return)'
+    )
+  })
+
+  it('reports unknown keys', () => {
+    const source = `
+    main:
+      steps:
+        - log:
+            call: sys.log
+            argz:
+              text: Hello
+    `
+
+    expect(() => fromYAMLString(source)).toThrow(WorkflowParseError)
+    expect(() => fromYAMLString(source)).toThrow(
+      'Unknown keys: argz (at main.steps[0].log)'
+    )
+  })
+
+  it('reports unrecognized steps', () => {
+    const source = `
+    main:
+      steps:
+        - mystery:
+            foo: bar
+    `
+
+    expect(() => fromYAMLString(source)).toThrow(
+      'Unrecognized step type with keys: foo (at main.steps[0].mystery)'
+    )
+  })
+
+  it('reports malformed blocks', () => {
+    const source = `
+    main:
+      steps:
+        - loop:
+            for:
+              value: v
+              steps: []
+    `
+
+    expect(() => fromYAMLString(source)).toThrow(
+      'A for loop must have either "in" or "range" (at main.steps[0].loop.for)'
+    )
+  })
+
+  it('reports unknown retry predicates', () => {
+    const source = `
+    main:
+      steps:
+        - try_step:
+            try:
+              steps:
+                - get:
+                    call: http.get
+            retry:
+              predicate: \${missing_predicate}
+              max_retries: 3
+              backoff:
+                initial_delay: 1
+                max_delay: 60
+                multiplier: 2
+    `
+
+    expect(() => fromYAMLString(source)).toThrow(
+      'Unknown retry predicate "missing_predicate"'
+    )
+  })
+
+  it('requires the main workflow', () => {
+    const source = `
+    my_subworkflow:
+      steps:
+        - return_value:
+            return: 1
+    `
+
+    expect(() => fromYAMLString(source)).toThrow('The main workflow is missing')
+  })
+
+  it('requires exactly one parameter in the main workflow', () => {
+    const source = (params: string) => `
+    main:
+      params: ${params}
+      steps:
+        - return_value:
+            return: 1
+    `
+    const message =
+      'The main workflow accepts exactly one parameter without a default value (at main.params)'
+
+    expect(() => fromYAMLString(source('[]'))).toThrow(WorkflowParseError)
+    expect(() => fromYAMLString(source('[]'))).toThrow(message)
+    expect(() => fromYAMLString(source('[a, b]'))).toThrow(message)
+    expect(() => fromYAMLString(source('[a: 1]'))).toThrow(message)
+  })
+
+  it('reports invalid YAML', () => {
+    expect(() => fromYAMLString('main: [')).toThrow(WorkflowParseError)
+  })
+})
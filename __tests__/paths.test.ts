@@ -0,0 +1,174 @@
+import * as ts from 'typescript'
+
+import { fromYAMLString } from '../src/parser'
+import { enumeratePaths, toTestSkeletons } from '../src/paths'
+
+const source = `
+main:
+  params: [args]
+  steps:
+    - get:
+        try:
+          steps:
+            - fetch:
+                call: http.get
+                args:
+                  url: \${args.url}
+                result: response
+        except:
+          as: e
+          steps:
+            - fail:
+                raise: \${e}
+    - check:
+        switch:
+          - condition: \${response.code == 200}
+            next: process
+        next: not_found
+    - process:
+        call: sum_prices
+        args:
+          items: \${response.body.items}
+        result: total
+    - done:
+        return: \${total}
+    - not_found:
+        return: null
+sum_prices:
+  params: [items]
+  steps:
+    - init:
+        assign:
+          - total: 0
+    - loop:
+        for:
+          value: item
+          in: \${items}
+          steps:
+            - add:
+                assign:
+                  - total: \${total + item.price}
+    - return_total:
+        return: \${total}
+`
+
+describe('Path enumeration', () => {
+  it('enumerates switch branches, except blocks and loops', () => {
+    const paths = enumeratePaths(fromYAMLString(source))
+
+    expect(paths.map((x) => x.conditions)).toEqual([
+      [],
+      ['result("fetch").code != 200'],
+      ['result("fetch").code == 200', 'len(result("fetch").body.items) == 0'],
+      ['result("fetch").code == 200', 'len(result("fetch").body.items) > 0'],
+    ])
+    expect(paths.map((x) => x.outcome)).toEqual([
+      { type: 'raise', value: 'error("fetch")' },
+      { type: 'return', value: 'null' },
+      { type: 'return', value: '0' },
+      { type: 'return', value: '0 + result("fetch").body.items[0].price' },
+    ])
+    expect(paths[0].calls).toEqual([
+      {
+        step: 'fetch',
+        call: 'http.get',
+        symbol: 'error("fetch")',
+        raises: true,
+      },
+    ])
+    expect(paths[3].steps).toEqual([
+      'get',
+      'fetch',
+      'check',
+      'process',
+      'sum_prices.init',
+      'sum_prices.loop',
+      'sum_prices.add',
+      'sum_prices.return_total',
+      'done',
+    ])
+  })
+
+  it('expresses conditions in terms of the arguments', () => {
+    const app = fromYAMLString(`
+    main:
+      params: [args]
+      steps:
+        - init:
+            assign:
+              - limit: \${args.limit * 2}
+        - check:
+            switch:
+              - condition: \${limit > 10}
+                steps:
+                  - big:
+                      return: big
+              - condition: \${not args.strict}
+                steps:
+                  - lenient:
+                      return: lenient
+        - fallback:
+            return: small
+    `)
+    const paths = enumeratePaths(app)
+
+    expect(paths.map((x) => x.conditions)).toEqual([
+      ['args.limit * 2 > 10'],
+      ['args.limit * 2 <= 10', 'not args.strict'],
+      ['args.limit * 2 <= 10', 'args.strict'],
+    ])
+  })
+
+  it('prunes branches with constant conditions', () => {
+    const app = fromYAMLString(`
+    main:
+      steps:
+        - init:
+            assign:
+              - debug: false
+        - check:
+            switch:
+              - condition: \${debug}
+                next: log
+        - done:
+            return: 1
+        - log:
+            return: 2
+    `)
+    const paths = enumeratePaths(app)
+
+    expect(paths).toHaveLength(1)
+    expect(paths[0].outcome).toEqual({ type: 'return', value: '1' })
+  })
+
+  it('treats subworkflows beyond the inlining depth as calls', () => {
+    const paths = enumeratePaths(fromYAMLString(source), { maxCallDepth: 0 })
+
+    expect(paths.map((x) => x.outcome)).toContainEqual({
+      type: 'return',
+      value: 'result("process")',
+    })
+  })
+
+  it('limits the number of paths', () => {
+    expect(
+      enumeratePaths(fromYAMLString(source), { maxPaths: 2 })
+    ).toHaveLength(2)
+  })
+
+  it('generates test skeletons', () => {
+    const code = toTestSkeletons(fromYAMLString(source))
+    const { diagnostics } = ts.transpileModule(code, {
+      reportDiagnostics: true,
+    })
+
+    expect(diagnostics).toEqual([])
+    expect(code).toContain(
+      "import { WorkflowRuntimeError, executeWorkflow } from 'gcp-workflows-toolkit'"
+    )
+    expect(code.match(/^ {2}it\(/gm)).toHaveLength(4)
+    expect(code).toContain('//   len(result("fetch").body.items) > 0')
+    expect(code).toContain("'http.get': jest")
+    expect(code).toContain("expect(execution.status).toBe('failed')")
+  })
+})
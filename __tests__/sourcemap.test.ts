@@ -0,0 +1,146 @@
+import * as path from 'path'
+import {
+  buildSourceMap,
+  formatSourceMapEntry,
+  lookupSource,
+} from '../src/sourcemap'
+import { fromYAMLString } from '../src/parser'
+import {
+  assign,
+  call,
+  condition,
+  returnStep,
+  switchStep,
+  tryExcept,
+  withDescription,
+} from '../src/steps'
+import { $ } from '../src/variables'
+import { MainWorkflow, Subworkflow, WorkflowApp } from '../src/workflows'
+
+// The line number of the caller
+function currentLine(): number {
+  const frame = new Error().stack?.split('\n')[2] ?? ''
+  return Number(/:(\d+):\d+\)?$/.exec(frame)?.[1])
+}
+
+const subworkflow = new Subworkflow(
+  'fetch_order',
+  [
+    tryExcept('try_get', {
+      steps: [call('get', { call: 'http.get', result: 'response' })],
+      exceptSteps: [returnStep('return_error', null)],
+    }),
+    returnStep('return_order', $('response.body')),
+  ],
+  [{ name: 'order_id' }]
+)
+const firstStepLine = currentLine() + 3
+const app = new WorkflowApp(
+  new MainWorkflow([
+    call('call_fetch', { call: subworkflow, result: 'order' }),
+    switchStep('check', {
+      conditions: [
+        condition($('order == null'), {
+          steps: [withDescription(returnStep('not_found', 'none'), 'Missing')],
+        }),
+      ],
+    }),
+    assign('count', [['n', 1]]),
+  ]),
+  [subworkflow]
+)
+const sourceMap = buildSourceMap(app, { rootDir: path.join(__dirname, '..') })
+
+describe('Source maps', () => {
+  it('records where the builder functions were called', () => {
+    expect(app.mainWorkflow.steps[0].source).toEqual({
+      file: __filename,
+      line: firstStepLine,
+      column: expect.any(Number),
+    })
+  })
+
+  it('maps step paths to source locations', () => {
+    expect(Object.keys(sourceMap.steps)).toEqual([
+      'main.steps[0]',
+      'main.steps[1]',
+      'main.steps[1].switch[0].steps[0]',
+      'main.steps[2]',
+      'fetch_order.steps[0]',
+      'fetch_order.steps[0].try.steps[0]',
+      'fetch_order.steps[0].except.steps[0]',
+      'fetch_order.steps[1]',
+    ])
+    expect(sourceMap.steps['main.steps[0]']).toEqual({
+      workflow: 'main',
+      step: 'call_fetch',
+      file: '__tests__/sourcemap.test.ts',
+      line: firstStepLine,
+      column: expect.any(Number),
+    })
+    expect(sourceMap.steps['main.steps[1].switch[0].steps[0]'].step).toEqual(
+      'not_found'
+    )
+  })
+
+  it('skips steps without a source location', () => {
+    const parsed = fromYAMLString(`
+    main:
+      steps:
+        - done:
+            return: 1
+    `)
+
+    expect(buildSourceMap(parsed).steps).toEqual({})
+  })
+
+  it('looks up step paths', () => {
+    const tryStep = sourceMap.steps['fetch_order.steps[0].try.steps[0]']
+
+    expect(
+      lookupSource(sourceMap, 'fetch_order.steps[0].try.steps[0]')
+    ).toEqual([tryStep])
+    expect(
+      lookupSource(sourceMap, 'fetch_order.steps[0].try_get.try.steps[0].get')
+    ).toEqual([tryStep])
+    expect(
+      lookupSource(sourceMap, 'main.steps[1].check.switch[0].steps[0]')
+    ).toEqual([sourceMap.steps['main.steps[1].switch[0].steps[0]']])
+    expect(lookupSource(sourceMap, 'main.steps[5]')).toEqual([])
+  })
+
+  it('looks up steps in execution errors', () => {
+    const getStep = sourceMap.steps['fetch_order.steps[0].try.steps[0]']
+    const callStep = sourceMap.steps['main.steps[0]']
+
+    expect(
+      lookupSource(
+        sourceMap,
+        'HTTP server responded with error code 404\nin step "get", routine "fetch_order", line: 8'
+      )
+    ).toEqual([getStep])
+    expect(
+      lookupSource(sourceMap, {
+        error: {
+          context: 'HTTP server responded with error code 404',
+          payload: '{}',
+          stackTrace: {
+            elements: [
+              { step: 'get', routine: 'fetch_order', position: { line: 8 } },
+              { step: 'call_fetch', routine: 'main', position: { line: 3 } },
+            ],
+          },
+        },
+      })
+    ).toEqual([getStep, callStep])
+  })
+
+  it('formats source map entries', () => {
+    const entry = sourceMap.steps['main.steps[2]']
+
+    expect(entry.line).toEqual(firstStepLine + 8)
+    expect(formatSourceMapEntry(entry)).toEqual(
+      `__tests__/sourcemap.test.ts:${entry.line}:${entry.column} (step "count" in workflow "main")`
+    )
+  })
+})
@@ -0,0 +1,37 @@
+import { getStdlibFunction, stdlibFunctions } from '../src/stdlib'
+
+describe('Standard library catalogue', () => {
+  it('describes the parameters and the result of a function', () => {
+    expect(getStdlibFunction('text.split')).toEqual({
+      name: 'text.split',
+      params: [
+        { name: 'source', type: 'string', required: true },
+        { name: 'separator', type: 'string', required: true },
+      ],
+      result: 'list',
+    })
+    expect(getStdlibFunction('http.get')?.params.map((x) => x.name)).toEqual([
+      'url',
+      'timeout',
+      'headers',
+      'query',
+      'auth',
+      'private_service_name',
+    ])
+  })
+
+  it('returns undefined for unknown functions', () => {
+    expect(getStdlibFunction('sys.lgo')).toBeUndefined()
+    expect(getStdlibFunction('len')).toBeUndefined()
+  })
+
+  it('has unique function names and parameter names', () => {
+    const names = stdlibFunctions.map((x) => x.name)
+    expect(new Set(names).size).toBe(names.length)
+
+    for (const { params } of stdlibFunctions) {
+      const paramNames = params.map((x) => x.name)
+      expect(new Set(paramNames).size).toBe(paramNames.length)
+    }
+  })
+})
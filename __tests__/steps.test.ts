@@ -14,6 +14,9 @@ import {
   parallel,
   forStep,
   ForStep,
+  breakStep,
+  continueStep,
+  jump,
 } from '../src/steps'
 import { Subworkflow } from '../src/workflows'
 
@@ -109,10 +112,10 @@ describe('workflows step', () => {
     const return1 = returnStep('return_counter', $('a'))
     const { step } = switchStep('step1', {
       conditions: [
-        condition($('city = "New New York"'), {
+        condition($('city == "New New York"'), {
           next: 'destination_new_new_york',
         }),
-        condition($('city = "Mars Vegas"'), {
+        condition($('city == "Mars Vegas"'), {
           steps: [assign1, return1],
         }),
       ],
@@ -121,9 +124,9 @@ describe('workflows step', () => {
 
     const expected2 = YAML.parse(`
     switch:
-        - condition: \${city = "New New York"}
+        - condition: \${city == "New New York"}
           next: destination_new_new_york
-        - condition: \${city = "Mars Vegas"}
+        - condition: \${city == "Mars Vegas"}
           steps:
             - increase_counter:
                 assign:
@@ -537,4 +540,37 @@ describe('workflows step', () => {
 
     expect(step.render()).toEqual(expected)
   })
+
+  it('renders next on all step types that support it', () => {
+    const steps = [
+      assign('assign1', [['a', 1]], { next: 'target' }),
+      call('call1', { call: 'sys.log', args: { text: 'hi' }, next: 'target' }),
+      stepsStep('steps1', [assign('assign2', [['b', 2]])], {
+        next: 'target',
+      }),
+      tryExcept('try1', {
+        steps: [call('get', { call: 'http.get', args: { url: 'x' } })],
+        exceptSteps: [],
+        retryPolicy: 'http.default_retry',
+        next: 'target',
+      }),
+      forStep('for1', {
+        loopVariable: 'v',
+        listExpression: [1, 2],
+        steps: [],
+        next: 'target',
+      }),
+      parallel('parallel1', { branches: [], next: 'target' }),
+    ]
+
+    for (const { step } of steps) {
+      expect(step.render()).toMatchObject({ next: 'target' })
+    }
+  })
+
+  it('renders jump, break and continue steps', () => {
+    expect(jump('step1', 'target').step.render()).toEqual({ next: 'target' })
+    expect(breakStep('step2').step.render()).toEqual({ next: 'break' })
+    expect(continueStep('step3').step.render()).toEqual({ next: 'continue' })
+  })
 })
@@ -0,0 +1,237 @@
+import { WorkflowRuntimeError } from '../src/expressions'
+import {
+  assign,
+  call,
+  condition,
+  forStep,
+  raise,
+  returnStep,
+  switchStep,
+  tryExcept,
+} from '../src/steps'
+import { WorkflowAssertionError, runWorkflow } from '../src/testing'
+import { $ } from '../src/variables'
+import { MainWorkflow, Subworkflow, WorkflowApp } from '../src/workflows'
+
+const notify = new Subworkflow(
+  'notify',
+  [call('post_notification', { call: 'http.post', args: { body: $('text') } })],
+  [{ name: 'text' }]
+)
+
+const orderWorkflow = new WorkflowApp(
+  new MainWorkflow(
+    [
+      assign('init', [['started', $('sys.now()')]]),
+      tryExcept('try_get', {
+        steps: [
+          call('get_order', {
+            call: 'http.get',
+            args: { url: $('"https://example.com/orders/" + args.id') },
+            result: 'order',
+          }),
+        ],
+        errorMap: 'e',
+        exceptSteps: [
+          switchStep('known_errors', {
+            conditions: [
+              condition($('e.code == 404'), {
+                steps: [
+                  call('notify_missing', {
+                    call: notify,
+                    args: { text: 'missing' },
+                  }),
+                  returnStep('return_missing', 'missing'),
+                ],
+              }),
+            ],
+          }),
+          raise('reraise', $('e')),
+        ],
+      }),
+      returnStep('return_status', $('order.body.status')),
+    ],
+    'args'
+  ),
+  [notify]
+)
+
+describe('Workflow testing', () => {
+  it('records the result, the variables and the executed steps', async () => {
+    const run = await runWorkflow(orderWorkflow, {
+      args: { id: '1' },
+      mocks: {
+        'http.get': () => ({ code: 200, body: { status: 'delivered' } }),
+        'sys.now': () => 100,
+      },
+    })
+
+    expect(run.status).toBe('succeeded')
+    expect(run.result).toBe('delivered')
+    expect(run.error).toBeUndefined()
+    expect(run.variables).toEqual({
+      args: { id: '1' },
+      started: 100,
+      order: { code: 200, body: { status: 'delivered' } },
+    })
+    expect(run.trace).toEqual([
+      { workflow: 'main', step: 'init' },
+      { workflow: 'main', step: 'try_get' },
+      { workflow: 'main', step: 'get_order' },
+      { workflow: 'main', step: 'return_status' },
+    ])
+    expect(run.calls).toEqual([
+      { workflow: 'main', step: 'init', target: 'sys.now', args: {} },
+      {
+        workflow: 'main',
+        step: 'get_order',
+        target: 'http.get',
+        args: { url: 'https://example.com/orders/1' },
+      },
+    ])
+
+    run.expectSucceeded()
+    run.expectStepExecuted('get_order')
+    run.expectStepNotExecuted('known_errors')
+    run.expectCallCount('http.get', 1)
+    run.expectCallCount('http.post', 0)
+  })
+
+  it('covers an except handler and a subworkflow call', async () => {
+    const run = await runWorkflow(orderWorkflow, {
+      args: { id: '2' },
+      mocks: {
+        'http.get': () => {
+          throw new WorkflowRuntimeError({ code: 404, tags: ['HttpError'] })
+        },
+        'http.post': () => null,
+        'sys.now': () => 0,
+      },
+    })
+
+    expect(run.result).toBe('missing')
+    expect(run.executedSteps('notify')).toEqual(['post_notification'])
+    run.expectStepExecuted('return_missing')
+    run.expectStepExecuted('post_notification', 'notify')
+    run.expectStepNotExecuted('reraise')
+    run.expectCalledWith('notify', { text: 'missing' })
+    run.expectCalledWith('http.post', { body: 'missing' })
+  })
+
+  it('records the raised error', async () => {
+    const run = await runWorkflow(orderWorkflow, {
+      args: { id: '3' },
+      mocks: {
+        'http.get': () => {
+          throw new WorkflowRuntimeError({ code: 500 })
+        },
+        'sys.now': () => 0,
+      },
+    })
+
+    expect(run.status).toBe('failed')
+    expect(run.error).toEqual({ code: 500 })
+    expect(run.variables.e).toEqual({ code: 500 })
+    run.expectFailed()
+    run.expectStepExecuted('reraise')
+  })
+
+  it('records each iteration of a loop', async () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        forStep('loop', {
+          loopVariable: 'x',
+          listExpression: [1, 2],
+          steps: [call('log', { call: 'sys.log', args: { text: $('x') } })],
+        }),
+      ])
+    )
+
+    const run = await runWorkflow(wf)
+
+    expect(run.executedSteps()).toEqual(['loop', 'log', 'log'])
+    run.expectCallCount('sys.log', 2)
+  })
+
+  it('describes failed assertions', async () => {
+    const run = await runWorkflow(orderWorkflow, {
+      args: { id: '1' },
+      mocks: {
+        'http.get': () => ({ code: 200, body: { status: 'delivered' } }),
+        'sys.now': () => 0,
+      },
+    })
+
+    expect(() => run.expectFailed()).toThrow(WorkflowAssertionError)
+    expect(() => run.expectStepExecuted('reraise')).toThrow(
+      'Expected step "reraise" of workflow "main" to be executed. Executed steps: init, try_get, get_order, return_status'
+    )
+    expect(() =>
+      run.expectCalledWith('http.get', { url: 'https://example.com' })
+    ).toThrow(
+      'Expected "http.get" to be called with {"url":"https://example.com"}. Actual arguments: {"url":"https://example.com/orders/1"}'
+    )
+    expect(() => run.expectCallCount('http.get', 2)).toThrow(
+      'Expected "http.get" to be called 2 times, but it was called 1 times'
+    )
+  })
+
+  it('passes named arguments to mocks called in expressions', async () => {
+    const app = new WorkflowApp(
+      new MainWorkflow([
+        assign('get', [
+          ['response', $('http.get("https://example.com", 10)')],
+          ['size', $('len(response.body)')],
+        ]),
+        returnStep('return_size', $('size')),
+      ])
+    )
+
+    const run = await runWorkflow(app, {
+      mocks: {
+        'http.get': (args) => ({ body: [args.url, args.timeout] }),
+      },
+      functions: { len: () => 42 },
+    })
+
+    run.expectSucceeded()
+    expect(run.variables.response).toEqual({
+      body: ['https://example.com', 10],
+    })
+    expect(run.result).toBe(42)
+  })
+
+  it('awaits and records async mocks called in expressions', async () => {
+    const app = new WorkflowApp(
+      new MainWorkflow([
+        assign('get', [['body', $('http.get("https://example.com").body')]]),
+        returnStep('return_body', $('body')),
+      ])
+    )
+
+    const run = await runWorkflow(app, {
+      mocks: {
+        'http.get': async (args) => ({ body: { url: args.url } }),
+      },
+    })
+
+    run.expectSucceeded()
+    expect(run.result).toEqual({ url: 'https://example.com' })
+    expect(run.callsTo('http.get')).toEqual([
+      {
+        workflow: 'main',
+        step: 'get',
+        target: 'http.get',
+        args: { url: 'https://example.com' },
+      },
+    ])
+    run.expectCallCount('http.get', 1)
+    run.expectCalledWith('http.get', { url: 'https://example.com' })
+  })
+
+  it('rejects if a runtime function is not mocked', async () => {
+    await expect(
+      runWorkflow(orderWorkflow, { args: { id: '1' } })
+    ).rejects.toThrow()
+  })
+})
@@ -1,15 +1,49 @@
 import { MainWorkflow, Subworkflow, WorkflowApp } from '../src/workflows'
 import {
   assign,
+  CallStep,
+  ForStep,
+  breakStep,
   call,
+  continueStep,
   condition,
+  forStep,
+  jump,
+  parallel,
+  raise,
   returnStep,
   stepsStep,
   switchStep,
+  TryExceptStep,
+  tryExcept,
 } from '../src/steps'
-import { WorkflowValidationError, validate } from '../src/validation'
+import {
+  CustomValidator,
+  WorkflowValidationError,
+  validate,
+} from '../src/validation'
 import { $ } from '../src/variables'
 
+function issueMessages(wf: WorkflowApp): string[] {
+  try {
+    validate(wf)
+  } catch (err) {
+    if (err instanceof WorkflowValidationError) {
+      return err.issues.map((x) => `${x.type}: ${x.message}`)
+    }
+    throw err
+  }
+
+  return []
+}
+
+// Messages of all issues, including warnings
+function allIssueMessages(wf: WorkflowApp): string[] {
+  return validate(wf, { throwOnError: false }).map(
+    (x) => `${x.type}: ${x.message}`
+  )
+}
+
 describe('Validator', () => {
   it('accepts a valid workflow', () => {
     const steps = [
@@ -196,6 +230,81 @@ describe('Validator', () => {
     expect(() => validate(wf)).toThrow('missingJumpTarget')
   })
 
+  it('detects a missing next target on a non-switch step', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('step1', [['a', 1]], { next: 'step2' }),
+        forStep('step2', {
+          loopVariable: 'v',
+          listExpression: [1, 2],
+          steps: [call('log', { call: 'sys.log', next: 'missing_step' })],
+        }),
+        returnStep('step3', $('a')),
+      ])
+    )
+
+    expect(() => validate(wf)).toThrow('missingJumpTarget')
+    expect(() => validate(wf, ['missingJumpTarget'])).not.toThrow()
+  })
+
+  it('accepts break and continue inside for loops', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        forStep('loop', {
+          loopVariable: 'v',
+          listExpression: [1, 2, 3],
+          steps: [
+            switchStep('check', {
+              conditions: [
+                condition($('v == 1'), { next: 'continue' }),
+                condition($('v == 2'), { steps: [breakStep('stop')] }),
+              ],
+            }),
+            call('log', { call: 'sys.log', args: { text: $('v') } }),
+          ],
+        }),
+        parallel('parallel_loop', {
+          forLoop: new ForStep([continueStep('skip')], 'v', [1, 2]),
+        }),
+      ])
+    )
+
+    expect(() => validate(wf)).not.toThrow()
+  })
+
+  it('detects break outside of a for loop', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['a', 1]]),
+        switchStep('check', {
+          conditions: [condition($('a == 1'), { next: 'break' })],
+        }),
+      ])
+    )
+
+    expect(() => validate(wf)).toThrow('invalidLoopControl')
+  })
+
+  it('detects continue crossing a parallel boundary', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        forStep('loop', {
+          loopVariable: 'v',
+          listExpression: [1, 2, 3],
+          steps: [
+            parallel('parallel_branches', {
+              branches: [stepsStep('branch1', [continueStep('skip')])],
+            }),
+          ],
+        }),
+      ])
+    )
+
+    const messages = issueMessages(wf)
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toContain('parallel branch')
+  })
+
   it('detects a missing call target subworkflow', () => {
     const sub1 = new Subworkflow('subworkflow1', [returnStep('return1', '1')])
     const sub2 = new Subworkflow('subworkflow2', [returnStep('return2', '2')])
@@ -207,6 +316,44 @@ describe('Validator', () => {
     expect(() => validate(wf)).toThrow('missingJumpTarget')
   })
 
+  it('detects misspelled standard library functions', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        call('log', { call: 'sys.lgo', args: { text: 'hello' } }),
+        call('get', { call: 'http.gett', args: { url: 'x' } }),
+        call('connector', {
+          call: 'googleapis.firestore.v1.projects.databases.documents.get',
+          args: { name: 'x' },
+        }),
+      ])
+    )
+
+    expect(issueMessages(wf)).toEqual([
+      'unknownFunction: Unknown function "sys.lgo" called in step "log"',
+      'unknownFunction: Unknown function "http.gett" called in step "get"',
+    ])
+    expect(() => validate(wf, ['missingJumpTarget'])).toThrow('unknownFunction')
+    expect(() => validate(wf, ['unknownFunction'])).not.toThrow()
+  })
+
+  it('checks the arguments of standard library functions', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        call('get', { call: 'http.get', args: { headers: {} } }),
+        call('post', {
+          call: 'http.post',
+          args: { url: 'x', body: {}, payload: {} },
+        }),
+        call('now', { call: 'sys.now' }),
+      ])
+    )
+
+    expect(issueMessages(wf)).toEqual([
+      'wrongNumberOfCallArguments: Required parameters not provided on call step "get": ["url"]',
+      'wrongNumberOfCallArguments: Extra arguments provided on call step "post": ["payload"]',
+    ])
+  })
+
   it('detects if a required subworkflow argument is not provided', () => {
     const subworkflow = new Subworkflow(
       'subworkflow1',
@@ -291,4 +438,715 @@ describe('Validator', () => {
 
     expect(() => validate(wf)).not.toThrow(WorkflowValidationError)
   })
+
+  it('detects a misspelled variable', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        call('get_order', {
+          call: 'http.get',
+          args: { url: 'https://planet.express.test/orders/1' },
+          result: 'order_status',
+        }),
+        assign('increment', [['counter', $('order_staus.counter + 1')]]),
+      ])
+    )
+
+    expect(() => validate(wf)).toThrow(WorkflowValidationError)
+    expect(() => validate(wf)).toThrow('undefinedVariable')
+  })
+
+  it('detects a variable used before it is assigned', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        returnStep('return_value', $('value')),
+        assign('assign_value', [['value', 1]]),
+      ])
+    )
+
+    expect(() => validate(wf)).toThrow('undefinedVariable')
+  })
+
+  it('detects undefined variables in assignment targets', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['my_list', [1, 2]]]),
+        assign('update', [['my_list[idx]', 3]]),
+      ])
+    )
+
+    expect(() => validate(wf)).toThrow('undefinedVariable')
+  })
+
+  it('accepts variables defined by params, results, loops and except blocks', () => {
+    const subworkflow = new Subworkflow(
+      'process',
+      [
+        forStep('loop', {
+          loopVariable: 'item',
+          indexVariable: 'i',
+          listExpression: $('items'),
+          steps: [
+            tryExcept('try_get', {
+              steps: [
+                call('get', {
+                  call: 'http.get',
+                  args: { url: $('item.url + "?page=" + string(i)') },
+                  result: 'response',
+                }),
+              ],
+              errorMap: 'e',
+              exceptSteps: [raise('reraise', $('e'))],
+            }),
+            assign('store', [
+              ['results', $('list.concat(results, response.body)')],
+            ]),
+          ],
+        }),
+        returnStep('return_results', $('results')),
+      ],
+      [{ name: 'items' }, { name: 'results', default: [] }]
+    )
+    const wf = new WorkflowApp(
+      new MainWorkflow(
+        [
+          call('call_process', {
+            call: subworkflow,
+            args: { items: $('args.items') },
+          }),
+        ],
+        'args'
+      ),
+      [subworkflow]
+    )
+
+    expect(() => validate(wf)).not.toThrow()
+  })
+
+  it('accepts a variable defined on any branch of a switch', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow(
+        [
+          switchStep('choose', {
+            conditions: [
+              condition($('input > 0'), {
+                steps: [assign('positive', [['sign', 1]])],
+              }),
+              condition($('true'), {
+                steps: [assign('other', [['sign', -1]])],
+              }),
+            ],
+          }),
+          returnStep('return_sign', $('sign')),
+        ],
+        'input'
+      )
+    )
+
+    expect(() => validate(wf)).not.toThrow()
+  })
+
+  it('accepts variables assigned in parallel branches', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['results', {}]]),
+        parallel('fetch', {
+          shared: ['results'],
+          branches: [
+            stepsStep('branch1', [assign('set1', [['results.a', 1]])]),
+            stepsStep('branch2', [assign('set2', [['results.b', 2]])]),
+          ],
+        }),
+        returnStep('return_results', $('results')),
+      ])
+    )
+
+    expect(() => validate(wf)).not.toThrow()
+  })
+
+  it('detects branch-local variables used after the parallel step', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['results', {}]]),
+        parallel('fetch', {
+          shared: ['results'],
+          branches: [
+            stepsStep('branch1', [
+              assign('local', [['temp', 1]]),
+              assign('set1', [['results.a', $('temp')]]),
+            ]),
+          ],
+        }),
+        returnStep('return_temp', [$('results'), $('temp')]),
+      ])
+    )
+
+    expect(issueMessages(wf)).toEqual([
+      'undefinedVariable: Variable "temp" is used in step "return_temp" of workflow "main" before it is defined',
+    ])
+  })
+
+  it('does not treat function names as variables', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('now', [['timestamp', $('sys.now()')]]),
+        returnStep('return_value', $('text.to_upper(string(timestamp))')),
+      ])
+    )
+
+    expect(() => validate(wf)).not.toThrow()
+  })
+
+  it('detects assignments to non-shared variables in parallel branches', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [
+          ['counter', 0],
+          ['results', {}],
+        ]),
+        parallel('parallel_branches', {
+          shared: ['results'],
+          branches: [
+            stepsStep('branch1', [
+              assign('set_result', [['results.first', 1]]),
+              assign('local', [['temp', 2]]),
+              assign('update_local', [['temp', 3]]),
+            ]),
+            stepsStep('branch2', [assign('increment', [['counter', 1]])]),
+          ],
+        }),
+      ])
+    )
+
+    const messages = issueMessages(wf)
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toContain('"counter"')
+  })
+
+  it('detects assignments to non-shared variables in parallel for loops', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['total', 0]]),
+        parallel('parallel_loop', {
+          forLoop: new ForStep(
+            [assign('add', [['total', $('total + v')]])],
+            'v',
+            [1, 2, 3]
+          ),
+        }),
+      ])
+    )
+
+    expect(() => validate(wf)).toThrow('nonSharedVariableAssignment')
+  })
+
+  it('detects assignments to a non-shared variable after a loop that uses it as the loop variable in a parallel branch', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['x', 1]]),
+        parallel('parallel_branches', {
+          branches: [
+            stepsStep('branch1', [
+              forStep('loop', {
+                loopVariable: 'x',
+                listExpression: [1, 2, 3],
+                steps: [
+                  call('log', { call: 'sys.log', args: { text: $('x') } }),
+                ],
+              }),
+              assign('reassign', [['x', 2]]),
+            ]),
+          ],
+        }),
+      ])
+    )
+
+    const messages = issueMessages(wf)
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toContain('nonSharedVariableAssignment')
+    expect(messages[0]).toContain('"x"')
+  })
+
+  it('detects loop variables used after the loop', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['total', 0]]),
+        forStep('loop', {
+          loopVariable: 'item',
+          listExpression: [1, 2, 3],
+          steps: [
+            assign('add', [
+              ['total', $('total + item')],
+              ['last', $('item')],
+            ]),
+          ],
+        }),
+        returnStep('return_item', $('total + item')),
+      ])
+    )
+
+    const messages = issueMessages(wf)
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toContain('"item"')
+  })
+
+  it('detects variables created inside a loop used after the loop', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        forStep('loop', {
+          loopVariable: 'item',
+          listExpression: [1, 2, 3],
+          steps: [assign('save', [['last', $('item')]])],
+        }),
+        returnStep('return_last', $('last')),
+      ])
+    )
+
+    expect(() => validate(wf)).toThrow('loopVariableOutOfScope')
+    expect(() =>
+      validate(wf, ['undefinedVariable', 'loopVariableOutOfScope'])
+    ).not.toThrow()
+  })
+
+  it('accepts a loop variable name that is reassigned after the loop', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        forStep('loop', {
+          loopVariable: 'item',
+          listExpression: [1, 2, 3],
+          steps: [call('log', { call: 'sys.log', args: { text: $('item') } })],
+        }),
+        assign('reassign', [['item', 4]]),
+        returnStep('return_item', $('item')),
+      ])
+    )
+
+    expect(() => validate(wf)).not.toThrow()
+  })
+
+  it('detects shared variables not defined before the parallel step', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        parallel('parallel_branches', {
+          shared: ['results'],
+          branches: [
+            stepsStep('branch1', [assign('set_result', [['results', 1]])]),
+          ],
+        }),
+        assign('init', [['results', 0]]),
+      ])
+    )
+
+    expect(() => validate(wf)).toThrow('undefinedSharedVariable')
+  })
+
+  it('detects steps after a return step', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        returnStep('return1', 1),
+        assign('dead1', [['a', 1]]),
+        assign('dead2', [['b', 2]]),
+      ])
+    )
+
+    const messages = allIssueMessages(wf)
+    expect(messages).toEqual([
+      'unreachableStep: Step "dead1" in workflow "main" is unreachable: it follows the return step "return1"',
+    ])
+  })
+
+  it('detects steps after a switch that never falls through', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow(
+        [
+          switchStep('check', {
+            conditions: [
+              condition($('input > 0'), { next: 'positive' }),
+              condition($('true'), { next: 'other' }),
+            ],
+          }),
+          assign('dead', [['a', 1]]),
+          returnStep('positive', 'positive'),
+          returnStep('other', 'other'),
+        ],
+        'input'
+      )
+    )
+
+    const messages = allIssueMessages(wf)
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toContain(
+      'the switch step "check" before it never falls through'
+    )
+  })
+
+  it('accepts steps that are reachable by a jump', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_get', {
+          steps: [call('get', { call: 'http.get', args: { url: 'x' } })],
+          errorMap: 'e',
+          exceptSteps: [returnStep('failed', $('e'))],
+        }),
+        jump('skip', 'second'),
+        returnStep('first', 1),
+        returnStep('second', 2),
+      ])
+    )
+
+    const messages = allIssueMessages(wf)
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toContain('"first"')
+  })
+
+  it('detects loops that never exit', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['n', 0]]),
+        assign('increment', [['n', $('n + 1')]], { next: 'wait' }),
+        call('wait', {
+          call: 'sys.sleep',
+          args: { seconds: 1 },
+          next: 'increment',
+        }),
+      ])
+    )
+
+    expect(() => validate(wf)).not.toThrow()
+    expect(allIssueMessages(wf)).toEqual([
+      'infiniteLoop: Steps "increment", "wait" in workflow "main" form a loop that never exits',
+    ])
+  })
+
+  it('accepts loops with an exit', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('init', [['n', 0]]),
+        assign('increment', [['n', $('n + 1')]]),
+        switchStep('check', {
+          conditions: [condition($('n < 10'), { next: 'increment' })],
+        }),
+        returnStep('done', $('n')),
+      ])
+    )
+
+    expect(() => validate(wf)).not.toThrow()
+  })
+
+  it('returns the issues instead of throwing if requested', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_get', {
+          steps: [
+            call('get', {
+              call: 'http.get',
+              args: { url: 'x' },
+              result: 'response',
+            }),
+          ],
+          errorMap: 'e',
+          exceptSteps: [
+            switchStep('known_errors', {
+              conditions: [
+                condition($('e.code == 404'), { next: 'not_found' }),
+              ],
+            }),
+            raise('reraise', $('e')),
+          ],
+        }),
+        returnStep('return_response', $('respons')),
+      ])
+    )
+
+    expect(validate(wf, { throwOnError: false })).toEqual([
+      {
+        type: 'missingJumpTarget',
+        message: 'Next target "not_found" in step "known_errors" not found',
+        severity: 'error',
+        location: {
+          workflow: 'main',
+          step: 'known_errors',
+          path: 'main > try_get > except > known_errors > condition[0]',
+        },
+      },
+      {
+        type: 'undefinedVariable',
+        message:
+          'Variable "respons" is used in step "return_response" of workflow "main" before it is defined',
+        severity: 'error',
+        location: {
+          workflow: 'main',
+          step: 'return_response',
+          path: 'main > return_response',
+        },
+      },
+    ])
+    expect(
+      validate(wf, {
+        disabled: ['missingJumpTarget', 'undefinedVariable'],
+      })
+    ).toEqual([])
+  })
+
+  it('locates issues concerning a whole workflow', () => {
+    const wf = new WorkflowApp(new MainWorkflow([]), [
+      new Subworkflow('sub', [
+        returnStep('duplicate', 1),
+        forStep('loop', {
+          loopVariable: 'x',
+          listExpression: [1],
+          steps: [assign('duplicate', [['y', 1]])],
+        }),
+      ]),
+    ])
+
+    const issues = validate(wf, {
+      disabled: ['unreachableStep', 'unusedSubworkflow'],
+      throwOnError: false,
+    })
+
+    expect(issues.map((x) => [x.type, x.location])).toEqual([
+      ['duplicatedStepName', { workflow: 'sub', path: 'sub' }],
+    ])
+  })
+
+  it('detects subworkflows that are not included in the app', () => {
+    const missing = new Subworkflow('missing', [returnStep('r', 1)])
+    const predicate = new Subworkflow(
+      'predicate',
+      [returnStep('r', true)],
+      [{ name: 'e' }]
+    )
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_call', {
+          steps: [call('call_missing', { call: missing })],
+          retryPolicy: {
+            predicate,
+            maxRetries: 1,
+            backoff: { initialDelay: 1, maxDelay: 1, multiplier: 1 },
+          },
+          exceptSteps: [],
+        }),
+      ])
+    )
+
+    expect(
+      validate(wf, { throwOnError: false })
+        .filter((x) => x.type === 'subworkflowNotIncluded')
+        .map((x) => [x.message, x.severity, x.location?.path])
+    ).toEqual([
+      [
+        'Subworkflow "predicate" used as the retry predicate in step "try_call" of workflow "main" is not included in the app',
+        'error',
+        'main > try_call',
+      ],
+      [
+        'Subworkflow "missing" called in step "call_missing" of workflow "main" is not included in the app',
+        'error',
+        'main > try_call > try > call_missing',
+      ],
+    ])
+  })
+
+  it('considers subworkflows called in expressions as used', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('compute', [['y', $('double_it(2)')]]),
+        returnStep('return_y', $('y')),
+      ]),
+      [
+        new Subworkflow(
+          'double_it',
+          [returnStep('return_double', $('x * 2'))],
+          [{ name: 'x' }]
+        ),
+      ]
+    )
+
+    expect(validate(wf)).toEqual([])
+  })
+
+  it('warns about unused and recursive subworkflows', () => {
+    const countdown = new Subworkflow(
+      'countdown',
+      [
+        switchStep('check', {
+          conditions: [
+            condition($('n > 0'), {
+              steps: [
+                call('recurse', {
+                  call: 'countdown',
+                  args: { n: $('n - 1') },
+                }),
+              ],
+            }),
+          ],
+        }),
+        returnStep('done', $('n')),
+      ],
+      [{ name: 'n' }]
+    )
+    const unused = new Subworkflow('unused', [returnStep('r', 1)])
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        call('start', { call: countdown, args: { n: 3 }, result: 'x' }),
+      ]),
+      [countdown, unused]
+    )
+
+    expect(() => validate(wf)).not.toThrow()
+    expect(validate(wf)).toEqual([
+      {
+        type: 'unusedSubworkflow',
+        message: 'Subworkflow "unused" is never called',
+        severity: 'warning',
+        location: { workflow: 'unused', path: 'unused' },
+      },
+      {
+        type: 'recursiveSubworkflow',
+        message: 'Subworkflow "countdown" is recursive: countdown -> countdown',
+        severity: 'warning',
+        location: {
+          workflow: 'countdown',
+          step: 'recurse',
+          path: 'countdown > check > condition[0] > recurse',
+        },
+      },
+    ])
+  })
+
+  describe('custom validators', () => {
+    const stepNaming: CustomValidator = {
+      name: 'stepNaming',
+      severity: 'warning',
+      visitStep({ name }, { report }) {
+        if (!/^[a-z_]+$/.test(name)) {
+          report(`Step name "${name}" is not in snake_case`)
+        }
+      },
+    }
+
+    const httpRetry: CustomValidator = {
+      name: 'httpRetry',
+      visitStep({ name, step }, { ancestors, report }) {
+        const retried = ancestors.some(
+          (x) => x.step instanceof TryExceptStep && x.step.retryPolicy
+        )
+        if (
+          step instanceof CallStep &&
+          step.call.startsWith('http.') &&
+          !retried
+        ) {
+          report(`HTTP call "${name}" is not retried`)
+        }
+      },
+    }
+
+    const maxSteps: CustomValidator = {
+      name: 'maxSteps',
+      visitWorkflow(workflow, { report }) {
+        if (workflow.steps.length > 2) {
+          report(`Workflow "${workflow.name}" has too many steps`)
+        }
+      },
+    }
+
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_get', {
+          steps: [
+            call('getOrder', {
+              call: 'http.get',
+              args: { url: 'x' },
+              result: 'order',
+            }),
+          ],
+          retryPolicy: 'http.default_retry',
+          exceptSteps: [],
+        }),
+        call('post', {
+          call: 'http.post',
+          args: { url: 'x', body: $('order') },
+        }),
+        returnStep('done', $('order')),
+      ])
+    )
+
+    it('reports issues from custom validators', () => {
+      const issues = validate(wf, {
+        validators: [stepNaming, httpRetry, maxSteps],
+        throwOnError: false,
+      })
+
+      expect(issues).toEqual([
+        {
+          type: 'stepNaming',
+          message: 'Step name "getOrder" is not in snake_case',
+          severity: 'warning',
+          location: {
+            workflow: 'main',
+            step: 'getOrder',
+            path: 'main > try_get > try > getOrder',
+          },
+        },
+        {
+          type: 'httpRetry',
+          message: 'HTTP call "post" is not retried',
+          severity: 'error',
+          location: { workflow: 'main', step: 'post', path: 'main > post' },
+        },
+        {
+          type: 'maxSteps',
+          message: 'Workflow "main" has too many steps',
+          severity: 'error',
+          location: { workflow: 'main', path: 'main' },
+        },
+      ])
+      expect(() => validate(wf, { validators: [stepNaming] })).not.toThrow()
+      expect(() => validate(wf, { validators: [httpRetry] })).toThrow(
+        'httpRetry'
+      )
+    })
+
+    it('configures the severity of validators', () => {
+      const issues = validate(wf, {
+        validators: [stepNaming, httpRetry, maxSteps],
+        rules: { stepNaming: 'error', httpRetry: 'info', maxSteps: 'off' },
+        throwOnError: false,
+      })
+
+      expect(issues.map((x) => [x.type, x.severity])).toEqual([
+        ['stepNaming', 'error'],
+        ['httpRetry', 'info'],
+      ])
+    })
+
+    it('configures the built-in validators', () => {
+      const unreachable = new WorkflowApp(
+        new MainWorkflow([returnStep('done', 1), returnStep('never', 2)])
+      )
+
+      expect(validate(unreachable)).toEqual([
+        expect.objectContaining({
+          type: 'unreachableStep',
+          severity: 'warning',
+        }),
+      ])
+      expect(() =>
+        validate(unreachable, { rules: { unreachableStep: 'error' } })
+      ).toThrow('unreachableStep')
+      expect(
+        validate(unreachable, { rules: { unreachableStep: 'off' } })
+      ).toEqual([])
+    })
+
+    it('rejects unknown rules and duplicate validators', () => {
+      expect(() => validate(wf, { rules: { noSuchRule: 'error' } })).toThrow(
+        'Unknown validation rule "noSuchRule"'
+      )
+      expect(() =>
+        validate(wf, { validators: [{ ...stepNaming, name: 'infiniteLoop' }] })
+      ).toThrow('Validator "infiniteLoop" is already defined')
+    })
+  })
 })
@@ -4,9 +4,19 @@ import {
   MainWorkflow,
   Subworkflow,
   WorkflowApp,
+  toJSONString,
   toYAMLString,
 } from '../src/workflows'
-import { assign, call } from '../src/steps'
+import {
+  assign,
+  call,
+  condition,
+  forStep,
+  returnStep,
+  switchStep,
+  tryExcept,
+  withDescription,
+} from '../src/steps'
 import { $ } from '../src/variables'
 
 describe('workflow', () => {
@@ -134,4 +144,275 @@ describe('workflow', () => {
 
     expect(YAML.parse(toYAMLString(wf))).toEqual(expected)
   })
+
+  it('outputs the workflow definition in JSON', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('assign_name', [['name', 'world']]),
+        returnStep('return_name', $('name')),
+      ])
+    )
+
+    expect(toJSONString(wf)).toEqual(
+      '{"main":{"steps":[{"assign_name":{"assign":[{"name":"world"}]}},{"return_name":{"return":"${name}"}}]}}'
+    )
+    expect(toJSONString(wf, { pretty: true })).toEqual(`{
+  "main": {
+    "steps": [
+      {
+        "assign_name": {
+          "assign": [
+            {
+              "name": "world"
+            }
+          ]
+        }
+      },
+      {
+        "return_name": {
+          "return": "\${name}"
+        }
+      }
+    ]
+  }
+}`)
+  })
+
+  it('outputs semantically equal YAML and JSON without undefined fields', () => {
+    const subworkflow = new Subworkflow(
+      'log_items',
+      [
+        forStep('loop', {
+          loopVariable: 'item',
+          listExpression: $('items'),
+          steps: [call('log', { call: 'sys.log', args: { text: $('item') } })],
+        }),
+      ],
+      [{ name: 'items' }]
+    )
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        tryExcept('try_get', {
+          steps: [call('get', { call: 'http.get', result: 'response' })],
+          exceptSteps: [],
+        }),
+        switchStep('check', {
+          conditions: [
+            condition($('response.code == 200'), {
+              steps: [call('call_log', { call: subworkflow })],
+            }),
+          ],
+        }),
+        returnStep('done', null),
+      ]),
+      [subworkflow]
+    )
+
+    const yamlOutput = toYAMLString(wf)
+    const jsonOutput = toJSONString(wf)
+
+    expect(JSON.parse(jsonOutput)).toEqual(YAML.parse(yamlOutput))
+    expect(yamlOutput).not.toContain('undefined')
+    expect(jsonOutput).not.toContain('undefined')
+    expect(Object.keys(JSON.parse(jsonOutput))).toEqual(['main', 'log_items'])
+    expect(JSON.parse(jsonOutput).main.steps[0]).toEqual({
+      try_get: {
+        try: { steps: [{ get: { call: 'http.get', result: 'response' } }] },
+      },
+    })
+    expect(JSON.parse(jsonOutput).main.steps[1].check.switch[0]).toEqual({
+      condition: '${response.code == 200}',
+      steps: [{ call_log: { call: 'log_items' } }],
+    })
+  })
+
+  it('writes descriptions as comments', () => {
+    const subworkflow = new Subworkflow(
+      'log_items',
+      [
+        forStep('loop', {
+          loopVariable: 'item',
+          listExpression: $('items'),
+          steps: [
+            withDescription(
+              call('log', { call: 'sys.log', args: { text: $('item') } }),
+              'Log one item'
+            ),
+          ],
+        }),
+      ],
+      [{ name: 'items' }],
+      'Logs all items'
+    )
+    const wf = new WorkflowApp(
+      new MainWorkflow(
+        [
+          withDescription(
+            call('call_log', { call: subworkflow, args: { items: [1, 2] } }),
+            'Multi-line\ndescription'
+          ),
+        ],
+        undefined,
+        'The main workflow'
+      ),
+      [subworkflow]
+    )
+
+    expect(toYAMLString(wf)).toEqual(`# The main workflow
+main:
+  steps:
+    # Multi-line
+    # description
+    - call_log:
+        call: log_items
+        args:
+          items:
+            - 1
+            - 2
+# Logs all items
+log_items:
+  params:
+    - items
+  steps:
+    - loop:
+        for:
+          value: item
+          in: \${items}
+          steps:
+            # Log one item
+            - log:
+                call: sys.log
+                args:
+                  text: \${item}
+`)
+    expect(toYAMLString(wf, { comments: false })).not.toContain('#')
+  })
+
+  it('writes a header and short lists in the flow style', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow(
+        [
+          assign('assign_list', [['list', [1, 2, 3]]]),
+          assign('assign_map', [['map', { a: [{ b: 1 }] }]]),
+        ],
+        'args'
+      )
+    )
+
+    expect(
+      toYAMLString(wf, {
+        header: 'Generated from src/app.ts. Do not edit.',
+        flowLists: true,
+      })
+    ).toEqual(`# Generated from src/app.ts. Do not edit.
+
+main:
+  params: [args]
+  steps:
+    - assign_list:
+        assign:
+          - list: [1, 2, 3]
+    - assign_map:
+        assign:
+          - map:
+              a:
+                - b: 1
+`)
+  })
+
+  it('quotes ambiguous strings', () => {
+    const wf = new WorkflowApp(
+      new MainWorkflow([
+        assign('assign_strings', [
+          ['a', 'yes'],
+          ['b', 'on'],
+          ['c', '1e3'],
+          ['d', '0777'],
+          ['e', 'hello'],
+          ['f', $('x')],
+          ['on', 1],
+        ]),
+      ])
+    )
+
+    const output = toYAMLString(wf, { quoteAmbiguousStrings: true })
+
+    expect(output).toContain(`assign:
+          - a: "yes"
+          - b: "on"
+          - c: "1e3"
+          - d: "0777"
+          - e: hello
+          - f: \${x}
+          - "on": 1
+`)
+    expect(YAML.parse(output, { version: '1.1' })).toEqual(
+      YAML.parse(toYAMLString(wf))
+    )
+  })
+
+  it('folds long lines at the given width', () => {
+    const text = 'word '.repeat(10).trim()
+    const wf = new WorkflowApp(
+      new MainWorkflow([call('log', { call: 'sys.log', args: { text } })])
+    )
+
+    expect(toYAMLString(wf)).toContain(`text: ${text}\n`)
+    expect(toYAMLString(wf, { lineWidth: 30 })).toContain(
+      '          text: word word word word word\n            word word word word\n'
+    )
+  })
+
+  it('collects the subworkflows referenced by the main workflow', () => {
+    const log = new Subworkflow('log', [
+      call('write_log', { call: 'sys.log', args: { text: $('text') } }),
+    ])
+    const shouldRetry = new Subworkflow(
+      'should_retry',
+      [call('log_retry', { call: log, args: { text: 'retrying' } })],
+      [{ name: 'e' }]
+    )
+    const fetch = new Subworkflow('fetch', [
+      tryExcept('try_get', {
+        steps: [call('get', { call: 'http.get', args: { url: 'x' } })],
+        retryPolicy: {
+          predicate: shouldRetry,
+          maxRetries: 3,
+          backoff: { initialDelay: 1, maxDelay: 10, multiplier: 2 },
+        },
+        exceptSteps: [],
+      }),
+    ])
+    const byName = new Subworkflow('by_name', [returnStep('return', 1)])
+    const main = new MainWorkflow([
+      call('call_fetch', { call: fetch }),
+      call('call_log', { call: log, args: { text: 'done' } }),
+      call('call_by_name', { call: 'by_name' }),
+    ])
+
+    expect(WorkflowApp.fromMain(main).subworkflows).toEqual([
+      fetch,
+      log,
+      shouldRetry,
+    ])
+    expect(WorkflowApp.fromMain(main, [byName]).subworkflows).toEqual([
+      byName,
+      fetch,
+      log,
+      shouldRetry,
+    ])
+  })
+
+  it('detects different subworkflows with the same name', () => {
+    const first = new Subworkflow('helper', [returnStep('return', 1)])
+    const second = new Subworkflow('helper', [returnStep('return', 2)])
+    const main = new MainWorkflow([
+      call('call_first', { call: first }),
+      call('call_second', { call: second }),
+    ])
+
+    expect(() => WorkflowApp.fromMain(main)).toThrow(
+      'Two different subworkflows are called "helper"'
+    )
+  })
 })
@@ -3,4 +3,5 @@ module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
   testRegex: '(/__tests__/.*|(\\.|/)(test))\\.(m)?ts$',
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/fixtures/'],
 }
@@ -0,0 +1,199 @@
+import { calledFunctions, parseExpression } from './expressions'
+import {
+  AssignStep,
+  CallStep,
+  ForStep,
+  GWStepName,
+  Parallel,
+  RaiseStep,
+  ReturnStep,
+  SwitchStep,
+  TryExceptStep,
+  WorkflowStep,
+} from './steps'
+import { GWExpression, GWValue } from './variables'
+import { BaseWorkflow, WorkflowApp } from './workflows'
+
+/**
+ * A call from a workflow to a subworkflow:
+ * - call: a call step
+ * - retryPredicate: a subworkflow used as the retry predicate of a try step
+ * - expression: a function call in an expression, such as ${double_it(2)}
+ */
+export interface CallGraphEdge {
+  from: string
+  to: string
+  // The call step or the try step
+  step: GWStepName
+  kind: 'call' | 'retryPredicate' | 'expression'
+}
+
+/**
+ * The calls between the workflows of an app. The nodes are workflow names.
+ *
+ * Subworkflows that are called by a Subworkflow object but that are not
+ * included in the app are targets of edges but not nodes.
+ */
+export class CallGraph {
+  // The main workflow and the subworkflows of the app
+  readonly workflows: string[]
+  readonly edges: CallGraphEdge[]
+
+  constructor(workflows: string[], edges: CallGraphEdge[]) {
+    this.workflows = workflows
+    this.edges = edges
+  }
+
+  // Workflows called directly by the workflow
+  callees(name: string): string[] {
+    return unique(this.edges.filter((e) => e.from === name).map((e) => e.to))
+  }
+
+  // Workflows that call the workflow directly
+  callers(name: string): string[] {
+    return unique(this.edges.filter((e) => e.to === name).map((e) => e.from))
+  }
+
+  /**
+   * Subworkflows called directly or indirectly by the workflow in
+   * breadth-first order. The workflow itself is included only if it is
+   * recursive.
+   */
+  dependencies(name: string): string[] {
+    const found: string[] = []
+    const queue = [name]
+    let current: string | undefined
+    while ((current = queue.shift()) !== undefined) {
+      for (const callee of this.callees(current)) {
+        if (!found.includes(callee)) {
+          found.push(callee)
+          queue.push(callee)
+        }
+      }
+    }
+
+    return found
+  }
+
+  /**
+   * The shortest chain of calls from the workflow back to itself, starting
+   * and ending with the workflow. Undefined if the workflow is not recursive.
+   */
+  recursionPath(name: string): string[] | undefined {
+    const previous = new Map<string, string>()
+    const queue = [name]
+    let current: string | undefined
+    while ((current = queue.shift()) !== undefined) {
+      for (const callee of this.callees(current)) {
+        if (callee === name) {
+          const chain: string[] = []
+          for (let x = current; x !== name; x = previous.get(x) ?? name) {
+            chain.unshift(x)
+          }
+          return [name, ...chain, name]
+        } else if (!previous.has(callee)) {
+          previous.set(callee, current)
+          queue.push(callee)
+        }
+      }
+    }
+
+    return undefined
+  }
+}
+
+/**
+ * Build the call graph of an app.
+ *
+ * Call steps that call a function or a subworkflow by a name that is not a
+ * subworkflow of the app are not included.
+ */
+export function buildCallGraph(app: WorkflowApp): CallGraph {
+  const workflows: BaseWorkflow[] = [app.mainWorkflow, ...app.subworkflows]
+  const subworkflowNames = app.subworkflows.map((x) => x.name)
+  const edges: CallGraphEdge[] = []
+
+  for (const workflow of workflows) {
+    for (const { name, step } of workflow.iterateStepsDepthFirst()) {
+      if (
+        step instanceof CallStep &&
+        (step.subworkflow || subworkflowNames.includes(step.call))
+      ) {
+        edges.push({
+          from: workflow.name,
+          to: step.call,
+          step: name,
+          kind: 'call',
+        })
+      } else if (
+        step instanceof TryExceptStep &&
+        typeof step.retryPolicy === 'object' &&
+        typeof step.retryPolicy.predicate === 'object'
+      ) {
+        edges.push({
+          from: workflow.name,
+          to: step.retryPolicy.predicate.name,
+          step: name,
+          kind: 'retryPredicate',
+        })
+      }
+
+      for (const callee of unique(stepValues(step).flatMap(valueCalls))) {
+        if (subworkflowNames.includes(callee)) {
+          edges.push({
+            from: workflow.name,
+            to: callee,
+            step: name,
+            kind: 'expression',
+          })
+        }
+      }
+    }
+  }
+
+  return new CallGraph(
+    workflows.map((x) => x.name),
+    edges
+  )
+}
+
+// The values of a step that may contain expressions, excluding the nested
+// steps
+function stepValues(step: WorkflowStep): GWValue[] {
+  if (step instanceof AssignStep) {
+    return step.assignments.map(([, value]) => value)
+  } else if (step instanceof CallStep) {
+    return Object.values(step.args ?? {})
+  } else if (step instanceof SwitchStep) {
+    return step.conditions.map((x) => x.condition)
+  } else if (step instanceof ForStep || step instanceof Parallel) {
+    const loop = step instanceof ForStep ? step : step.forStep
+    return loop?.listExpression ? [loop.listExpression] : []
+  } else if (step instanceof RaiseStep || step instanceof ReturnStep) {
+    return [step.value]
+  } else {
+    return []
+  }
+}
+
+// Names of the functions called by the expressions in a value
+function valueCalls(value: GWValue): string[] {
+  if (value instanceof GWExpression) {
+    try {
+      return calledFunctions(parseExpression(value.expression))
+    } catch {
+      // Syntax errors are reported by validate()
+      return []
+    }
+  } else if (Array.isArray(value)) {
+    return value.flatMap(valueCalls)
+  } else if (value !== null && typeof value === 'object') {
+    return Object.values(value).flatMap(valueCalls)
+  } else {
+    return []
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values))
+}
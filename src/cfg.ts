@@ -0,0 +1,387 @@
+import { parseExpression } from './expressions'
+import {
+  AssignStep,
+  CallStep,
+  ForStep,
+  NamedWorkflowStep,
+  NextStep,
+  Parallel,
+  RaiseStep,
+  ReturnStep,
+  StepsStep,
+  SwitchStep,
+  TryExceptStep,
+  breakLoop,
+  continueLoop,
+  end,
+} from './steps'
+import { GWExpression } from './variables'
+import { BaseWorkflow } from './workflows'
+
+// Identifiers of the nodes where the workflow starts and where it completes
+export const entryNode = '<entry>'
+export const exitNode = '<exit>'
+
+/**
+ * Kinds of control transfers:
+ * - sequence: fall-through to the next step or into a nested block
+ * - jump: an explicit "next"
+ * - condition: a matching switch condition
+ * - exception: an error raised in a try block
+ * - branch: the start of a parallel branch
+ * - loopBody, loopBack, loopExit: entering, repeating and exiting a for loop
+ * - return, raise: completing the workflow
+ */
+export type EdgeKind =
+  | 'sequence'
+  | 'jump'
+  | 'condition'
+  | 'exception'
+  | 'branch'
+  | 'loopBody'
+  | 'loopBack'
+  | 'loopExit'
+  | 'return'
+  | 'raise'
+
+export interface ControlFlowNode {
+  // The step name, or entryNode or exitNode
+  id: string
+  // Undefined for the entry and exit nodes
+  step?: NamedWorkflowStep
+}
+
+export interface ControlFlowEdge {
+  from: string
+  to: string
+  kind: EdgeKind
+  // The condition expression on condition edges
+  label?: string
+}
+
+/**
+ * A control-flow graph of a workflow. Each step, including the nested steps,
+ * is a node. Container steps (switch, try, for, parallel, steps) have edges to
+ * their nested steps.
+ *
+ * Any step in a try block can raise an error and has an exception edge to
+ * the except block. Errors raised outside of try blocks are represented only
+ * by the raise steps.
+ */
+export class ControlFlowGraph {
+  readonly nodes: ControlFlowNode[]
+  readonly edges: ControlFlowEdge[]
+
+  constructor(nodes: ControlFlowNode[], edges: ControlFlowEdge[]) {
+    this.nodes = nodes
+    this.edges = edges
+  }
+
+  successors(id: string): string[] {
+    return unique(this.edges.filter((e) => e.from === id).map((e) => e.to))
+  }
+
+  predecessors(id: string): string[] {
+    return unique(this.edges.filter((e) => e.to === id).map((e) => e.from))
+  }
+
+  // IDs of the nodes that can be reached from the given node, including itself
+  reachableFrom(id: string): Set<string> {
+    return this.search(id, (x) => this.successors(x))
+  }
+
+  // IDs of the nodes from which the given node can be reached, including itself
+  reachingTo(id: string): Set<string> {
+    return this.search(id, (x) => this.predecessors(x))
+  }
+
+  /**
+   * Strongly connected components in the order they are completed by
+   * Tarjan's algorithm. The nodes of each component are listed in the order
+   * they are visited.
+   */
+  stronglyConnectedComponents(): string[][] {
+    const index = new Map<string, number>()
+    const lowLink = new Map<string, number>()
+    const stack: string[] = []
+    const onStack = new Set<string>()
+    const components: string[][] = []
+
+    const visit = (id: string) => {
+      index.set(id, index.size)
+      lowLink.set(id, index.get(id) ?? 0)
+      stack.push(id)
+      onStack.add(id)
+
+      for (const next of this.successors(id)) {
+        if (!index.has(next)) {
+          visit(next)
+          lowLink.set(
+            id,
+            Math.min(lowLink.get(id) ?? 0, lowLink.get(next) ?? 0)
+          )
+        } else if (onStack.has(next)) {
+          lowLink.set(id, Math.min(lowLink.get(id) ?? 0, index.get(next) ?? 0))
+        }
+      }
+
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = []
+        let member: string | undefined
+        do {
+          member = stack.pop()
+          if (member !== undefined) {
+            onStack.delete(member)
+            component.push(member)
+          }
+        } while (member !== undefined && member !== id)
+        components.push(component.reverse())
+      }
+    }
+
+    for (const { id } of this.nodes) {
+      if (!index.has(id)) {
+        visit(id)
+      }
+    }
+
+    return components
+  }
+
+  private search(start: string, next: (id: string) => string[]): Set<string> {
+    const found = new Set([start])
+    const queue = [start]
+    let current: string | undefined
+    while ((current = queue.shift()) !== undefined) {
+      for (const neighbour of next(current)) {
+        if (!found.has(neighbour)) {
+          found.add(neighbour)
+          queue.push(neighbour)
+        }
+      }
+    }
+
+    return found
+  }
+}
+
+/**
+ * Build the control-flow graph of a workflow.
+ *
+ * Jumps to missing steps don't produce edges.
+ */
+export function buildControlFlowGraph(
+  workflow: BaseWorkflow
+): ControlFlowGraph {
+  return new GraphBuilder(workflow).build()
+}
+
+/**
+ * Returns true if the switch step always matches one of its conditions and
+ * therefore never falls through to the following step.
+ */
+export function switchNeverFallsThrough(step: SwitchStep): boolean {
+  return step.conditions.some((cond) => isAlwaysTrue(cond.condition))
+}
+
+// Where the control goes after a step or a block of steps completes. The
+// target is undefined if a jump target is missing.
+interface Continuation {
+  to: string | undefined
+  kind: EdgeKind
+}
+
+interface BuilderContext {
+  // The first step of the except block that catches errors
+  errorTarget?: string
+  // The innermost enclosing for loop
+  loop?: { node: string; after: Continuation }
+}
+
+class GraphBuilder {
+  private readonly workflow: BaseWorkflow
+  private readonly stepNames: Set<string> = new Set()
+  private readonly nodes: ControlFlowNode[] = []
+  private readonly edges: ControlFlowEdge[] = []
+
+  constructor(workflow: BaseWorkflow) {
+    this.workflow = workflow
+  }
+
+  build(): ControlFlowGraph {
+    for (const { name } of this.workflow.iterateStepsDepthFirst()) {
+      this.stepNames.add(name)
+    }
+
+    this.nodes.push({ id: entryNode })
+    this.addEdge(
+      entryNode,
+      this.workflow.steps[0]?.name ?? exitNode,
+      'sequence'
+    )
+    this.addSteps(this.workflow.steps, { to: exitNode, kind: 'sequence' }, {})
+    this.nodes.push({ id: exitNode })
+
+    return new ControlFlowGraph(this.nodes, this.edges)
+  }
+
+  private addSteps(
+    steps: NamedWorkflowStep[],
+    after: Continuation,
+    context: BuilderContext
+  ) {
+    steps.forEach((step, i) => {
+      const next = steps[i + 1]
+      const continuation: Continuation = next
+        ? { to: next.name, kind: 'sequence' }
+        : after
+      this.addStep(step, continuation, context)
+    })
+  }
+
+  // Enter a nested block of steps or continue if the block is empty
+  private enterBlock(
+    from: string,
+    steps: NamedWorkflowStep[],
+    kind: EdgeKind,
+    after: Continuation,
+    label?: string
+  ) {
+    this.addEdge(from, steps[0]?.name ?? after.to, kind, label)
+  }
+
+  private addStep(
+    namedStep: NamedWorkflowStep,
+    continuation: Continuation,
+    context: BuilderContext
+  ) {
+    const { name, step } = namedStep
+    this.nodes.push({ id: name, step: namedStep })
+
+    if (context.errorTarget) {
+      this.addEdge(name, context.errorTarget, 'exception')
+    }
+
+    const after: Continuation = step.next
+      ? { to: this.jumpTarget(step.next, context), kind: 'jump' }
+      : continuation
+
+    if (
+      step instanceof AssignStep ||
+      step instanceof CallStep ||
+      step instanceof NextStep
+    ) {
+      this.addEdge(name, after.to, after.kind)
+    } else if (step instanceof SwitchStep) {
+      for (const cond of step.conditions) {
+        const label = cond.condition.expression
+        if (cond.next) {
+          const target = this.jumpTarget(cond.next, context)
+          this.addEdge(name, target, 'condition', label)
+        } else {
+          this.enterBlock(name, cond.steps, 'condition', after, label)
+          this.addSteps(cond.steps, after, context)
+        }
+      }
+
+      if (!switchNeverFallsThrough(step)) {
+        this.addEdge(name, after.to, after.kind)
+      }
+    } else if (step instanceof TryExceptStep) {
+      const hasExcept = step.exceptSteps.length > 0 || !!step.errorMap
+      const errorTarget = hasExcept
+        ? step.exceptSteps[0]?.name ?? after.to
+        : context.errorTarget
+
+      this.enterBlock(name, step.trySteps, 'sequence', after)
+      this.addSteps(step.trySteps, after, { ...context, errorTarget })
+      this.addSteps(step.exceptSteps, after, context)
+    } else if (step instanceof ForStep) {
+      this.addLoop(name, step, after, context)
+    } else if (step instanceof Parallel) {
+      if (step.forStep) {
+        this.addLoop(name, step.forStep, after, context)
+      } else {
+        // Loops outside of the parallel step can't be controlled from a branch
+        const branchContext = { ...context, loop: undefined }
+        for (const branch of step.branches ?? []) {
+          this.addEdge(name, branch.name, 'branch')
+          this.addStep(branch, after, branchContext)
+        }
+        if ((step.branches ?? []).length === 0) {
+          this.addEdge(name, after.to, after.kind)
+        }
+      }
+    } else if (step instanceof StepsStep) {
+      this.enterBlock(name, step.steps, 'sequence', after)
+      this.addSteps(step.steps, after, context)
+    } else if (step instanceof RaiseStep) {
+      if (!context.errorTarget) {
+        this.addEdge(name, exitNode, 'raise')
+      }
+    } else if (step instanceof ReturnStep) {
+      this.addEdge(name, exitNode, 'return')
+    } else {
+      throw new Error(`Unsupported step type in step "${name}"`)
+    }
+  }
+
+  private addLoop(
+    name: string,
+    step: ForStep,
+    after: Continuation,
+    context: BuilderContext
+  ) {
+    const loopContext = { ...context, loop: { node: name, after } }
+    this.enterBlock(name, step.steps, 'loopBody', after)
+    this.addSteps(step.steps, { to: name, kind: 'loopBack' }, loopContext)
+    this.addEdge(name, after.to, 'loopExit')
+  }
+
+  private jumpTarget(
+    target: string,
+    context: BuilderContext
+  ): string | undefined {
+    if (target === end) {
+      return exitNode
+    } else if (target === breakLoop) {
+      return context.loop?.after.to
+    } else if (target === continueLoop) {
+      return context.loop?.node
+    } else if (this.stepNames.has(target)) {
+      return target
+    } else {
+      return undefined
+    }
+  }
+
+  private addEdge(
+    from: string,
+    to: string | undefined,
+    kind: EdgeKind,
+    label?: string
+  ) {
+    if (typeof to === 'undefined') {
+      return
+    }
+
+    const edge: ControlFlowEdge = { from, to, kind }
+    if (typeof label !== 'undefined') {
+      edge.label = label
+    }
+    this.edges.push(edge)
+  }
+}
+
+function isAlwaysTrue(ex: GWExpression): boolean {
+  try {
+    const parsed = parseExpression(ex.expression)
+    return parsed.type === 'literal' && parsed.value === true
+  } catch {
+    return false
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values))
+}
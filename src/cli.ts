@@ -0,0 +1,346 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { parseArgs } from 'util'
+import { buildSourceMap, formatSourceMapEntry, lookupSource } from './sourcemap'
+import { ValidateOptions, WorkflowIssue, validate } from './validation'
+import { WorkflowApp, toJSONString, toYAMLString } from './workflows'
+
+const usage = `Usage: gcp-workflows-toolkit <command> <module> [options]
+       gcp-workflows-toolkit lookup <source map> <step path or error>
+
+Loads a JavaScript or TypeScript module that exports one or more WorkflowApp
+instances and validates them.
+
+Commands:
+  build <module>     Write each workflow app into a file in the output directory
+  validate <module>  Only validate the workflow apps
+  print <module>     Print a workflow app
+  lookup             Print the source code locations of the steps referred to
+                     by a step path or by an execution error message or JSON
+
+Options:
+  --out <dir>        Output directory of the build command (default: .)
+  --format <format>  Output format: yaml (default) or json
+  --export <name>    Process only the named export
+  --disable <type>   Disable a validator. Can be given multiple times.
+  --config <module>  Load validation rules and custom validators from a
+                     module that exports { rules, validators }
+  --report <file>    Write the validation issues as JSON into a file or, if
+                     the file is "-", to the standard output
+  --source-map       Write a source map next to each file written by build
+  --help             Show this help
+`
+
+// Exit codes
+const exitSuccess = 0
+// A workflow is invalid or lookup found nothing
+const exitFailure = 1
+const exitUsageError = 2
+
+type OutputFormat = 'yaml' | 'json'
+
+export interface CliOutput {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+/**
+ * The machine-readable validation report written by the --report option. The
+ * apps are valid if there are no issues with the error severity.
+ */
+export interface CliReport {
+  valid: boolean
+  apps: {
+    // The export name, or the module name for the default export
+    name: string
+    issues: WorkflowIssue[]
+  }[]
+}
+
+interface NamedApp {
+  name: string
+  app: WorkflowApp
+}
+
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = this.constructor.name
+  }
+}
+
+/**
+ * Run the command line interface. Returns the exit code: 0 on success, 1 if
+ * a workflow is invalid or a lookup finds no steps and 2 on usage errors and
+ * if the module can't be loaded.
+ */
+export function runCli(
+  args: string[],
+  output: CliOutput = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  }
+): number {
+  try {
+    return runCommand(args, output)
+  } catch (err) {
+    if (err instanceof CliUsageError) {
+      output.stderr(`${err.message}\n\n${usage}`)
+    } else {
+      output.stderr(`${err instanceof Error ? err.message : String(err)}\n`)
+    }
+
+    return exitUsageError
+  }
+}
+
+function runCommand(args: string[], output: CliOutput): number {
+  const { values, positionals } = parseCommandLine(args)
+  if (values.help) {
+    output.stdout(usage)
+    return exitSuccess
+  }
+
+  const [command, ...commandArgs] = positionals
+  if (command === 'lookup') {
+    return runLookup(commandArgs, output)
+  }
+
+  const [modulePath, ...extra] = commandArgs
+  if (!['build', 'validate', 'print'].includes(command)) {
+    throw new CliUsageError(
+      command ? `Unknown command: ${command}` : 'Command is required'
+    )
+  }
+  if (!modulePath) {
+    throw new CliUsageError('Module is required')
+  }
+  if (extra.length > 0) {
+    throw new CliUsageError(`Unexpected argument: ${extra[0]}`)
+  }
+
+  const format = values.format ?? 'yaml'
+  if (format !== 'yaml' && format !== 'json') {
+    throw new CliUsageError(`Unknown format: ${format}`)
+  }
+
+  const config = values.config ? loadValidationConfig(values.config) : {}
+  const apps = loadApps(modulePath, values.export)
+  const report: CliReport = {
+    valid: true,
+    apps: apps.map(({ name, app }) => ({
+      name,
+      issues: validate(app, {
+        ...config,
+        disabled: values.disable ?? [],
+        throwOnError: false,
+      }),
+    })),
+  }
+  report.valid = report.apps.every((x) =>
+    x.issues.every((issue) => issue.severity !== 'error')
+  )
+
+  if (values.report === '-') {
+    output.stdout(JSON.stringify(report, undefined, 2) + '\n')
+  } else if (values.report) {
+    fs.writeFileSync(values.report, JSON.stringify(report, undefined, 2) + '\n')
+  }
+
+  for (const { name, issues } of report.apps) {
+    for (const issue of issues) {
+      const location = issue.location ? ` (${issue.location.path})` : ''
+      output.stderr(
+        `${name}: ${issue.severity}: ${issue.type}: ${issue.message}${location}\n`
+      )
+    }
+  }
+
+  if (!report.valid) {
+    return exitFailure
+  }
+
+  if (command === 'build') {
+    const outDir = values.out ?? '.'
+    fs.mkdirSync(outDir, { recursive: true })
+
+    for (const { name, app } of apps) {
+      const filename = path.join(outDir, `${name}.${format}`)
+      fs.writeFileSync(filename, renderApp(app, format))
+      output.stderr(`Wrote ${filename}\n`)
+
+      if (values['source-map']) {
+        const sourceMap = buildSourceMap(app)
+        fs.writeFileSync(
+          `${filename}.map`,
+          JSON.stringify(sourceMap, undefined, 2) + '\n'
+        )
+      }
+    }
+  } else if (command === 'print') {
+    if (apps.length > 1) {
+      const names = apps.map((x) => x.name).join(', ')
+      throw new CliUsageError(
+        `The module exports several workflow apps (${names}). Select one with --export.`
+      )
+    }
+
+    output.stdout(renderApp(apps[0].app, format))
+  }
+
+  return exitSuccess
+}
+
+function runLookup(args: string[], output: CliOutput): number {
+  const [sourceMapFile, query, ...extra] = args
+  if (!sourceMapFile || !query) {
+    throw new CliUsageError('Source map and step path are required')
+  }
+  if (extra.length > 0) {
+    throw new CliUsageError(`Unexpected argument: ${extra[0]}`)
+  }
+
+  const sourceMap = JSON.parse(fs.readFileSync(sourceMapFile, 'utf8'))
+  const entries = lookupSource(sourceMap, parseQuery(query))
+  if (entries.length === 0) {
+    output.stderr(`No steps found for ${query}\n`)
+    return exitFailure
+  }
+
+  for (const entry of entries) {
+    output.stdout(formatSourceMapEntry(entry) + '\n')
+  }
+
+  return exitSuccess
+}
+
+// An execution error can be given as JSON
+function parseQuery(query: string): unknown {
+  if (query.trim().startsWith('{')) {
+    try {
+      return JSON.parse(query)
+    } catch {
+      return query
+    }
+  } else {
+    return query
+  }
+}
+
+function parseCommandLine(args: string[]) {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string' },
+        format: { type: 'string' },
+        export: { type: 'string' },
+        disable: { type: 'string', multiple: true },
+        config: { type: 'string' },
+        report: { type: 'string' },
+        'source-map': { type: 'boolean' },
+        help: { type: 'boolean' },
+      },
+    })
+  } catch (err) {
+    throw new CliUsageError(err instanceof Error ? err.message : String(err))
+  }
+}
+
+/**
+ * Load a module and collect the WorkflowApps it exports.
+ */
+function loadApps(modulePath: string, exportName?: string): NamedApp[] {
+  const moduleName = path.basename(modulePath).replace(/\.[^.]*$/, '')
+  const exported = requireModule(modulePath)
+
+  let apps: NamedApp[]
+  if (exported instanceof WorkflowApp) {
+    apps = [{ name: moduleName, app: exported }]
+  } else {
+    apps = Object.entries(exported ?? {})
+      .filter((entry): entry is [string, WorkflowApp] => {
+        return entry[1] instanceof WorkflowApp
+      })
+      .map(([key, app]) => ({
+        name: key === 'default' ? moduleName : key,
+        app,
+      }))
+  }
+
+  if (typeof exportName !== 'undefined') {
+    apps = apps.filter((x) => x.name === exportName)
+    if (apps.length === 0) {
+      throw new Error(
+        `Module ${modulePath} does not export a WorkflowApp called "${exportName}"`
+      )
+    }
+  } else if (apps.length === 0) {
+    throw new Error(`Module ${modulePath} does not export any WorkflowApps`)
+  }
+
+  return apps
+}
+
+/**
+ * Load the rules and the custom validators from a configuration module. The
+ * configuration is the default export or the whole module.
+ */
+function loadValidationConfig(
+  modulePath: string
+): Pick<ValidateOptions, 'rules' | 'validators'> {
+  const exported = requireModule(modulePath)
+  const config =
+    isRecord(exported) && isRecord(exported.default)
+      ? exported.default
+      : exported
+  if (!isRecord(config)) {
+    throw new Error(`Module ${modulePath} does not export a configuration`)
+  }
+
+  return {
+    rules: config.rules as ValidateOptions['rules'],
+    validators: config.validators as ValidateOptions['validators'],
+  }
+}
+
+function requireModule(modulePath: string): unknown {
+  const resolved = path.resolve(modulePath)
+  if (/\.[cm]?ts$/.test(resolved) && !require.extensions['.ts']) {
+    registerTypeScript()
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return require(resolved)
+}
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return typeof x === 'object' && x !== null
+}
+
+// Compile TypeScript modules on the fly
+function registerTypeScript() {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    require('ts-node').register({ transpileOnly: true })
+  } catch {
+    throw new Error(
+      'Loading TypeScript modules requires ts-node. Install it with "npm install --save-dev ts-node" or compile the module to JavaScript.'
+    )
+  }
+}
+
+function renderApp(app: WorkflowApp, format: OutputFormat): string {
+  if (format === 'json') {
+    return toJSONString(app, { pretty: true }) + '\n'
+  } else {
+    return toYAMLString(app)
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2))
+}
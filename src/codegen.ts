@@ -0,0 +1,656 @@
+import {
+  AssignStep,
+  CallStep,
+  ConnectorParams,
+  CustomRetryPolicy,
+  ForStep,
+  NamedWorkflowStep,
+  NextStep,
+  Parallel,
+  RaiseStep,
+  ReturnStep,
+  StepsStep,
+  SwitchCondition,
+  SwitchStep,
+  TryExceptStep,
+  breakLoop,
+  continueLoop,
+} from './steps'
+import { GWExpression, GWValue } from './variables'
+import { BaseWorkflow, Subworkflow, WorkflowApp } from './workflows'
+
+export interface CodegenOptions {
+  // The module from which the builders are imported
+  importPath?: string
+  // Name of the exported WorkflowApp variable
+  exportName?: string
+}
+
+/**
+ * Generate TypeScript code that builds the given workflow using the builder
+ * functions of this library.
+ *
+ * Subworkflows are declared as variables and call steps refer to them by the
+ * variable so that the generated code benefits from type checking.
+ */
+export function toTypeScript(
+  app: WorkflowApp,
+  options: CodegenOptions = {}
+): string {
+  const importPath = options.importPath ?? 'gcp-workflows-toolkit'
+  const exportName = options.exportName ?? 'workflow'
+  const generator = new CodeGenerator(app, [exportName])
+
+  const declarations = generator.subworkflowDeclarations()
+  const main = generator.mainWorkflowExpression()
+  const subworkflowList = array(
+    app.subworkflows.map((w) => generator.subworkflowReference(w))
+  )
+  const appExpression = newExpr('WorkflowApp', [
+    'main',
+    ...(app.subworkflows.length > 0 ? [subworkflowList] : []),
+  ])
+  generator.imports.add('WorkflowApp')
+
+  const statements = [
+    ...declarations,
+    printCode(prefixCode('const main = ', main)),
+    printCode(prefixCode(`export const ${exportName} = `, appExpression)),
+  ]
+
+  const importedNames = Array.from(generator.imports).sort(compareImportNames)
+  const importStatement = printCode({
+    kind: 'group',
+    open: 'import {',
+    close: `} from ${quoteString(importPath)}`,
+    items: importedNames,
+    separator: ',',
+    spaces: true,
+  })
+
+  return [importStatement, ...statements].join('\n\n') + '\n'
+}
+
+// Import classes first and then the builder functions
+function compareImportNames(a: string, b: string): number {
+  const aIsClass = /^[A-Z]/.test(a)
+  const bIsClass = /^[A-Z]/.test(b)
+  if (aIsClass !== bIsClass) {
+    return aIsClass ? -1 : 1
+  }
+
+  return a.localeCompare(b)
+}
+
+class CodeGenerator {
+  readonly imports: Set<string> = new Set()
+  private readonly app: WorkflowApp
+  // Subworkflow names mapped to the generated variable names
+  private readonly variableNames: Map<string, string> = new Map()
+  // Subworkflows whose declarations have been emitted so far
+  private readonly declared: Set<string> = new Set()
+
+  constructor(app: WorkflowApp, reservedNames: string[]) {
+    this.app = app
+
+    const taken = new Set(['main', ...reservedNames, ...builderNames])
+    for (const subworkflow of app.subworkflows) {
+      let variableName = identifierFromName(subworkflow.name)
+      if (taken.has(variableName) || reservedWords.has(variableName)) {
+        variableName = variableName + 'Subworkflow'
+      }
+      let counter = 2
+      const base = variableName
+      while (taken.has(variableName)) {
+        variableName = `${base}${counter}`
+        counter += 1
+      }
+
+      taken.add(variableName)
+      this.variableNames.set(subworkflow.name, variableName)
+    }
+  }
+
+  /**
+   * Emit subworkflow declarations so that a subworkflow is declared before
+   * the subworkflows that refer to it.
+   */
+  subworkflowDeclarations(): string[] {
+    const statements: string[] = []
+    const visiting: Set<string> = new Set()
+
+    const declare = (subworkflow: Subworkflow) => {
+      if (
+        this.declared.has(subworkflow.name) ||
+        visiting.has(subworkflow.name)
+      ) {
+        return
+      }
+
+      visiting.add(subworkflow.name)
+      for (const dependency of this.dependencies(subworkflow)) {
+        declare(dependency)
+      }
+      visiting.delete(subworkflow.name)
+
+      const args: Code[] = [
+        quoteString(subworkflow.name),
+        this.steps(subworkflow.steps),
+      ]
+      if (subworkflow.params) {
+        args.push(
+          array(
+            subworkflow.params.map((param) => {
+              const entries: [string, Code][] = [
+                ['name', quoteString(param.name)],
+              ]
+              if (typeof param.default !== 'undefined') {
+                entries.push(['default', this.value(param.default)])
+              }
+              return object(entries)
+            })
+          )
+        )
+      }
+
+      this.imports.add('Subworkflow')
+      const variableName = this.variableNames.get(subworkflow.name)
+      statements.push(
+        printCode(
+          prefixCode(`const ${variableName} = `, newExpr('Subworkflow', args))
+        )
+      )
+      this.declared.add(subworkflow.name)
+    }
+
+    this.app.subworkflows.forEach(declare)
+
+    return statements
+  }
+
+  mainWorkflowExpression(): Code {
+    const main = this.app.mainWorkflow
+    const args: Code[] = [this.steps(main.steps)]
+    if (main.params && main.params.length > 0) {
+      args.push(quoteString(main.params[0].name))
+    }
+
+    this.imports.add('MainWorkflow')
+    return newExpr('MainWorkflow', args)
+  }
+
+  subworkflowReference(subworkflow: Subworkflow): Code {
+    return this.variableNames.get(subworkflow.name) ?? subworkflow.name
+  }
+
+  // Subworkflows called by or used as retry predicates in a workflow
+  private dependencies(workflow: BaseWorkflow): Subworkflow[] {
+    const names: Set<string> = new Set()
+    for (const { step } of workflow.iterateStepsDepthFirst()) {
+      if (step instanceof CallStep) {
+        names.add(step.call)
+      } else if (
+        step instanceof TryExceptStep &&
+        typeof step.retryPolicy === 'object' &&
+        typeof step.retryPolicy.predicate === 'object'
+      ) {
+        names.add(step.retryPolicy.predicate.name)
+      }
+    }
+
+    return this.app.subworkflows.filter((w) => names.has(w.name))
+  }
+
+  // A reference to a subworkflow by its variable, if it has been declared
+  // already, or by its name
+  private callTarget(name: string): Code {
+    const variableName = this.variableNames.get(name)
+    if (variableName && this.declared.has(name)) {
+      return variableName
+    } else {
+      return quoteString(name)
+    }
+  }
+
+  private steps(steps: NamedWorkflowStep[]): Code {
+    return array(steps.map((x) => this.step(x)))
+  }
+
+  private step({ name, step }: NamedWorkflowStep): Code {
+    const quotedName = quoteString(name)
+
+    if (step instanceof AssignStep) {
+      return this.builder('assign', [
+        quotedName,
+        array(
+          step.assignments.map(([key, val]) =>
+            array([quoteString(key), this.value(val)])
+          )
+        ),
+        ...this.nextOptions(step.next),
+      ])
+    } else if (step instanceof CallStep) {
+      const entries: [string, Code][] = [['call', this.callTarget(step.call)]]
+      if (step.args) {
+        entries.push(['args', this.value(step.args)])
+      }
+      if (step.result) {
+        entries.push(['result', quoteString(step.result)])
+      }
+      if (step.connectorParams) {
+        entries.push([
+          'connectorParams',
+          connectorParamsCode(step.connectorParams),
+        ])
+      }
+      if (step.next) {
+        entries.push(['next', quoteString(step.next)])
+      }
+      return this.builder('call', [quotedName, object(entries)])
+    } else if (step instanceof SwitchStep) {
+      const entries: [string, Code][] = [
+        ['conditions', array(step.conditions.map((x) => this.condition(x)))],
+      ]
+      if (step.next) {
+        entries.push(['next', quoteString(step.next)])
+      }
+      return this.builder('switchStep', [quotedName, object(entries)])
+    } else if (step instanceof TryExceptStep) {
+      const entries: [string, Code][] = [['steps', this.steps(step.trySteps)]]
+      if (step.retryPolicy) {
+        entries.push(['retryPolicy', this.retryPolicy(step.retryPolicy)])
+      }
+      if (step.errorMap) {
+        entries.push(['errorMap', quoteString(step.errorMap)])
+      }
+      entries.push(['exceptSteps', this.steps(step.exceptSteps)])
+      if (step.next) {
+        entries.push(['next', quoteString(step.next)])
+      }
+      return this.builder('tryExcept', [quotedName, object(entries)])
+    } else if (step instanceof ForStep) {
+      const entries = this.forLoopOptions(step)
+      if (step.next) {
+        entries.push(['next', quoteString(step.next)])
+      }
+      return this.builder('forStep', [quotedName, object(entries)])
+    } else if (step instanceof Parallel) {
+      const entries: [string, Code][] = []
+      if (step.branches) {
+        entries.push(['branches', this.steps(step.branches)])
+      }
+      if (step.forStep) {
+        entries.push(['forLoop', this.forStepInstance(step.forStep)])
+      }
+      if (step.shared) {
+        entries.push(['shared', array(step.shared.map(quoteString))])
+      }
+      if (typeof step.concurrenceLimit !== 'undefined') {
+        entries.push(['concurrencyLimit', String(step.concurrenceLimit)])
+      }
+      if (step.next) {
+        entries.push(['next', quoteString(step.next)])
+      }
+      return this.builder('parallel', [quotedName, object(entries)])
+    } else if (step instanceof StepsStep) {
+      return this.builder('stepsStep', [
+        quotedName,
+        this.steps(step.steps),
+        ...this.nextOptions(step.next),
+      ])
+    } else if (step instanceof RaiseStep) {
+      return this.builder('raise', [quotedName, this.value(step.value)])
+    } else if (step instanceof ReturnStep) {
+      return this.builder('returnStep', [quotedName, this.value(step.value)])
+    } else if (step instanceof NextStep) {
+      if (step.next === breakLoop) {
+        return this.builder('breakStep', [quotedName])
+      } else if (step.next === continueLoop) {
+        return this.builder('continueStep', [quotedName])
+      } else {
+        return this.builder('jump', [quotedName, quoteString(step.next)])
+      }
+    } else {
+      throw new Error(`Unsupported step type in step "${name}"`)
+    }
+  }
+
+  // The optional last argument of assign() and stepsStep()
+  private nextOptions(next: string | undefined): Code[] {
+    return next ? [object([['next', quoteString(next)]])] : []
+  }
+
+  private condition(cond: SwitchCondition): Code {
+    const options = cond.next
+      ? object([['next', quoteString(cond.next)]])
+      : object([['steps', this.steps(cond.steps)]])
+
+    return this.builder('condition', [this.expression(cond.condition), options])
+  }
+
+  private retryPolicy(policy: string | CustomRetryPolicy): Code {
+    if (typeof policy === 'string') {
+      return quoteString(policy)
+    }
+
+    const predicate =
+      typeof policy.predicate === 'string'
+        ? quoteString(policy.predicate)
+        : this.callTarget(policy.predicate.name)
+
+    return object([
+      ['predicate', predicate],
+      ['maxRetries', String(policy.maxRetries)],
+      [
+        'backoff',
+        object([
+          ['initialDelay', String(policy.backoff.initialDelay)],
+          ['maxDelay', String(policy.backoff.maxDelay)],
+          ['multiplier', String(policy.backoff.multiplier)],
+        ]),
+      ],
+    ])
+  }
+
+  private forLoopOptions(step: ForStep): [string, Code][] {
+    const entries: [string, Code][] = [
+      ['loopVariable', quoteString(step.loopVariableName)],
+    ]
+    if (typeof step.listExpression !== 'undefined') {
+      if (step.indexVariableName) {
+        entries.push(['indexVariable', quoteString(step.indexVariableName)])
+      }
+      entries.push(['listExpression', this.value(step.listExpression)])
+    } else {
+      entries.push(['start', String(step.rangeStart)])
+      entries.push(['end', String(step.rangeEnd)])
+    }
+    entries.push(['steps', this.steps(step.steps)])
+
+    return entries
+  }
+
+  // The forLoop option of parallel() expects a ForStep instance
+  private forStepInstance(step: ForStep): Code {
+    this.imports.add('ForStep')
+
+    const args: Code[] = [
+      this.steps(step.steps),
+      quoteString(step.loopVariableName),
+    ]
+    if (typeof step.listExpression !== 'undefined') {
+      args.push(this.value(step.listExpression))
+      if (step.indexVariableName) {
+        args.push(quoteString(step.indexVariableName))
+      }
+    } else {
+      args.push(
+        'undefined',
+        'undefined',
+        String(step.rangeStart),
+        String(step.rangeEnd)
+      )
+    }
+
+    return newExpr('ForStep', args)
+  }
+
+  private value(val: GWValue): Code {
+    if (val instanceof GWExpression) {
+      return this.expression(val)
+    } else if (Array.isArray(val)) {
+      return array(val.map((x) => this.value(x)))
+    } else if (val !== null && typeof val === 'object') {
+      return object(
+        Object.entries(val).map(([k, v]) => [propertyName(k), this.value(v)])
+      )
+    } else if (typeof val === 'string') {
+      return quoteString(val)
+    } else {
+      return String(val)
+    }
+  }
+
+  private expression(ex: GWExpression): Code {
+    return this.builder('$', [quoteString(ex.expression)])
+  }
+
+  private builder(name: string, args: Code[]): Code {
+    this.imports.add(name)
+    return callExpr(name, args)
+  }
+}
+
+const builderNames = [
+  '$',
+  'ForStep',
+  'MainWorkflow',
+  'Subworkflow',
+  'WorkflowApp',
+  'assign',
+  'breakStep',
+  'call',
+  'condition',
+  'continueStep',
+  'forStep',
+  'jump',
+  'parallel',
+  'raise',
+  'returnStep',
+  'stepsStep',
+  'switchStep',
+  'tryExcept',
+]
+
+const reservedWords = new Set([
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'import',
+  'in',
+  'instanceof',
+  'new',
+  'null',
+  'return',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'var',
+  'void',
+  'while',
+  'with',
+])
+
+// Convert a workflow name such as "get_order_status" into "getOrderStatus"
+function identifierFromName(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter((x) => x.length > 0)
+  const camelCase = words
+    .map((word, i) =>
+      i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join('')
+
+  if (camelCase.length === 0) {
+    return 'subworkflow'
+  } else if (/^[0-9]/.test(camelCase)) {
+    return '_' + camelCase
+  } else {
+    return camelCase
+  }
+}
+
+function propertyName(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : quoteString(key)
+}
+
+// Quote a string literal preferring single quotes
+export function quoteString(str: string): string {
+  const quote = str.includes("'") && !str.includes('"') ? '"' : "'"
+  const escaped = str
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(new RegExp(quote, 'g'), '\\' + quote)
+
+  return quote + escaped + quote
+}
+
+// A minimal document model for pretty-printing the generated code. A group is
+// printed on a single line if it fits, otherwise each item goes on its own
+// line.
+type Code = string | CodeGroup
+
+interface CodeGroup {
+  kind: 'group'
+  open: string
+  close: string
+  items: Code[]
+  separator: string
+  // Pad single-line groups with spaces, as in "{ a: 1 }"
+  spaces: boolean
+}
+
+const lineWidth = 80
+
+function callExpr(callee: string, args: Code[]): Code {
+  return {
+    kind: 'group',
+    open: `${callee}(`,
+    close: ')',
+    items: args,
+    separator: ',',
+    spaces: false,
+  }
+}
+
+function newExpr(className: string, args: Code[]): Code {
+  return callExpr(`new ${className}`, args)
+}
+
+function array(items: Code[]): Code {
+  return {
+    kind: 'group',
+    open: '[',
+    close: ']',
+    items,
+    separator: ',',
+    spaces: false,
+  }
+}
+
+function connectorParamsCode(params: ConnectorParams): Code {
+  const entries: [string, Code][] = []
+  if (typeof params.timeout !== 'undefined') {
+    entries.push(['timeout', String(params.timeout)])
+  }
+  if (params.pollingPolicy) {
+    entries.push([
+      'pollingPolicy',
+      object([
+        ['initialDelay', String(params.pollingPolicy.initialDelay)],
+        ['multiplier', String(params.pollingPolicy.multiplier)],
+        ['maxDelay', String(params.pollingPolicy.maxDelay)],
+      ]),
+    ])
+  }
+  if (typeof params.skipPolling !== 'undefined') {
+    entries.push(['skipPolling', String(params.skipPolling)])
+  }
+  if (typeof params.scopes !== 'undefined') {
+    entries.push([
+      'scopes',
+      Array.isArray(params.scopes)
+        ? array(params.scopes.map(quoteString))
+        : quoteString(params.scopes),
+    ])
+  }
+
+  return object(entries)
+}
+
+function object(entries: [string, Code][]): Code {
+  return {
+    kind: 'group',
+    open: '{',
+    close: '}',
+    items: entries.map(([key, value]) => prefixCode(`${key}: `, value)),
+    separator: ',',
+    spaces: true,
+  }
+}
+
+function prefixCode(prefix: string, code: Code): Code {
+  if (typeof code === 'string') {
+    return prefix + code
+  } else {
+    return { ...code, open: prefix + code.open }
+  }
+}
+
+function printFlat(code: Code): string {
+  if (typeof code === 'string') {
+    return code
+  } else if (code.items.length === 0) {
+    return code.open + code.close
+  } else {
+    const pad = code.spaces ? ' ' : ''
+    const items = code.items.map(printFlat).join(`${code.separator} `)
+    return code.open + pad + items + pad + code.close
+  }
+}
+
+function printCode(code: Code, indent = 0, forceBreak = false): string {
+  const flat = printFlat(code)
+  if (
+    typeof code === 'string' ||
+    code.items.length === 0 ||
+    (!forceBreak && indent + flat.length <= lineWidth)
+  ) {
+    return flat
+  }
+
+  // Hug a trailing group argument, as in "f('name', {" ... "})"
+  const lastItem = code.items[code.items.length - 1]
+  const headItems = code.items.slice(0, -1)
+  const head = code.open + headItems.map((x) => `${printFlat(x)}, `).join('')
+  if (
+    code.open.endsWith('(') &&
+    typeof lastItem !== 'string' &&
+    !head.includes('\n') &&
+    indent + head.length + lastItem.open.length <= lineWidth
+  ) {
+    return head + printCode(lastItem, indent, true) + code.close
+  }
+
+  // Function arguments don't get a trailing comma
+  const trailing = code.open.endsWith('(') ? '' : code.separator
+  const innerIndent = ' '.repeat(indent + 2)
+  const items = code.items.map(
+    (item, i) =>
+      innerIndent +
+      printCode(item, indent + 2) +
+      (i < code.items.length - 1 ? code.separator : trailing)
+  )
+  return [code.open, ...items, ' '.repeat(indent) + code.close].join('\n')
+}
@@ -0,0 +1,345 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+// The parts of a Google API discovery document that are used by the generator
+// https://developers.google.com/discovery/v1/reference/apis
+
+export interface DiscoveryDocument {
+  name: string
+  version: string
+  resources?: Record<string, DiscoveryResource>
+  schemas?: Record<string, DiscoverySchema>
+}
+
+export interface DiscoveryResource {
+  methods?: Record<string, DiscoveryMethod>
+  resources?: Record<string, DiscoveryResource>
+}
+
+export interface DiscoveryMethod {
+  description?: string
+  parameters?: Record<string, DiscoveryParameter>
+  request?: { $ref: string }
+}
+
+export interface DiscoveryParameter extends DiscoverySchema {
+  required?: boolean
+  repeated?: boolean
+}
+
+export interface DiscoverySchema {
+  type?: string
+  format?: string
+  $ref?: string
+  items?: DiscoverySchema
+  properties?: Record<string, DiscoverySchema>
+  additionalProperties?: DiscoverySchema
+}
+
+const header = (
+  variablesImports: string[]
+) => `// Generated by src/connectorgen.ts from the discovery documents in
+// discovery/. Do not edit. Run "npm run generate-connectors" to update.
+
+import {
+  ConnectorParams,
+  GWArguments,
+  GWStepName,
+  NamedWorkflowStep,
+  call,
+  callerLocation,
+} from './steps'
+import { ${variablesImports.join(', ')} } from './variables'
+
+export interface ConnectorCallOptions<Args> {
+  args: Args
+  result?: string
+  connectorParams?: ConnectorParams
+  next?: GWStepName
+}
+
+function connectorStep(
+  connector: string,
+  name: GWStepName,
+  options: ConnectorCallOptions<object>,
+  builder: (...args: never[]) => NamedWorkflowStep
+): NamedWorkflowStep {
+  const args = Object.fromEntries(
+    Object.entries(options.args).filter(([, x]) => typeof x !== 'undefined')
+  ) as GWArguments
+
+  return {
+    ...call(name, {
+      call: connector,
+      args,
+      result: options.result,
+      connectorParams: options.connectorParams,
+      next: options.next,
+    }),
+    source: callerLocation(builder),
+  }
+}
+`
+
+/**
+ * Generate the TypeScript source code of the connector module. For each
+ * method in the discovery documents, the module has a builder function that
+ * creates a call step, and an interface that describes the arguments. The
+ * builders are collected into the connectors object, for example
+ * connectors.pubsub.v1.projects.topics.publish().
+ */
+export function generateConnectors(documents: DiscoveryDocument[]): string {
+  const sorted = [...documents].sort((a, b) =>
+    a.name === b.name
+      ? a.version.localeCompare(b.version)
+      : a.name.localeCompare(b.name)
+  )
+  const declarations: string[] = []
+  const tree: ConnectorTree = new Map()
+
+  for (const document of sorted) {
+    const generator = new DocumentGenerator(document)
+    for (const [resourcePath, methodName, method] of methods(
+      document.resources ?? {},
+      []
+    )) {
+      const namePath = [document.name, document.version, ...resourcePath]
+      const functionName = identifier([...namePath, methodName])
+      declarations.push(
+        generator.method(functionName, namePath, methodName, method)
+      )
+      addToTree(tree, [...namePath, methodName], functionName)
+    }
+    declarations.push(...generator.schemaDeclarations())
+  }
+
+  const variablesImports = ['GWExpression', 'GWValue'].filter((x) =>
+    declarations.some((code) => new RegExp(`\\b${x}\\b`).test(code))
+  )
+
+  return [
+    header(variablesImports),
+    ...declarations,
+    `export const connectors = ${treeCode(tree, '')}\n`,
+  ].join('\n')
+}
+
+/**
+ * Read the discovery documents (*.json) in a directory.
+ */
+export function loadDiscoveryDocuments(dir: string): DiscoveryDocument[] {
+  return fs
+    .readdirSync(dir)
+    .filter((x) => x.endsWith('.json'))
+    .sort()
+    .map((x) => JSON.parse(fs.readFileSync(path.join(dir, x), 'utf8')))
+}
+
+type ConnectorTree = Map<string, ConnectorTree | string>
+
+class DocumentGenerator {
+  private readonly document: DiscoveryDocument
+  // Names of the schemas that are referenced by the generated code
+  private readonly usedSchemas: Set<string> = new Set()
+
+  constructor(document: DiscoveryDocument) {
+    this.document = document
+  }
+
+  method(
+    functionName: string,
+    namePath: string[],
+    methodName: string,
+    method: DiscoveryMethod
+  ): string {
+    const argsName = pascalCase(functionName) + 'Args'
+    const fields = Object.entries(method.parameters ?? {}).map(
+      ([name, param]) => {
+        const optional = param.required ? '' : '?'
+        const type = param.repeated
+          ? `(${this.type(param)} | GWExpression)[]`
+          : this.type(param)
+        return `  ${propertyName(name)}${optional}: ${type} | GWExpression\n`
+      }
+    )
+    if (method.request) {
+      fields.push(`  body?: ${this.type(method.request)} | GWExpression\n`)
+    }
+
+    const connector = ['googleapis', ...namePath, methodName].join('.')
+    return (
+      `export interface ${argsName} {\n${fields.join('')}}\n\n` +
+      docComment(method.description) +
+      `function ${functionName}(\n` +
+      `  name: GWStepName,\n` +
+      `  options: ConnectorCallOptions<${argsName}>\n` +
+      `): NamedWorkflowStep {\n` +
+      `  return connectorStep(\n` +
+      `    '${connector}',\n` +
+      `    name,\n` +
+      `    options,\n` +
+      `    ${functionName}\n` +
+      `  )\n` +
+      `}\n`
+    )
+  }
+
+  // Interfaces of the used schemas, including the schemas they refer to
+  schemaDeclarations(): string[] {
+    const declarations: string[] = []
+    const declared = new Set<string>()
+    let pending = Array.from(this.usedSchemas)
+    while (pending.length > 0) {
+      for (const name of pending) {
+        declared.add(name)
+        declarations.push(this.schemaInterface(name))
+      }
+      pending = Array.from(this.usedSchemas).filter((x) => !declared.has(x))
+    }
+
+    return declarations.sort()
+  }
+
+  private schemaInterface(name: string): string {
+    const schema = this.document.schemas?.[name] ?? {}
+    const fields = Object.entries(schema.properties ?? {}).map(
+      ([propName, prop]) =>
+        `  ${propertyName(propName)}?: ${this.type(prop)} | GWExpression\n`
+    )
+    const interfaceName = this.schemaName(name)
+    return fields.length > 0
+      ? `export interface ${interfaceName} {\n${fields.join('')}}\n`
+      : `export type ${interfaceName} = Record<string, GWValue>\n`
+  }
+
+  private schemaName(name: string): string {
+    return pascalCase(
+      identifier([this.document.name, this.document.version])
+    ).concat(pascalCase(name))
+  }
+
+  // The TypeScript type of a schema. The caller adds "| GWExpression".
+  private type(schema: DiscoverySchema): string {
+    if (schema.$ref) {
+      this.usedSchemas.add(schema.$ref)
+      return this.schemaName(schema.$ref)
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return 'string'
+      case 'integer':
+      case 'number':
+        return 'number'
+      case 'boolean':
+        return 'boolean'
+      case 'array':
+        return schema.items
+          ? `(${this.type(schema.items)} | GWExpression)[]`
+          : 'GWValue[]'
+      case 'object':
+        return schema.additionalProperties
+          ? `Record<string, ${this.type(
+              schema.additionalProperties
+            )} | GWExpression>`
+          : 'Record<string, GWValue>'
+      default:
+        return 'GWValue'
+    }
+  }
+}
+
+// Methods of the resources and their nested resources in alphabetical order
+function* methods(
+  resources: Record<string, DiscoveryResource>,
+  resourcePath: string[]
+): IterableIterator<[string[], string, DiscoveryMethod]> {
+  for (const name of Object.keys(resources).sort()) {
+    const resource = resources[name]
+    const currentPath = [...resourcePath, name]
+    for (const methodName of Object.keys(resource.methods ?? {}).sort()) {
+      yield [currentPath, methodName, (resource.methods ?? {})[methodName]]
+    }
+    yield* methods(resource.resources ?? {}, currentPath)
+  }
+}
+
+function addToTree(tree: ConnectorTree, keys: string[], value: string) {
+  const [first, ...rest] = keys
+  if (rest.length === 0) {
+    tree.set(first, value)
+    return
+  }
+
+  let child = tree.get(first)
+  if (typeof child !== 'object') {
+    child = new Map()
+    tree.set(first, child)
+  }
+  addToTree(child, rest, value)
+}
+
+function treeCode(tree: ConnectorTree, indent: string): string {
+  const entries = Array.from(tree.entries()).map(([key, value]) => {
+    const valueCode =
+      typeof value === 'string' ? value : treeCode(value, indent + '  ')
+    return `${indent}  ${propertyName(key)}: ${valueCode},\n`
+  })
+
+  return `{\n${entries.join('')}${indent}}`
+}
+
+// A camelCase identifier from the parts of a connector name
+function identifier(parts: string[]): string {
+  const words = parts.flatMap((x) => x.split(/[^A-Za-z0-9]+/)).filter(Boolean)
+  return words
+    .map(
+      (x, i) => (i === 0 ? x[0].toLowerCase() : x[0].toUpperCase()) + x.slice(1)
+    )
+    .join('')
+}
+
+function pascalCase(name: string): string {
+  return name[0].toUpperCase() + name.slice(1)
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : `'${name}'`
+}
+
+// The first sentence of a description as a doc comment
+function docComment(description: string | undefined): string {
+  const sentence = (description ?? '')
+    .split(/(?<=\.)\s/)[0]
+    .replace(/\*\//g, '*\\/')
+  if (!sentence) {
+    return ''
+  }
+
+  const lines: string[] = []
+  let line = ''
+  for (const word of sentence.split(/\s+/)) {
+    if (line && line.length + word.length + 1 > 76) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  lines.push(line)
+
+  return `/**\n${lines.map((x) => ` * ${x}\n`).join('')} */\n`
+}
+
+if (require.main === module) {
+  const [discoveryDir, outputFile] = process.argv.slice(2)
+  if (!discoveryDir || !outputFile) {
+    process.stderr.write(
+      'Usage: connectorgen <discovery document directory> <output file>\n'
+    )
+    process.exitCode = 2
+  } else {
+    const source = generateConnectors(loadDiscoveryDocuments(discoveryDir))
+    fs.writeFileSync(outputFile, source)
+  }
+}
@@ -0,0 +1,409 @@
+// Generated by src/connectorgen.ts from the discovery documents in
+// discovery/. Do not edit. Run "npm run generate-connectors" to update.
+
+import {
+  ConnectorParams,
+  GWArguments,
+  GWStepName,
+  NamedWorkflowStep,
+  call,
+  callerLocation,
+} from './steps'
+import { GWExpression } from './variables'
+
+export interface ConnectorCallOptions<Args> {
+  args: Args
+  result?: string
+  connectorParams?: ConnectorParams
+  next?: GWStepName
+}
+
+function connectorStep(
+  connector: string,
+  name: GWStepName,
+  options: ConnectorCallOptions<object>,
+  builder: (...args: never[]) => NamedWorkflowStep
+): NamedWorkflowStep {
+  const args = Object.fromEntries(
+    Object.entries(options.args).filter(([, x]) => typeof x !== 'undefined')
+  ) as GWArguments
+
+  return {
+    ...call(name, {
+      call: connector,
+      args,
+      result: options.result,
+      connectorParams: options.connectorParams,
+      next: options.next,
+    }),
+    source: callerLocation(builder),
+  }
+}
+
+export interface FirestoreV1ProjectsDatabasesDocumentsCreateDocumentArgs {
+  parent: string | GWExpression
+  collectionId: string | GWExpression
+  documentId?: string | GWExpression
+  'mask.fieldPaths'?: (string | GWExpression)[] | GWExpression
+  body?: FirestoreV1Document | GWExpression
+}
+
+/**
+ * Creates a new document.
+ */
+function firestoreV1ProjectsDatabasesDocumentsCreateDocument(
+  name: GWStepName,
+  options: ConnectorCallOptions<FirestoreV1ProjectsDatabasesDocumentsCreateDocumentArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.firestore.v1.projects.databases.documents.createDocument',
+    name,
+    options,
+    firestoreV1ProjectsDatabasesDocumentsCreateDocument
+  )
+}
+
+export interface FirestoreV1ProjectsDatabasesDocumentsDeleteArgs {
+  name: string | GWExpression
+  'currentDocument.exists'?: boolean | GWExpression
+  'currentDocument.updateTime'?: string | GWExpression
+}
+
+/**
+ * Deletes a document.
+ */
+function firestoreV1ProjectsDatabasesDocumentsDelete(
+  name: GWStepName,
+  options: ConnectorCallOptions<FirestoreV1ProjectsDatabasesDocumentsDeleteArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.firestore.v1.projects.databases.documents.delete',
+    name,
+    options,
+    firestoreV1ProjectsDatabasesDocumentsDelete
+  )
+}
+
+export interface FirestoreV1ProjectsDatabasesDocumentsGetArgs {
+  name: string | GWExpression
+  'mask.fieldPaths'?: (string | GWExpression)[] | GWExpression
+  transaction?: string | GWExpression
+  readTime?: string | GWExpression
+}
+
+/**
+ * Gets a single document.
+ */
+function firestoreV1ProjectsDatabasesDocumentsGet(
+  name: GWStepName,
+  options: ConnectorCallOptions<FirestoreV1ProjectsDatabasesDocumentsGetArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.firestore.v1.projects.databases.documents.get',
+    name,
+    options,
+    firestoreV1ProjectsDatabasesDocumentsGet
+  )
+}
+
+export interface FirestoreV1ProjectsDatabasesDocumentsPatchArgs {
+  name: string | GWExpression
+  'updateMask.fieldPaths'?: (string | GWExpression)[] | GWExpression
+  'mask.fieldPaths'?: (string | GWExpression)[] | GWExpression
+  'currentDocument.exists'?: boolean | GWExpression
+  'currentDocument.updateTime'?: string | GWExpression
+  body?: FirestoreV1Document | GWExpression
+}
+
+/**
+ * Updates or inserts a document.
+ */
+function firestoreV1ProjectsDatabasesDocumentsPatch(
+  name: GWStepName,
+  options: ConnectorCallOptions<FirestoreV1ProjectsDatabasesDocumentsPatchArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.firestore.v1.projects.databases.documents.patch',
+    name,
+    options,
+    firestoreV1ProjectsDatabasesDocumentsPatch
+  )
+}
+
+export interface FirestoreV1Document {
+  name?: string | GWExpression
+  fields?: Record<string, FirestoreV1Value | GWExpression> | GWExpression
+  createTime?: string | GWExpression
+  updateTime?: string | GWExpression
+}
+
+export interface FirestoreV1MapValue {
+  fields?: Record<string, FirestoreV1Value | GWExpression> | GWExpression
+}
+
+export interface FirestoreV1Value {
+  stringValue?: string | GWExpression
+  integerValue?: string | GWExpression
+  booleanValue?: boolean | GWExpression
+  mapValue?: FirestoreV1MapValue | GWExpression
+}
+
+export interface PubsubV1ProjectsSubscriptionsAcknowledgeArgs {
+  subscription: string | GWExpression
+  body?: PubsubV1AcknowledgeRequest | GWExpression
+}
+
+/**
+ * Acknowledges the messages associated with the `ack_ids` in the
+ * `AcknowledgeRequest`.
+ */
+function pubsubV1ProjectsSubscriptionsAcknowledge(
+  name: GWStepName,
+  options: ConnectorCallOptions<PubsubV1ProjectsSubscriptionsAcknowledgeArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.pubsub.v1.projects.subscriptions.acknowledge',
+    name,
+    options,
+    pubsubV1ProjectsSubscriptionsAcknowledge
+  )
+}
+
+export interface PubsubV1ProjectsSubscriptionsPullArgs {
+  subscription: string | GWExpression
+  body?: PubsubV1PullRequest | GWExpression
+}
+
+/**
+ * Pulls messages from the server.
+ */
+function pubsubV1ProjectsSubscriptionsPull(
+  name: GWStepName,
+  options: ConnectorCallOptions<PubsubV1ProjectsSubscriptionsPullArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.pubsub.v1.projects.subscriptions.pull',
+    name,
+    options,
+    pubsubV1ProjectsSubscriptionsPull
+  )
+}
+
+export interface PubsubV1ProjectsTopicsCreateArgs {
+  name: string | GWExpression
+  body?: PubsubV1Topic | GWExpression
+}
+
+/**
+ * Creates the given topic with the given name.
+ */
+function pubsubV1ProjectsTopicsCreate(
+  name: GWStepName,
+  options: ConnectorCallOptions<PubsubV1ProjectsTopicsCreateArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.pubsub.v1.projects.topics.create',
+    name,
+    options,
+    pubsubV1ProjectsTopicsCreate
+  )
+}
+
+export interface PubsubV1ProjectsTopicsDeleteArgs {
+  topic: string | GWExpression
+}
+
+/**
+ * Deletes the topic with the given name.
+ */
+function pubsubV1ProjectsTopicsDelete(
+  name: GWStepName,
+  options: ConnectorCallOptions<PubsubV1ProjectsTopicsDeleteArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.pubsub.v1.projects.topics.delete',
+    name,
+    options,
+    pubsubV1ProjectsTopicsDelete
+  )
+}
+
+export interface PubsubV1ProjectsTopicsGetArgs {
+  topic: string | GWExpression
+}
+
+/**
+ * Gets the configuration of a topic.
+ */
+function pubsubV1ProjectsTopicsGet(
+  name: GWStepName,
+  options: ConnectorCallOptions<PubsubV1ProjectsTopicsGetArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.pubsub.v1.projects.topics.get',
+    name,
+    options,
+    pubsubV1ProjectsTopicsGet
+  )
+}
+
+export interface PubsubV1ProjectsTopicsPublishArgs {
+  topic: string | GWExpression
+  body?: PubsubV1PublishRequest | GWExpression
+}
+
+/**
+ * Adds one or more messages to the topic.
+ */
+function pubsubV1ProjectsTopicsPublish(
+  name: GWStepName,
+  options: ConnectorCallOptions<PubsubV1ProjectsTopicsPublishArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.pubsub.v1.projects.topics.publish',
+    name,
+    options,
+    pubsubV1ProjectsTopicsPublish
+  )
+}
+
+export interface PubsubV1AcknowledgeRequest {
+  ackIds?: (string | GWExpression)[] | GWExpression
+}
+
+export interface PubsubV1PublishRequest {
+  messages?: (PubsubV1PubsubMessage | GWExpression)[] | GWExpression
+}
+
+export interface PubsubV1PubsubMessage {
+  attributes?: Record<string, string | GWExpression> | GWExpression
+  data?: string | GWExpression
+  orderingKey?: string | GWExpression
+}
+
+export interface PubsubV1PullRequest {
+  maxMessages?: number | GWExpression
+  returnImmediately?: boolean | GWExpression
+}
+
+export interface PubsubV1Topic {
+  name?: string | GWExpression
+  labels?: Record<string, string | GWExpression> | GWExpression
+  messageRetentionDuration?: string | GWExpression
+}
+
+export interface StorageV1BucketsInsertArgs {
+  project: string | GWExpression
+  predefinedAcl?: string | GWExpression
+  body?: StorageV1Bucket | GWExpression
+}
+
+/**
+ * Creates a new bucket.
+ */
+function storageV1BucketsInsert(
+  name: GWStepName,
+  options: ConnectorCallOptions<StorageV1BucketsInsertArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.storage.v1.buckets.insert',
+    name,
+    options,
+    storageV1BucketsInsert
+  )
+}
+
+export interface StorageV1BucketsListArgs {
+  project: string | GWExpression
+  maxResults?: number | GWExpression
+  pageToken?: string | GWExpression
+  prefix?: string | GWExpression
+}
+
+/**
+ * Retrieves a list of buckets for a given project.
+ */
+function storageV1BucketsList(
+  name: GWStepName,
+  options: ConnectorCallOptions<StorageV1BucketsListArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.storage.v1.buckets.list',
+    name,
+    options,
+    storageV1BucketsList
+  )
+}
+
+export interface StorageV1ObjectsGetArgs {
+  bucket: string | GWExpression
+  object: string | GWExpression
+  alt?: string | GWExpression
+  generation?: string | GWExpression
+}
+
+/**
+ * Retrieves an object or its metadata.
+ */
+function storageV1ObjectsGet(
+  name: GWStepName,
+  options: ConnectorCallOptions<StorageV1ObjectsGetArgs>
+): NamedWorkflowStep {
+  return connectorStep(
+    'googleapis.storage.v1.objects.get',
+    name,
+    options,
+    storageV1ObjectsGet
+  )
+}
+
+export interface StorageV1Bucket {
+  name?: string | GWExpression
+  location?: string | GWExpression
+  storageClass?: string | GWExpression
+  labels?: Record<string, string | GWExpression> | GWExpression
+}
+
+export const connectors = {
+  firestore: {
+    v1: {
+      projects: {
+        databases: {
+          documents: {
+            createDocument: firestoreV1ProjectsDatabasesDocumentsCreateDocument,
+            delete: firestoreV1ProjectsDatabasesDocumentsDelete,
+            get: firestoreV1ProjectsDatabasesDocumentsGet,
+            patch: firestoreV1ProjectsDatabasesDocumentsPatch,
+          },
+        },
+      },
+    },
+  },
+  pubsub: {
+    v1: {
+      projects: {
+        subscriptions: {
+          acknowledge: pubsubV1ProjectsSubscriptionsAcknowledge,
+          pull: pubsubV1ProjectsSubscriptionsPull,
+        },
+        topics: {
+          create: pubsubV1ProjectsTopicsCreate,
+          delete: pubsubV1ProjectsTopicsDelete,
+          get: pubsubV1ProjectsTopicsGet,
+          publish: pubsubV1ProjectsTopicsPublish,
+        },
+      },
+    },
+  },
+  storage: {
+    v1: {
+      buckets: {
+        insert: storageV1BucketsInsert,
+        list: storageV1BucketsList,
+      },
+      objects: {
+        get: storageV1ObjectsGet,
+      },
+    },
+  },
+}
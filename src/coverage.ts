@@ -0,0 +1,316 @@
+import { ExecutionObserver } from './interpreter'
+import { relativeFileName } from './sourcemap'
+import { SourceLocation, SwitchStep, TryExceptStep } from './steps'
+import { BaseWorkflow, WorkflowApp } from './workflows'
+
+export interface StepCoverage {
+  step: string
+  // The number of times the step was executed
+  hits: number
+  // Where the step was created, if it was created by a builder function
+  source?: SourceLocation
+}
+
+export interface ConditionCoverage {
+  // The switch step
+  step: string
+  index: number
+  condition: string
+  // The number of times the condition matched
+  hits: number
+  source?: SourceLocation
+}
+
+export interface ExceptBlockCoverage {
+  // The try step
+  step: string
+  // The number of times an error was caught
+  hits: number
+  source?: SourceLocation
+}
+
+export interface WorkflowCoverageReport {
+  workflow: string
+  steps: StepCoverage[]
+  conditions: ConditionCoverage[]
+  exceptBlocks: ExceptBlockCoverage[]
+}
+
+/**
+ * Coverage of the workflow steps, switch conditions and except blocks. This
+ * is the JSON coverage format. Reports of several test runs can be combined
+ * with WorkflowCoverage.merge().
+ */
+export interface CoverageReport {
+  version: 1
+  workflows: WorkflowCoverageReport[]
+}
+
+export interface CoverageCount {
+  total: number
+  covered: number
+}
+
+export interface CoverageSummary {
+  steps: CoverageCount
+  conditions: CoverageCount
+  exceptBlocks: CoverageCount
+}
+
+/**
+ * Collects coverage over workflow executions. Pass the observer to
+ * executeWorkflow() or the collector to runWorkflow().
+ *
+ * Workflows are identified by name, so the coverage of apps that have
+ * different workflows with the same name should be collected separately.
+ */
+export class WorkflowCoverage {
+  private readonly workflows: Map<string, WorkflowCoverageReport> = new Map()
+
+  // Add the workflows of an app so that steps that are never executed are
+  // reported, too
+  include(app: WorkflowApp): void {
+    for (const workflow of [app.mainWorkflow, ...app.subworkflows]) {
+      if (!this.workflows.has(workflow.name)) {
+        this.workflows.set(workflow.name, emptyCoverage(workflow))
+      }
+    }
+  }
+
+  // An execution observer that records the coverage of an app
+  observer(app: WorkflowApp): ExecutionObserver {
+    this.include(app)
+
+    return {
+      onStep: ({ workflow, step }) => {
+        const found = this.workflows
+          .get(workflow)
+          ?.steps.find((x) => x.step === step)
+        if (found) {
+          found.hits += 1
+        }
+      },
+      onCondition: ({ workflow, step, index }) => {
+        const found = this.workflows
+          .get(workflow)
+          ?.conditions.find((x) => x.step === step && x.index === index)
+        if (found) {
+          found.hits += 1
+        }
+      },
+      onErrorCaught: ({ workflow, step }) => {
+        const found = this.workflows
+          .get(workflow)
+          ?.exceptBlocks.find((x) => x.step === step)
+        if (found) {
+          found.hits += 1
+        }
+      },
+    }
+  }
+
+  // Add the hits of a report, for example, one written by another test file
+  merge(report: CoverageReport): void {
+    for (const workflowReport of report.workflows) {
+      const existing = this.workflows.get(workflowReport.workflow)
+      if (!existing) {
+        this.workflows.set(workflowReport.workflow, copyReport(workflowReport))
+        continue
+      }
+
+      mergeItems(existing.steps, workflowReport.steps, (a, b) => {
+        return a.step === b.step
+      })
+      mergeItems(existing.conditions, workflowReport.conditions, (a, b) => {
+        return a.step === b.step && a.index === b.index
+      })
+      mergeItems(existing.exceptBlocks, workflowReport.exceptBlocks, (a, b) => {
+        return a.step === b.step
+      })
+    }
+  }
+
+  report(): CoverageReport {
+    return {
+      version: 1,
+      workflows: Array.from(this.workflows.values()).map(copyReport),
+    }
+  }
+}
+
+/**
+ * Count the covered steps, conditions and except blocks.
+ */
+export function summarizeCoverage(report: CoverageReport): CoverageSummary {
+  const count = (items: { hits: number }[]): CoverageCount => ({
+    total: items.length,
+    covered: items.filter((x) => x.hits > 0).length,
+  })
+
+  return {
+    steps: count(report.workflows.flatMap((x) => x.steps)),
+    conditions: count(report.workflows.flatMap((x) => x.conditions)),
+    exceptBlocks: count(report.workflows.flatMap((x) => x.exceptBlocks)),
+  }
+}
+
+/**
+ * Convert a coverage report into the lcov format. The steps are mapped to the
+ * lines where they were created, and switch conditions and except blocks are
+ * reported as branches. Steps that have no source location, such as parsed
+ * steps, are left out.
+ *
+ * The file names are relative to rootDir, which defaults to the current
+ * working directory.
+ */
+export function toLcov(
+  report: CoverageReport,
+  options: { rootDir?: string } = {}
+): string {
+  const rootDir = options.rootDir ?? process.cwd()
+  const files = new Map<string, LcovFile>()
+  const fileFor = (source: SourceLocation) => {
+    const name = relativeFileName(source.file, rootDir)
+    let file = files.get(name)
+    if (!file) {
+      file = { lines: new Map(), branches: [] }
+      files.set(name, file)
+    }
+    return file
+  }
+
+  for (const workflow of report.workflows) {
+    for (const { hits, source } of workflow.steps) {
+      if (source) {
+        const lines = fileFor(source).lines
+        lines.set(source.line, (lines.get(source.line) ?? 0) + hits)
+      }
+    }
+
+    // A block for each switch and try step, numbered in the order of the file
+    const blocks = new Map<string, number>()
+    const addBranch = (
+      step: string,
+      source: SourceLocation | undefined,
+      hits: number
+    ) => {
+      if (!source) {
+        return
+      }
+
+      const file = fileFor(source)
+      const key = `${workflow.workflow}.${step}`
+      let block = blocks.get(key)
+      if (typeof block === 'undefined') {
+        block = new Set(file.branches.map((x) => x.blockId)).size
+        blocks.set(key, block)
+      }
+      file.branches.push({
+        line: source.line,
+        blockId: block,
+        branch: file.branches.filter((x) => x.blockId === block).length,
+        hits,
+      })
+    }
+
+    for (const { step, hits, source } of workflow.conditions) {
+      addBranch(step, source, hits)
+    }
+    for (const { step, hits, source } of workflow.exceptBlocks) {
+      addBranch(step, source, hits)
+    }
+  }
+
+  const records = Array.from(files.entries()).map(([name, file]) => {
+    const lines = Array.from(file.lines.entries()).sort((a, b) => a[0] - b[0])
+    const output = ['TN:', `SF:${name}`]
+    for (const branch of file.branches) {
+      output.push(
+        `BRDA:${branch.line},${branch.blockId},${branch.branch},${branch.hits}`
+      )
+    }
+    output.push(`BRF:${file.branches.length}`)
+    output.push(`BRH:${file.branches.filter((x) => x.hits > 0).length}`)
+    for (const [line, hits] of lines) {
+      output.push(`DA:${line},${hits}`)
+    }
+    output.push(`LF:${lines.length}`)
+    output.push(`LH:${lines.filter(([, hits]) => hits > 0).length}`)
+    output.push('end_of_record')
+
+    return output.join('\n') + '\n'
+  })
+
+  return records.join('')
+}
+
+interface LcovFile {
+  // Hits by line number
+  lines: Map<number, number>
+  branches: { line: number; blockId: number; branch: number; hits: number }[]
+}
+
+function emptyCoverage(workflow: BaseWorkflow): WorkflowCoverageReport {
+  const coverage: WorkflowCoverageReport = {
+    workflow: workflow.name,
+    steps: [],
+    conditions: [],
+    exceptBlocks: [],
+  }
+
+  for (const { name, step, source } of workflow.iterateStepsDepthFirst()) {
+    coverage.steps.push(withSource({ step: name, hits: 0 }, source))
+
+    if (step instanceof SwitchStep) {
+      step.conditions.forEach((cond, index) => {
+        coverage.conditions.push(
+          withSource(
+            {
+              step: name,
+              index,
+              condition: cond.condition.expression,
+              hits: 0,
+            },
+            source
+          )
+        )
+      })
+    } else if (
+      step instanceof TryExceptStep &&
+      (step.exceptSteps.length > 0 || step.errorMap)
+    ) {
+      coverage.exceptBlocks.push(withSource({ step: name, hits: 0 }, source))
+    }
+  }
+
+  return coverage
+}
+
+function withSource<T>(item: T, source?: SourceLocation): T {
+  return source ? { ...item, source: { ...source } } : item
+}
+
+function copyReport(report: WorkflowCoverageReport): WorkflowCoverageReport {
+  return {
+    workflow: report.workflow,
+    steps: report.steps.map((x) => ({ ...x })),
+    conditions: report.conditions.map((x) => ({ ...x })),
+    exceptBlocks: report.exceptBlocks.map((x) => ({ ...x })),
+  }
+}
+
+// Add the hits of matching items and append the items that don't match
+function mergeItems<T extends { hits: number }>(
+  target: T[],
+  source: T[],
+  matches: (a: T, b: T) => boolean
+): void {
+  for (const item of source) {
+    const existing = target.find((x) => matches(x, item))
+    if (existing) {
+      existing.hits += item.hits
+    } else {
+      target.push({ ...item })
+    }
+  }
+}
@@ -0,0 +1,340 @@
+import {
+  ControlFlowEdge,
+  buildControlFlowGraph,
+  entryNode,
+  exitNode,
+} from './cfg'
+import {
+  CallStep,
+  ForStep,
+  NamedWorkflowStep,
+  Parallel,
+  RaiseStep,
+  ReturnStep,
+  StepsStep,
+  SwitchStep,
+  TryExceptStep,
+} from './steps'
+import { GWExpression, GWValue, renderGWValue } from './variables'
+import { BaseWorkflow, WorkflowApp } from './workflows'
+
+/**
+ * Render the workflows as a Mermaid flowchart. Each workflow is drawn as a
+ * subgraph. Call steps that call a subworkflow are linked to the subworkflow
+ * by a dotted arrow.
+ */
+export function toMermaid(app: WorkflowApp): string {
+  const diagram = buildDiagram(app)
+  const lines = ['flowchart TD']
+
+  function printCluster(cluster: Cluster, indent: string) {
+    lines.push(
+      `${indent}subgraph ${cluster.id} ["${mermaidText(cluster.label)}"]`
+    )
+    for (const node of cluster.nodes) {
+      lines.push(indent + '  ' + mermaidNode(node))
+    }
+    for (const child of cluster.clusters) {
+      printCluster(child, indent + '  ')
+    }
+    lines.push(`${indent}end`)
+  }
+
+  diagram.clusters.forEach((cluster) => printCluster(cluster, '  '))
+
+  for (const edge of diagram.edges) {
+    const arrow = edge.style === 'dotted' ? '-.->' : '-->'
+    const label = edge.label ? `|"${mermaidText(edge.label)}"|` : ''
+    lines.push(`  ${edge.from} ${arrow}${label} ${edge.to}`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Render the workflows as a Graphviz DOT digraph. Each workflow is drawn as a
+ * cluster. Call steps that call a subworkflow are linked to the subworkflow
+ * by a dashed arrow.
+ */
+export function toDot(app: WorkflowApp): string {
+  const diagram = buildDiagram(app)
+  const lines = ['digraph workflow {', '  node [shape=box];']
+
+  function printCluster(cluster: Cluster, indent: string) {
+    lines.push(`${indent}subgraph cluster_${cluster.id} {`)
+    lines.push(`${indent}  label=${dotString(cluster.label)};`)
+    for (const node of cluster.nodes) {
+      lines.push(indent + '  ' + dotNode(node))
+    }
+    for (const child of cluster.clusters) {
+      printCluster(child, indent + '  ')
+    }
+    lines.push(`${indent}}`)
+  }
+
+  diagram.clusters.forEach((cluster) => printCluster(cluster, '  '))
+
+  for (const edge of diagram.edges) {
+    const attributes: string[] = []
+    if (edge.label) {
+      attributes.push(`label=${dotString(edge.label)}`)
+    }
+    if (edge.style === 'dotted') {
+      attributes.push('style=dashed')
+    }
+    const attributeList =
+      attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''
+    lines.push(`  ${edge.from} -> ${edge.to}${attributeList};`)
+  }
+
+  lines.push('}')
+
+  return lines.join('\n') + '\n'
+}
+
+// A format-independent model of the diagram
+
+type NodeShape = 'terminal' | 'step' | 'decision' | 'subroutine'
+
+interface DiagramNode {
+  id: string
+  // Lines of the label
+  label: string[]
+  shape: NodeShape
+}
+
+interface Cluster {
+  id: string
+  label: string
+  nodes: DiagramNode[]
+  clusters: Cluster[]
+}
+
+interface DiagramEdge {
+  from: string
+  to: string
+  label?: string
+  style: 'solid' | 'dotted'
+}
+
+interface Diagram {
+  // A cluster for each workflow
+  clusters: Cluster[]
+  edges: DiagramEdge[]
+}
+
+function buildDiagram(app: WorkflowApp): Diagram {
+  const workflows = [app.mainWorkflow, ...app.subworkflows]
+  const subworkflowNames = app.subworkflows.map((x) => x.name)
+  const clusters: Cluster[] = []
+  const edges: DiagramEdge[] = []
+
+  // Node IDs must be unique across workflows
+  const workflowIndex = (name: string) =>
+    workflows.findIndex((x) => x.name === name)
+
+  workflows.forEach((workflow, i) => {
+    const graph = buildControlFlowGraph(workflow)
+    const nodeIds = new Map(graph.nodes.map((x, j) => [x.id, `w${i}_n${j}`]))
+    const nodeId = (id: string) => nodeIds.get(id) ?? id
+    let clusterCount = 0
+    const newClusterId = () => `w${i}_c${clusterCount++}`
+
+    const root: Cluster = {
+      id: newClusterId(),
+      label: workflow.name,
+      nodes: [
+        {
+          id: nodeId(entryNode),
+          label: [entryLabel(workflow)],
+          shape: 'terminal',
+        },
+      ],
+      clusters: [],
+    }
+
+    function addSteps(steps: NamedWorkflowStep[], cluster: Cluster) {
+      for (const namedStep of steps) {
+        addStep(namedStep, cluster)
+      }
+    }
+
+    function addStep(namedStep: NamedWorkflowStep, cluster: Cluster) {
+      const { name, step } = namedStep
+      cluster.nodes.push({
+        id: nodeId(name),
+        label: stepLabel(namedStep),
+        shape: nodeShape(namedStep, subworkflowNames),
+      })
+
+      // Link to the entry node, which is the first node of each workflow
+      if (step instanceof CallStep && subworkflowNames.includes(step.call)) {
+        edges.push({
+          from: nodeId(name),
+          to: `w${workflowIndex(step.call)}_n0`,
+          style: 'dotted',
+        })
+      }
+
+      const addNestedCluster = (label: string, nested: NamedWorkflowStep[]) => {
+        const child: Cluster = {
+          id: newClusterId(),
+          label,
+          nodes: [],
+          clusters: [],
+        }
+        addSteps(nested, child)
+        cluster.clusters.push(child)
+      }
+
+      if (step instanceof SwitchStep) {
+        step.conditions.forEach((cond) => addSteps(cond.steps, cluster))
+      } else if (step instanceof TryExceptStep) {
+        addNestedCluster(`try (${name})`, step.trySteps)
+        if (step.exceptSteps.length > 0) {
+          addNestedCluster(`except (${name})`, step.exceptSteps)
+        }
+      } else if (step instanceof ForStep) {
+        addNestedCluster(`for (${name})`, step.steps)
+      } else if (step instanceof Parallel) {
+        if (step.forStep) {
+          addNestedCluster(`parallel for (${name})`, step.forStep.steps)
+        } else {
+          for (const branch of step.branches ?? []) {
+            addNestedCluster(`branch (${branch.name})`, [branch])
+          }
+        }
+      } else if (step instanceof StepsStep) {
+        addSteps(step.steps, cluster)
+      }
+    }
+
+    addSteps(workflow.steps, root)
+    root.nodes.push({ id: nodeId(exitNode), label: ['end'], shape: 'terminal' })
+    clusters.push(root)
+
+    for (const edge of graph.edges) {
+      edges.push({
+        from: nodeId(edge.from),
+        to: nodeId(edge.to),
+        label: edgeLabel(edge),
+        style: edge.kind === 'exception' ? 'dotted' : 'solid',
+      })
+    }
+  })
+
+  return { clusters, edges }
+}
+
+function entryLabel(workflow: BaseWorkflow): string {
+  const params = (workflow.params ?? []).map((x) => x.name)
+  return `${workflow.name}(${params.join(', ')})`
+}
+
+function stepLabel({ name, step }: NamedWorkflowStep): string[] {
+  if (step instanceof CallStep) {
+    return [name, `call ${step.call}`]
+  } else if (step instanceof TryExceptStep) {
+    return [name, 'try']
+  } else if (step instanceof ForStep) {
+    return [name, forLoopLabel(step)]
+  } else if (step instanceof Parallel) {
+    return step.forStep
+      ? [name, `parallel ${forLoopLabel(step.forStep)}`]
+      : [name, 'parallel']
+  } else if (step instanceof RaiseStep) {
+    return [name, 'raise']
+  } else if (step instanceof ReturnStep) {
+    return [name, 'return']
+  } else {
+    return [name]
+  }
+}
+
+function forLoopLabel(step: ForStep): string {
+  if (typeof step.listExpression === 'undefined') {
+    return `for ${step.loopVariableName} in range [${step.rangeStart}, ${step.rangeEnd}]`
+  } else {
+    return `for ${step.loopVariableName} in ${valueText(step.listExpression)}`
+  }
+}
+
+function valueText(value: GWExpression | GWValue[]): string {
+  return value instanceof GWExpression
+    ? value.render()
+    : JSON.stringify(renderGWValue(value))
+}
+
+function nodeShape(
+  { step }: NamedWorkflowStep,
+  subworkflowNames: string[]
+): NodeShape {
+  if (step instanceof SwitchStep) {
+    return 'decision'
+  } else if (step instanceof CallStep && subworkflowNames.includes(step.call)) {
+    return 'subroutine'
+  } else {
+    return 'step'
+  }
+}
+
+function edgeLabel(edge: ControlFlowEdge): string | undefined {
+  switch (edge.kind) {
+    case 'condition':
+      return edge.label
+    case 'exception':
+      return 'error'
+    case 'loopExit':
+      return 'done'
+    default:
+      return undefined
+  }
+}
+
+function mermaidNode(node: DiagramNode): string {
+  const text = `"${node.label.map(mermaidText).join('<br>')}"`
+  switch (node.shape) {
+    case 'terminal':
+      return `${node.id}([${text}])`
+    case 'decision':
+      return `${node.id}{${text}}`
+    case 'subroutine':
+      return `${node.id}[[${text}]]`
+    case 'step':
+      return `${node.id}[${text}]`
+  }
+}
+
+// Escape characters that have a special meaning in Mermaid labels
+function mermaidText(text: string): string {
+  return text
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+}
+
+function dotNode(node: DiagramNode): string {
+  const attributes = [`label=${dotString(node.label.join('\n'))}`]
+  switch (node.shape) {
+    case 'terminal':
+      attributes.push('shape=oval')
+      break
+    case 'decision':
+      attributes.push('shape=diamond')
+      break
+    case 'subroutine':
+      attributes.push('peripheries=2')
+      break
+  }
+
+  return `${node.id} [${attributes.join(', ')}];`
+}
+
+function dotString(text: string): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+  return `"${escaped}"`
+}
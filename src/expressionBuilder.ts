@@ -0,0 +1,229 @@
+import { BinaryOperator, Expression, printExpression } from './expressions'
+import { GWExpression } from './variables'
+
+type LiteralValue = null | string | number | boolean
+
+// Plain values are converted to literals
+export type ExpressionLike = ExpressionBuilder | LiteralValue | ExpressionLike[]
+
+/**
+ * A composable expression. Renders to the same "${...}" form as an expression
+ * created with $() and can be used wherever a GWExpression is accepted.
+ *
+ * Example: lit('Hello, ').plus(v('name'))
+ */
+export class ExpressionBuilder extends GWExpression {
+  readonly ast: Expression
+
+  constructor(ast: Expression) {
+    super(printExpression(ast))
+    this.ast = ast
+  }
+
+  // The printed AST is a valid expression by construction. String literals
+  // and map literals may contain "$", "{" and "}".
+  protected checkExpression(): void {
+    return
+  }
+
+  plus(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('+', other)
+  }
+
+  minus(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('-', other)
+  }
+
+  times(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('*', other)
+  }
+
+  div(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('/', other)
+  }
+
+  // Integer division, "//"
+  intDiv(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('//', other)
+  }
+
+  mod(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('%', other)
+  }
+
+  eq(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('==', other)
+  }
+
+  ne(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('!=', other)
+  }
+
+  lt(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('<', other)
+  }
+
+  le(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('<=', other)
+  }
+
+  gt(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('>', other)
+  }
+
+  ge(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('>=', other)
+  }
+
+  // Membership test, "this in container"
+  in(container: ExpressionLike): ExpressionBuilder {
+    return this.binary('in', container)
+  }
+
+  and(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('and', other)
+  }
+
+  or(other: ExpressionLike): ExpressionBuilder {
+    return this.binary('or', other)
+  }
+
+  not(): ExpressionBuilder {
+    return new ExpressionBuilder({
+      type: 'unary',
+      operator: 'not',
+      operand: this.ast,
+    })
+  }
+
+  neg(): ExpressionBuilder {
+    return new ExpressionBuilder({
+      type: 'unary',
+      operator: '-',
+      operand: this.ast,
+    })
+  }
+
+  /**
+   * Access a map key or a list element. String keys that are valid
+   * identifiers are rendered with the dot notation (e.code), others with
+   * the index notation (e["content-type"], list[0]).
+   */
+  get(key: ExpressionLike): ExpressionBuilder {
+    if (typeof key === 'string' && isIdentifier(key)) {
+      return new ExpressionBuilder({
+        type: 'member',
+        object: this.ast,
+        property: key,
+      })
+    } else {
+      return new ExpressionBuilder({
+        type: 'index',
+        object: this.ast,
+        index: toAst(key),
+      })
+    }
+  }
+
+  private binary(
+    operator: BinaryOperator,
+    other: ExpressionLike
+  ): ExpressionBuilder {
+    return new ExpressionBuilder({
+      type: 'binary',
+      operator,
+      left: this.ast,
+      right: toAst(other),
+    })
+  }
+}
+
+/**
+ * A variable reference. A dotted name refers to map keys: v('args.name').
+ */
+export function v(name: string): ExpressionBuilder {
+  const [first, ...rest] = name.split('.')
+  if (!isIdentifier(first) || !rest.every(isIdentifier)) {
+    throw new Error(`Invalid variable name: ${name}`)
+  }
+
+  let ast: Expression = { type: 'variable', name: first }
+  for (const property of rest) {
+    ast = { type: 'member', object: ast, property }
+  }
+
+  return new ExpressionBuilder(ast)
+}
+
+/**
+ * A literal value: a string, a number, a boolean, null or a list of these.
+ */
+export function lit(value: ExpressionLike): ExpressionBuilder {
+  return new ExpressionBuilder(toAst(value))
+}
+
+/**
+ * A function call: fn('len', v('list')), fn('sys.now')
+ */
+export function fn(name: string, ...args: ExpressionLike[]): ExpressionBuilder {
+  if (!name.split('.').every(isIdentifier)) {
+    throw new Error(`Invalid function name: ${name}`)
+  }
+
+  return new ExpressionBuilder({ type: 'call', name, args: args.map(toAst) })
+}
+
+/**
+ * Logical negation: not(v('done'))
+ */
+export function not(ex: ExpressionLike): ExpressionBuilder {
+  return lit(ex).not()
+}
+
+/**
+ * Logical conjunction of all arguments
+ */
+export function and(
+  first: ExpressionLike,
+  ...rest: ExpressionLike[]
+): ExpressionBuilder {
+  return rest.reduce<ExpressionBuilder>((acc, x) => acc.and(x), lit(first))
+}
+
+/**
+ * Logical disjunction of all arguments
+ */
+export function or(
+  first: ExpressionLike,
+  ...rest: ExpressionLike[]
+): ExpressionBuilder {
+  return rest.reduce<ExpressionBuilder>((acc, x) => acc.or(x), lit(first))
+}
+
+function toAst(value: ExpressionLike): Expression {
+  if (value instanceof ExpressionBuilder) {
+    return value.ast
+  } else if (Array.isArray(value)) {
+    return { type: 'list', items: value.map(toAst) }
+  } else {
+    return { type: 'literal', value }
+  }
+}
+
+const reservedWords = [
+  'and',
+  'or',
+  'not',
+  'in',
+  'true',
+  'True',
+  'TRUE',
+  'false',
+  'False',
+  'FALSE',
+  'null',
+]
+
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !reservedWords.includes(name)
+}
@@ -0,0 +1,1042 @@
+// Parser and evaluator for the Workflows expression language
+// https://cloud.google.com/workflows/docs/reference/syntax/expressions
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '//'
+  | '%'
+  | '=='
+  | '!='
+  | '<'
+  | '>'
+  | '<='
+  | '>='
+  | 'in'
+  | 'and'
+  | 'or'
+
+export type UnaryOperator = '-' | 'not'
+
+export type Expression =
+  | { type: 'literal'; value: null | string | number | boolean }
+  | { type: 'variable'; name: string }
+  | { type: 'list'; items: Expression[] }
+  | { type: 'map'; entries: [Expression, Expression][] }
+  | { type: 'member'; object: Expression; property: string }
+  | { type: 'index'; object: Expression; index: Expression }
+  | { type: 'call'; name: string; args: Expression[] }
+  | { type: 'unary'; operator: UnaryOperator; operand: Expression }
+  | {
+      type: 'binary'
+      operator: BinaryOperator
+      left: Expression
+      right: Expression
+    }
+
+/**
+ * A syntax error in an expression. The column is the one-based position of the
+ * offending character in the expression.
+ */
+export class ExpressionSyntaxError extends Error {
+  readonly expression: string
+  readonly column: number
+
+  constructor(message: string, expression: string, column: number) {
+    super(`${message} at column ${column} in expression "${expression}"`)
+    this.name = this.constructor.name
+    this.expression = expression
+    this.column = column
+  }
+}
+
+/**
+ * An error raised while executing a workflow. The value is the error object
+ * visible to the workflow, for example in an except block.
+ */
+export class WorkflowRuntimeError extends Error {
+  readonly value: unknown
+
+  constructor(value: unknown) {
+    super(runtimeErrorMessage(value))
+    this.name = this.constructor.name
+    this.value = value
+  }
+}
+
+function runtimeErrorMessage(value: unknown): string {
+  if (typeof value === 'string') {
+    return value
+  } else if (
+    value !== null &&
+    typeof value === 'object' &&
+    'message' in value &&
+    typeof value.message === 'string'
+  ) {
+    return value.message
+  } else {
+    return JSON.stringify(value)
+  }
+}
+
+// Raise a built-in error, such as a KeyError or a TypeError
+export function raiseRuntimeError(tag: string, message: string): never {
+  throw new WorkflowRuntimeError({ message, tags: [tag] })
+}
+
+/**
+ * Parse an expression (without the surrounding "${}") into an abstract syntax
+ * tree.
+ *
+ * Throws an ExpressionSyntaxError if the expression is not valid.
+ */
+export function parseExpression(source: string): Expression {
+  const parser = new Parser(source, tokenize(source))
+  return parser.parseFullExpression()
+}
+
+/**
+ * Names of the variables read by an expression. Names of called functions are
+ * not included.
+ */
+export function referencedVariables(ex: Expression): string[] {
+  switch (ex.type) {
+    case 'literal':
+      return []
+    case 'variable':
+      return [ex.name]
+    case 'list':
+      return ex.items.flatMap(referencedVariables)
+    case 'map':
+      return ex.entries.flatMap(([k, v]) =>
+        referencedVariables(k).concat(referencedVariables(v))
+      )
+    case 'member':
+      return referencedVariables(ex.object)
+    case 'index':
+      return referencedVariables(ex.object).concat(
+        referencedVariables(ex.index)
+      )
+    case 'call':
+      return ex.args.flatMap(referencedVariables)
+    case 'unary':
+      return referencedVariables(ex.operand)
+    case 'binary':
+      return referencedVariables(ex.left).concat(referencedVariables(ex.right))
+  }
+}
+
+/**
+ * Names of the functions called by an expression, such as "len" and
+ * "sys.now"
+ */
+export function calledFunctions(ex: Expression): string[] {
+  switch (ex.type) {
+    case 'literal':
+    case 'variable':
+      return []
+    case 'list':
+      return ex.items.flatMap(calledFunctions)
+    case 'map':
+      return ex.entries.flatMap(([k, v]) =>
+        calledFunctions(k).concat(calledFunctions(v))
+      )
+    case 'member':
+      return calledFunctions(ex.object)
+    case 'index':
+      return calledFunctions(ex.object).concat(calledFunctions(ex.index))
+    case 'call':
+      return [ex.name, ...ex.args.flatMap(calledFunctions)]
+    case 'unary':
+      return calledFunctions(ex.operand)
+    case 'binary':
+      return calledFunctions(ex.left).concat(calledFunctions(ex.right))
+  }
+}
+
+/**
+ * Convert an abstract syntax tree back to the expression source. Parentheses
+ * are added only where the operator precedence requires them.
+ */
+export function printExpression(ex: Expression): string {
+  switch (ex.type) {
+    case 'literal':
+      return typeof ex.value === 'string'
+        ? quoteString(ex.value)
+        : String(ex.value)
+
+    case 'variable':
+      return ex.name
+
+    case 'list':
+      return '[' + ex.items.map(printExpression).join(', ') + ']'
+
+    case 'map':
+      return (
+        '{' +
+        ex.entries
+          .map(([k, v]) => `${printExpression(k)}: ${printExpression(v)}`)
+          .join(', ') +
+        '}'
+      )
+
+    case 'member':
+      return `${printOperand(ex.object, postfixPrecedence)}.${ex.property}`
+
+    case 'index':
+      return `${printOperand(ex.object, postfixPrecedence)}[${printExpression(
+        ex.index
+      )}]`
+
+    case 'call':
+      return `${ex.name}(${ex.args.map(printExpression).join(', ')})`
+
+    case 'unary':
+      if (ex.operator === 'not') {
+        return `not ${printOperand(ex.operand, notPrecedence)}`
+      } else {
+        // Avoid printing "--x"
+        const minPrecedence =
+          ex.operand.type === 'unary' || isNegativeNumber(ex.operand)
+            ? postfixPrecedence
+            : unaryMinusPrecedence
+        return `-${printOperand(ex.operand, minPrecedence)}`
+      }
+
+    case 'binary': {
+      // Binary operators are left-associative
+      const precedence = binaryPrecedence[ex.operator]
+      const left = printOperand(ex.left, precedence)
+      const right = printOperand(ex.right, precedence + 1)
+      return `${left} ${ex.operator} ${right}`
+    }
+  }
+}
+
+const binaryPrecedence: Record<BinaryOperator, number> = {
+  or: 1,
+  and: 2,
+  '==': 4,
+  '!=': 4,
+  '<': 4,
+  '>': 4,
+  '<=': 4,
+  '>=': 4,
+  in: 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '//': 6,
+  '%': 6,
+}
+const notPrecedence = 3
+const unaryMinusPrecedence = 7
+const postfixPrecedence = 8
+
+function precedence(ex: Expression): number {
+  if (ex.type === 'binary') {
+    return binaryPrecedence[ex.operator]
+  } else if (ex.type === 'unary') {
+    return ex.operator === 'not' ? notPrecedence : unaryMinusPrecedence
+  } else if (isNegativeNumber(ex)) {
+    return unaryMinusPrecedence
+  } else {
+    return postfixPrecedence + 1
+  }
+}
+
+// Print a subexpression, in parentheses if it binds less tightly than
+// minPrecedence
+function printOperand(ex: Expression, minPrecedence: number): string {
+  const printed = printExpression(ex)
+  return precedence(ex) < minPrecedence ? `(${printed})` : printed
+}
+
+function isNegativeNumber(ex: Expression): boolean {
+  return ex.type === 'literal' && typeof ex.value === 'number' && ex.value < 0
+}
+
+function quoteString(str: string): string {
+  const escaped = str
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+
+  return `"${escaped}"`
+}
+
+/**
+ * Evaluate an expression given the values of variables. Functions called in
+ * the expression are looked up in the functions argument.
+ *
+ * Throws a WorkflowRuntimeError on runtime errors, such as a missing variable.
+ */
+export function evaluateExpression(
+  ex: string | Expression,
+  variables: Record<string, unknown> = {},
+  functions: Record<string, (...args: unknown[]) => unknown> = {}
+): unknown {
+  const ast = typeof ex === 'string' ? parseExpression(ex) : ex
+
+  return evaluate(ast, {
+    lookupVariable(name) {
+      if (!hasKey(variables, name)) {
+        raiseRuntimeError('KeyError', `Variable not found: ${name}`)
+      }
+      return variables[name]
+    },
+    callFunction(name, args) {
+      const fn = hasKey(functions, name) ? functions[name] : null
+      if (!fn) {
+        raiseRuntimeError('KeyError', `Function not found: ${name}`)
+      }
+      return fn(...args)
+    },
+  })
+}
+
+export interface EvaluationContext {
+  lookupVariable(name: string): unknown
+  callFunction(name: string, args: unknown[]): unknown
+}
+
+/**
+ * Evaluate an expression. Throws a WorkflowRuntimeError on runtime errors.
+ */
+export function evaluate(ex: Expression, context: EvaluationContext): unknown {
+  switch (ex.type) {
+    case 'literal':
+      return ex.value
+
+    case 'variable':
+      return context.lookupVariable(ex.name)
+
+    case 'list':
+      return ex.items.map((x) => evaluate(x, context))
+
+    case 'map':
+      return Object.fromEntries(
+        ex.entries.map(([k, v]) => {
+          const key = evaluate(k, context)
+          if (typeof key !== 'string') {
+            raiseRuntimeError('TypeError', 'Map keys must be strings')
+          }
+          return [key, evaluate(v, context)]
+        })
+      )
+
+    case 'member':
+      return getKey(evaluate(ex.object, context), ex.property)
+
+    case 'index':
+      return getIndex(evaluate(ex.object, context), evaluate(ex.index, context))
+
+    case 'call':
+      return context.callFunction(
+        ex.name,
+        ex.args.map((x) => evaluate(x, context))
+      )
+
+    case 'unary':
+      return evaluateUnary(ex.operator, evaluate(ex.operand, context))
+
+    case 'binary':
+      return evaluateBinary(ex, context)
+  }
+}
+
+export interface AsyncEvaluationContext {
+  lookupVariable(name: string): unknown
+  callFunction(name: string, args: unknown[]): unknown | Promise<unknown>
+}
+
+/**
+ * Evaluate an expression that may call asynchronous functions, such as
+ * subworkflows. The subexpressions are evaluated from left to right. Returns a
+ * promise only if a called function returns a promise, so that an expression
+ * without asynchronous calls is evaluated without yielding.
+ *
+ * Throws a WorkflowRuntimeError (or rejects with one) on runtime errors.
+ */
+export function evaluateAsync(
+  ex: Expression,
+  context: AsyncEvaluationContext
+): MaybePromise<unknown> {
+  switch (ex.type) {
+    case 'literal':
+      return ex.value
+
+    case 'variable':
+      return context.lookupVariable(ex.name)
+
+    case 'list':
+      return evaluateEach(ex.items, context)
+
+    case 'map':
+      return andThen(evaluateEach(ex.entries.flat(), context), (values) => {
+        const entries: [string, unknown][] = []
+        for (let i = 0; i < values.length; i += 2) {
+          const key = values[i]
+          if (typeof key !== 'string') {
+            raiseRuntimeError('TypeError', 'Map keys must be strings')
+          }
+          entries.push([key, values[i + 1]])
+        }
+        return Object.fromEntries(entries)
+      })
+
+    case 'member':
+      return andThen(evaluateAsync(ex.object, context), (object) =>
+        getKey(object, ex.property)
+      )
+
+    case 'index':
+      return andThen(
+        evaluateEach([ex.object, ex.index], context),
+        ([object, index]) => getIndex(object, index)
+      )
+
+    case 'call':
+      return andThen(evaluateEach(ex.args, context), (args) =>
+        context.callFunction(ex.name, args)
+      )
+
+    case 'unary':
+      return andThen(evaluateAsync(ex.operand, context), (operand) =>
+        evaluateUnary(ex.operator, operand)
+      )
+
+    case 'binary': {
+      const operator = ex.operator
+      // Logical operators short-circuit
+      if (operator === 'and' || operator === 'or') {
+        return andThen(evaluateAsync(ex.left, context), (leftValue) => {
+          const left = expectBoolean(leftValue, operator)
+          if (left === (operator === 'or')) {
+            return left
+          }
+          return andThen(evaluateAsync(ex.right, context), (right) =>
+            expectBoolean(right, operator)
+          )
+        })
+      }
+
+      return andThen(
+        evaluateEach([ex.left, ex.right], context),
+        ([left, right]) => binaryOperation(operator, left, right)
+      )
+    }
+  }
+}
+
+export type MaybePromise<T> = T | Promise<T>
+
+// Calls f with the value, after the value has been resolved if it is a
+// promise
+export function andThen<T, U>(
+  value: MaybePromise<T>,
+  f: (value: T) => MaybePromise<U>
+): MaybePromise<U> {
+  return value instanceof Promise ? value.then(f) : f(value)
+}
+
+// Runs the tasks one after another. Returns a promise only if a task does.
+export function sequence<T>(
+  tasks: (() => MaybePromise<T>)[]
+): MaybePromise<T[]> {
+  const results: T[] = []
+  const runFrom = (i: number): MaybePromise<T[]> =>
+    i >= tasks.length
+      ? results
+      : andThen(tasks[i](), (result) => {
+          results.push(result)
+          return runFrom(i + 1)
+        })
+
+  return runFrom(0)
+}
+
+function evaluateEach(
+  expressions: Expression[],
+  context: AsyncEvaluationContext
+): MaybePromise<unknown[]> {
+  return sequence(expressions.map((x) => () => evaluateAsync(x, context)))
+}
+
+export function getKey(obj: unknown, key: string): unknown {
+  if (!isMap(obj)) {
+    raiseRuntimeError('TypeError', `Can't get key "${key}" of a non-map value`)
+  }
+  if (!hasKey(obj, key)) {
+    raiseRuntimeError('KeyError', `Key not found: ${key}`)
+  }
+
+  return obj[key]
+}
+
+export function getIndex(obj: unknown, index: unknown): unknown {
+  if (Array.isArray(obj)) {
+    if (typeof index !== 'number' || !Number.isInteger(index)) {
+      raiseRuntimeError('TypeError', 'List index must be an integer')
+    }
+    if (index < 0 || index >= obj.length) {
+      raiseRuntimeError('IndexError', `List index out of range: ${index}`)
+    }
+    return obj[index]
+  } else if (isMap(obj)) {
+    if (typeof index !== 'string') {
+      raiseRuntimeError('TypeError', 'Map key must be a string')
+    }
+    return getKey(obj, index)
+  } else {
+    raiseRuntimeError('TypeError', 'Only lists and maps can be indexed')
+  }
+}
+
+export function isMap(val: unknown): val is Record<string, unknown> {
+  return val !== null && typeof val === 'object' && !Array.isArray(val)
+}
+
+// Does a map have the key? Unlike the "in" operator, ignores the inherited
+// members, such as toString.
+export function hasKey(map: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(map, key)
+}
+
+function evaluateUnary(operator: UnaryOperator, operand: unknown): unknown {
+  if (operator === '-') {
+    return -expectNumber(operand, operator)
+  } else {
+    return !expectBoolean(operand, operator)
+  }
+}
+
+function evaluateBinary(
+  ex: Extract<Expression, { type: 'binary' }>,
+  context: EvaluationContext
+): unknown {
+  // Logical operators short-circuit
+  if (ex.operator === 'and') {
+    return (
+      expectBoolean(evaluate(ex.left, context), 'and') &&
+      expectBoolean(evaluate(ex.right, context), 'and')
+    )
+  } else if (ex.operator === 'or') {
+    return (
+      expectBoolean(evaluate(ex.left, context), 'or') ||
+      expectBoolean(evaluate(ex.right, context), 'or')
+    )
+  }
+
+  return binaryOperation(
+    ex.operator,
+    evaluate(ex.left, context),
+    evaluate(ex.right, context)
+  )
+}
+
+// A binary operation other than the short-circuiting "and" and "or"
+function binaryOperation(
+  operator: Exclude<BinaryOperator, 'and' | 'or'>,
+  left: unknown,
+  right: unknown
+): unknown {
+  switch (operator) {
+    case '+':
+      if (typeof left === 'string' && typeof right === 'string') {
+        return left + right
+      } else {
+        return expectNumber(left, '+') + expectNumber(right, '+')
+      }
+
+    case '-':
+      return expectNumber(left, '-') - expectNumber(right, '-')
+
+    case '*':
+      return expectNumber(left, '*') * expectNumber(right, '*')
+
+    case '/':
+      return expectNumber(left, '/') / nonZero(expectNumber(right, '/'))
+
+    case '//':
+      return Math.floor(
+        expectNumber(left, '//') / nonZero(expectNumber(right, '//'))
+      )
+
+    case '%': {
+      const divisor = nonZero(expectNumber(right, '%'))
+      const remainder = expectNumber(left, '%') % divisor
+      // The result has the same sign as the divisor
+      return remainder !== 0 && remainder < 0 !== divisor < 0
+        ? remainder + divisor
+        : remainder
+    }
+
+    case '==':
+      return valuesEqual(left, right)
+
+    case '!=':
+      return !valuesEqual(left, right)
+
+    case '<':
+    case '>':
+    case '<=':
+    case '>=':
+      return compare(operator, left, right)
+
+    case 'in':
+      if (Array.isArray(right)) {
+        return right.some((x) => valuesEqual(x, left))
+      } else if (isMap(right)) {
+        return typeof left === 'string' && hasKey(right, left)
+      } else {
+        raiseRuntimeError('TypeError', 'Operator "in" requires a list or a map')
+      }
+  }
+}
+
+function compare(
+  operator: '<' | '>' | '<=' | '>=',
+  left: unknown,
+  right: unknown
+): boolean {
+  const bothNumbers = typeof left === 'number' && typeof right === 'number'
+  const bothStrings = typeof left === 'string' && typeof right === 'string'
+  if (!bothNumbers && !bothStrings) {
+    raiseRuntimeError(
+      'TypeError',
+      `Operator "${operator}" requires two numbers or two strings`
+    )
+  }
+
+  const a = left as number | string
+  const b = right as number | string
+  switch (operator) {
+    case '<':
+      return a < b
+    case '>':
+      return a > b
+    case '<=':
+      return a <= b
+    case '>=':
+      return a >= b
+  }
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((x, i) => valuesEqual(x, b[i]))
+  } else if (isMap(a) && isMap(b)) {
+    const keys = Object.keys(a)
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((k) => hasKey(b, k) && valuesEqual(a[k], b[k]))
+    )
+  } else {
+    return a === b
+  }
+}
+
+function expectNumber(val: unknown, operator: string): number {
+  if (typeof val !== 'number') {
+    raiseRuntimeError(
+      'TypeError',
+      `Operator "${operator}" requires numeric operands`
+    )
+  }
+
+  return val
+}
+
+function expectBoolean(val: unknown, operator: string): boolean {
+  if (typeof val !== 'boolean') {
+    raiseRuntimeError(
+      'TypeError',
+      `Operator "${operator}" requires boolean operands`
+    )
+  }
+
+  return val
+}
+
+function nonZero(val: number): number {
+  if (val === 0) {
+    raiseRuntimeError('ZeroDivisionError', 'Division by zero')
+  }
+
+  return val
+}
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'eof'
+
+interface Token {
+  type: TokenType
+  value: string
+  // Zero-based offset of the token in the expression source
+  position: number
+}
+
+// Longer operators first so that "//" is not split into two "/"s
+const operators = [
+  '//',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '<',
+  '>',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  ',',
+  '.',
+  ':',
+]
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  while (pos < source.length) {
+    const rest = source.slice(pos)
+    const ch = source[pos]
+
+    if (/\s/.test(ch)) {
+      pos += 1
+      continue
+    }
+
+    const numberMatch = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(rest)
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest)
+    const operator = operators.find((op) => rest.startsWith(op))
+
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0], position: pos })
+      pos += numberMatch[0].length
+    } else if (identifierMatch) {
+      tokens.push({
+        type: 'identifier',
+        value: identifierMatch[0],
+        position: pos,
+      })
+      pos += identifierMatch[0].length
+    } else if (ch === '"' || ch === "'") {
+      const [value, length] = readString(source, pos)
+      tokens.push({ type: 'string', value, position: pos })
+      pos += length
+    } else if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: pos })
+      pos += operator.length
+    } else {
+      throw new ExpressionSyntaxError(
+        `Unexpected character "${ch}"`,
+        source,
+        pos + 1
+      )
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length })
+  return tokens
+}
+
+const escapes: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+}
+
+// Returns the unescaped string and the length of the literal in the source
+function readString(source: string, start: number): [string, number] {
+  const quote = source[start]
+  let value = ''
+  let pos = start + 1
+
+  while (pos < source.length) {
+    const ch = source[pos]
+    if (ch === quote) {
+      return [value, pos - start + 1]
+    } else if (ch === '\\' && pos + 1 < source.length) {
+      const escaped = source[pos + 1]
+      value += escapes[escaped] ?? escaped
+      pos += 2
+    } else {
+      value += ch
+      pos += 1
+    }
+  }
+
+  throw new ExpressionSyntaxError('Unterminated string', source, start + 1)
+}
+
+const comparisonOperators = ['==', '!=', '<', '>', '<=', '>=']
+
+class Parser {
+  private readonly source: string
+  private readonly tokens: Token[]
+  private pos = 0
+
+  constructor(source: string, tokens: Token[]) {
+    this.source = source
+    this.tokens = tokens
+  }
+
+  parseFullExpression(): Expression {
+    const ex = this.parseOr()
+    const token = this.peek()
+    if (token.type !== 'eof') {
+      throw this.unexpected(token)
+    }
+
+    return ex
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd()
+    while (this.matchKeyword('or')) {
+      left = { type: 'binary', operator: 'or', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot()
+    while (this.matchKeyword('and')) {
+      left = { type: 'binary', operator: 'and', left, right: this.parseNot() }
+    }
+    return left
+  }
+
+  private parseNot(): Expression {
+    if (this.matchKeyword('not')) {
+      return { type: 'unary', operator: 'not', operand: this.parseNot() }
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): Expression {
+    let left = this.parseAdditive()
+    for (;;) {
+      const token = this.peek()
+      if (
+        token.type === 'operator' &&
+        comparisonOperators.includes(token.value)
+      ) {
+        this.next()
+        const operator = token.value as BinaryOperator
+        left = { type: 'binary', operator, left, right: this.parseAdditive() }
+      } else if (this.matchKeyword('in')) {
+        left = {
+          type: 'binary',
+          operator: 'in',
+          left,
+          right: this.parseAdditive(),
+        }
+      } else {
+        return left
+      }
+    }
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative()
+    for (;;) {
+      const operator = this.matchOperator('+', '-')
+      if (!operator) {
+        return left
+      }
+      left = {
+        type: 'binary',
+        operator,
+        left,
+        right: this.parseMultiplicative(),
+      }
+    }
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary()
+    for (;;) {
+      const operator = this.matchOperator('*', '/', '//', '%')
+      if (!operator) {
+        return left
+      }
+      left = { type: 'binary', operator, left, right: this.parseUnary() }
+    }
+  }
+
+  private parseUnary(): Expression {
+    if (this.matchOperator('-')) {
+      return { type: 'unary', operator: '-', operand: this.parseUnary() }
+    }
+    return this.parsePostfix()
+  }
+
+  private parsePostfix(): Expression {
+    let ex = this.parsePrimary()
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const property = this.next()
+        if (property.type !== 'identifier') {
+          throw this.unexpected(property)
+        }
+        ex = { type: 'member', object: ex, property: property.value }
+      } else if (this.matchOperator('[')) {
+        const index = this.parseOr()
+        this.expectOperator(']')
+        ex = { type: 'index', object: ex, index }
+      } else if (this.peekOperator('(')) {
+        const name = qualifiedName(ex)
+        if (!name) {
+          throw this.unexpected(this.peek())
+        }
+        this.next()
+        ex = { type: 'call', name, args: this.parseSequence(')') }
+      } else {
+        return ex
+      }
+    }
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next()
+
+    if (token.type === 'number') {
+      return { type: 'literal', value: Number(token.value) }
+    } else if (token.type === 'string') {
+      return { type: 'literal', value: token.value }
+    } else if (token.type === 'identifier') {
+      if (['true', 'True', 'TRUE'].includes(token.value)) {
+        return { type: 'literal', value: true }
+      } else if (['false', 'False', 'FALSE'].includes(token.value)) {
+        return { type: 'literal', value: false }
+      } else if (token.value === 'null') {
+        return { type: 'literal', value: null }
+      } else if (keywords.includes(token.value)) {
+        throw this.unexpected(token)
+      } else {
+        return { type: 'variable', name: token.value }
+      }
+    } else if (token.type === 'operator' && token.value === '(') {
+      const ex = this.parseOr()
+      this.expectOperator(')')
+      return ex
+    } else if (token.type === 'operator' && token.value === '[') {
+      return { type: 'list', items: this.parseSequence(']') }
+    } else if (token.type === 'operator' && token.value === '{') {
+      return { type: 'map', entries: this.parseMapEntries() }
+    } else {
+      throw this.unexpected(token)
+    }
+  }
+
+  // Parse comma-separated expressions until the closing token
+  private parseSequence(close: string): Expression[] {
+    const items: Expression[] = []
+    while (!this.matchOperator(close)) {
+      items.push(this.parseOr())
+      if (!this.peekOperator(close)) {
+        this.expectOperator(',')
+      }
+    }
+    return items
+  }
+
+  private parseMapEntries(): [Expression, Expression][] {
+    const entries: [Expression, Expression][] = []
+    while (!this.matchOperator('}')) {
+      const key = this.parseOr()
+      this.expectOperator(':')
+      entries.push([key, this.parseOr()])
+      if (!this.peekOperator('}')) {
+        this.expectOperator(',')
+      }
+    }
+    return entries
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos]
+    if (token.type !== 'eof') {
+      this.pos += 1
+    }
+    return token
+  }
+
+  private peekOperator(op: string): boolean {
+    const token = this.peek()
+    return token.type === 'operator' && token.value === op
+  }
+
+  private matchOperator<T extends string>(...ops: T[]): T | undefined {
+    const token = this.peek()
+    const op = ops.find((x) => token.type === 'operator' && token.value === x)
+    if (op) {
+      this.next()
+    }
+    return op
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek()
+    if (token.type === 'identifier' && token.value === keyword) {
+      this.next()
+      return true
+    } else {
+      return false
+    }
+  }
+
+  private expectOperator(op: string): void {
+    const token = this.next()
+    if (token.type !== 'operator' || token.value !== op) {
+      throw this.unexpected(token, `"${op}"`)
+    }
+  }
+
+  private unexpected(token: Token, expected?: string): ExpressionSyntaxError {
+    const found =
+      token.type === 'eof' ? 'end of expression' : `"${token.value}"`
+    const hint = expected ? `, expected ${expected}` : ''
+    return new ExpressionSyntaxError(
+      `Unexpected ${found}${hint}`,
+      this.source,
+      token.position + 1
+    )
+  }
+}
+
+const keywords = ['and', 'or', 'not', 'in']
+
+// The dotted name of a function, such as "sys.now", or undefined if the
+// expression is not a plain name
+function qualifiedName(ex: Expression): string | undefined {
+  if (ex.type === 'variable') {
+    return ex.name
+  } else if (ex.type === 'member') {
+    const objectName = qualifiedName(ex.object)
+    return objectName ? `${objectName}.${ex.property}` : undefined
+  } else {
+    return undefined
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  CustomRetryPolicy,
+  DefaultRetryPolicy,
+  GWArguments,
+  GWStepName,
+  NamedWorkflowStep,
+  call,
+  callerLocation,
+  tryExcept,
+} from './steps'
+import { GWExpression, GWValue } from './variables'
+
+// https://cloud.google.com/workflows/docs/reference/stdlib/http/request
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+// Authentication of a request to a Google Cloud service
+export type HttpAuth =
+  | {
+      type: 'OIDC'
+      // Defaults to the URL
+      audience?: string | GWExpression
+    }
+  | {
+      type: 'OAuth2'
+      // Defaults to https://www.googleapis.com/auth/cloud-platform
+      scopes?: string | string[] | GWExpression
+    }
+
+export interface HttpCallOptions {
+  url: string | GWExpression
+  query?: Record<string, GWValue> | GWExpression
+  headers?: Record<string, GWValue> | GWExpression
+  body?: GWValue
+  auth?: HttpAuth
+  // Timeout of the request in seconds
+  timeout?: number | GWExpression
+  // The Service Directory service to use for a private endpoint
+  privateServiceName?: string | GWExpression
+  // The variable that stores the response
+  result?: string
+  /**
+   * Wraps the call in a try step that retries the request. true retries with
+   * http.default_retry.
+   */
+  retry?: true | DefaultRetryPolicy | CustomRetryPolicy
+  next?: GWStepName
+}
+
+export function httpGet(
+  name: GWStepName,
+  options: Omit<HttpCallOptions, 'body'>
+): NamedWorkflowStep {
+  return httpStep('http.get', name, options, httpGet)
+}
+
+export function httpPost(
+  name: GWStepName,
+  options: HttpCallOptions
+): NamedWorkflowStep {
+  return httpStep('http.post', name, options, httpPost)
+}
+
+export function httpPut(
+  name: GWStepName,
+  options: HttpCallOptions
+): NamedWorkflowStep {
+  return httpStep('http.put', name, options, httpPut)
+}
+
+export function httpPatch(
+  name: GWStepName,
+  options: HttpCallOptions
+): NamedWorkflowStep {
+  return httpStep('http.patch', name, options, httpPatch)
+}
+
+export function httpDelete(
+  name: GWStepName,
+  options: HttpCallOptions
+): NamedWorkflowStep {
+  return httpStep('http.delete', name, options, httpDelete)
+}
+
+export function httpRequest(
+  name: GWStepName,
+  options: HttpCallOptions & { method: HttpMethod | GWExpression }
+): NamedWorkflowStep {
+  return httpStep('http.request', name, options, httpRequest, options.method)
+}
+
+// A call step, or a try step around the call step if options.retry is set. In
+// the latter case, the try step gets the given name and the call step is
+// named <name>_call.
+function httpStep(
+  target: string,
+  name: GWStepName,
+  options: HttpCallOptions,
+  builder: (...args: never[]) => NamedWorkflowStep,
+  method?: HttpMethod | GWExpression
+): NamedWorkflowStep {
+  const source = callerLocation(builder)
+  const args = Object.fromEntries(
+    Object.entries({
+      method,
+      url: options.url,
+      query: options.query,
+      headers: options.headers,
+      body: options.body,
+      auth: options.auth,
+      timeout: options.timeout,
+      private_service_name: options.privateServiceName,
+    }).filter(([, x]) => typeof x !== 'undefined')
+  ) as GWArguments
+
+  if (!options.retry) {
+    return {
+      ...call(name, {
+        call: target,
+        args,
+        result: options.result,
+        next: options.next,
+      }),
+      source,
+    }
+  }
+
+  const callStep = {
+    ...call(`${name}_call`, { call: target, args, result: options.result }),
+    source,
+  }
+  return {
+    ...tryExcept(name, {
+      steps: [callStep],
+      retryPolicy:
+        options.retry === true ? 'http.default_retry' : options.retry,
+      exceptSteps: [],
+      next: options.next,
+    }),
+    source,
+  }
+}
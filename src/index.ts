@@ -8,6 +8,10 @@ export {
 export {
   AssignStep,
   CallStep,
+  ConnectorParams,
+  ForStep,
+  NextStep,
+  Parallel,
   RaiseStep,
   ReturnStep,
   StepsStep,
@@ -17,21 +21,152 @@ export {
   GWStepName,
   GWAssignment,
   GWArguments,
+  SourceLocation,
   assign,
+  breakLoop,
+  breakStep,
   call,
   condition,
+  continueLoop,
+  continueStep,
   end,
+  forStep,
+  jump,
+  parallel,
   raise,
   returnStep,
   stepsStep,
   switchStep,
   tryExcept,
+  withDescription,
 } from './steps'
 export {
   MainWorkflow,
   Subworkflow,
   WorkflowApp,
   WorkflowParameter,
+  YAMLOptions,
+  toJSONString,
   toYAMLString,
 } from './workflows'
-export { WorkflowIssue, WorkflowValidationError, validate } from './validation'
+export { toDot, toMermaid } from './diagrams'
+export {
+  HttpAuth,
+  HttpCallOptions,
+  HttpMethod,
+  httpDelete,
+  httpGet,
+  httpPatch,
+  httpPost,
+  httpPut,
+  httpRequest,
+} from './http'
+export { ConnectorCallOptions, connectors } from './connectors'
+export {
+  DiscoveryDocument,
+  DiscoveryMethod,
+  DiscoveryParameter,
+  DiscoveryResource,
+  DiscoverySchema,
+  generateConnectors,
+  loadDiscoveryDocuments,
+} from './connectorgen'
+export {
+  SourceMapEntry,
+  WorkflowSourceMap,
+  buildSourceMap,
+  formatSourceMapEntry,
+  lookupSource,
+} from './sourcemap'
+export {
+  CustomValidator,
+  IssueSeverity,
+  RuleSetting,
+  StepValidatorContext,
+  ValidateOptions,
+  ValidatorContext,
+  WorkflowIssue,
+  WorkflowIssueLocation,
+  WorkflowValidationError,
+  validate,
+} from './validation'
+export {
+  WorkflowParseError,
+  fromJSON,
+  fromYAMLString,
+  parseWorkflowApp,
+} from './parser'
+export { CodegenOptions, toTypeScript } from './codegen'
+export { CallGraph, CallGraphEdge, buildCallGraph } from './callgraph'
+export {
+  ControlFlowEdge,
+  ControlFlowGraph,
+  ControlFlowNode,
+  EdgeKind,
+  buildControlFlowGraph,
+  entryNode,
+  exitNode,
+} from './cfg'
+export {
+  ExecutionPath,
+  PathCall,
+  PathOptions,
+  TestSkeletonOptions,
+  enumeratePaths,
+  toTestSkeletons,
+} from './paths'
+export {
+  ExecutionObserver,
+  ExecutionOptions,
+  ExecutionResult,
+  ExpressionFunction,
+  RuntimeFunctionHandler,
+  executeWorkflow,
+} from './interpreter'
+export {
+  StdlibFunction,
+  StdlibParameter,
+  StdlibType,
+  getStdlibFunction,
+  stdlibFunctions,
+} from './stdlib'
+export {
+  ConditionCoverage,
+  CoverageCount,
+  CoverageReport,
+  CoverageSummary,
+  ExceptBlockCoverage,
+  StepCoverage,
+  WorkflowCoverage,
+  WorkflowCoverageReport,
+  summarizeCoverage,
+  toLcov,
+} from './coverage'
+export {
+  RecordedCall,
+  TestRunOptions,
+  TracedStep,
+  WorkflowAssertionError,
+  WorkflowTestRun,
+  runWorkflow,
+} from './testing'
+export {
+  BinaryOperator,
+  Expression,
+  ExpressionSyntaxError,
+  UnaryOperator,
+  WorkflowRuntimeError,
+  evaluateExpression,
+  parseExpression,
+  printExpression,
+} from './expressions'
+export {
+  ExpressionBuilder,
+  ExpressionLike,
+  and,
+  fn,
+  lit,
+  not,
+  or,
+  v,
+} from './expressionBuilder'
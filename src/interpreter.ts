@@ -0,0 +1,988 @@
+import {
+  AsyncEvaluationContext,
+  Expression,
+  MaybePromise,
+  WorkflowRuntimeError,
+  andThen,
+  evaluateAsync,
+  getIndex,
+  hasKey,
+  isMap,
+  parseExpression,
+  raiseRuntimeError,
+  sequence,
+} from './expressions'
+import {
+  AssignStep,
+  CallStep,
+  CustomRetryPolicy,
+  ForStep,
+  NamedWorkflowStep,
+  NextStep,
+  Parallel,
+  RaiseStep,
+  ReturnStep,
+  StepsStep,
+  SwitchStep,
+  TryExceptStep,
+  breakLoop,
+  continueLoop,
+} from './steps'
+import { GWExpression, GWValue } from './variables'
+import { BaseWorkflow, Subworkflow, WorkflowApp } from './workflows'
+
+/**
+ * A runtime function invoked by a call step, such as http.get. Receives the
+ * evaluated arguments of the call step.
+ */
+export type RuntimeFunctionHandler = (
+  args: Record<string, unknown>
+) => unknown | Promise<unknown>
+
+/**
+ * A function that can be called in expressions, such as len(). Receives the
+ * evaluated positional arguments. May return a promise.
+ */
+export type ExpressionFunction = (...args: unknown[]) => unknown
+
+/**
+ * Callbacks that follow the progress of an execution. The workflow is the name
+ * of the workflow that executes the step.
+ */
+export interface ExecutionObserver {
+  // Called before a step, including a nested step, is executed
+  onStep?: (event: { workflow: string; step: string }) => void
+  // Called when a call step calls a subworkflow or a runtime function
+  onCall?: (event: {
+    workflow: string
+    step: string
+    target: string
+    args: Record<string, unknown>
+  }) => void
+  // Called when an expression calls a function other than a subworkflow. The
+  // step is undefined for the default values of parameters.
+  onFunctionCall?: (event: {
+    workflow: string
+    step: string | undefined
+    name: string
+    args: unknown[]
+  }) => void
+  // Called when a condition of a switch step matches
+  onCondition?: (event: {
+    workflow: string
+    step: string
+    index: number
+  }) => void
+  // Called when a try step catches an error and executes its except block
+  onErrorCaught?: (event: { workflow: string; step: string }) => void
+  // Called when a workflow invocation returns or raises an error. The
+  // variables are the ones defined on the top level of the workflow.
+  onWorkflowExit?: (event: {
+    workflow: string
+    variables: Record<string, unknown>
+  }) => void
+}
+
+export interface ExecutionOptions {
+  // Handlers for runtime functions called by call steps, by function name
+  handlers?: Record<string, RuntimeFunctionHandler>
+  // Functions available in expressions. Overrides the built-in functions.
+  functions?: Record<string, ExpressionFunction>
+  // Called to wait between retries and on sys.sleep
+  sleep?: (seconds: number) => Promise<void>
+  observer?: ExecutionObserver
+}
+
+export type ExecutionResult =
+  | { status: 'succeeded'; result: unknown }
+  | { status: 'failed'; error: unknown }
+
+/**
+ * Execute a workflow locally.
+ *
+ * Returns the value returned by the main workflow or the error that was raised
+ * and not caught. Runtime functions (http.get, etc.) are executed by the
+ * handlers given in the options.
+ *
+ * Rejects the promise if the workflow can't be executed, for example, because
+ * it calls a runtime function that has no handler.
+ */
+export async function executeWorkflow(
+  app: WorkflowApp,
+  args?: unknown,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResult> {
+  const interpreter = new Interpreter(app, options)
+  const mainArgs: Record<string, unknown> = {}
+  const argumentName = app.mainWorkflow.params?.[0]?.name
+  if (argumentName) {
+    mainArgs[argumentName] = args ?? null
+  }
+
+  try {
+    const result = await interpreter.runWorkflow(app.mainWorkflow, mainArgs)
+    return { status: 'succeeded', result }
+  } catch (err) {
+    if (err instanceof WorkflowRuntimeError) {
+      return { status: 'failed', error: err.value }
+    } else {
+      throw err
+    }
+  }
+}
+
+// The outcome of executing a step or a list of steps
+type Completion =
+  | { type: 'normal' }
+  | { type: 'jump'; target: string }
+  | { type: 'return'; value: unknown }
+
+const normalCompletion: Completion = { type: 'normal' }
+
+/**
+ * Variables of a workflow invocation. Child environments are created for loop
+ * bodies and parallel branches.
+ */
+class Environment {
+  // The name of the workflow
+  readonly workflow: string
+  private readonly variables: Map<string, unknown> = new Map()
+  private readonly parent?: Environment
+  // Variables of the parent environment that can be assigned in this
+  // environment. Parallel branches can only write shared variables.
+  private readonly writableParentVariables?: Set<string>
+
+  constructor(
+    workflow: string,
+    parent?: Environment,
+    writableParentVariables?: Set<string>
+  ) {
+    this.workflow = workflow
+    this.parent = parent
+    this.writableParentVariables = writableParentVariables
+  }
+
+  has(name: string): boolean {
+    return this.variables.has(name) || (this.parent?.has(name) ?? false)
+  }
+
+  get(name: string): unknown {
+    if (this.variables.has(name)) {
+      return this.variables.get(name)
+    } else if (this.parent) {
+      return this.parent.get(name)
+    } else {
+      raiseRuntimeError('KeyError', `Variable not found: ${name}`)
+    }
+  }
+
+  // Copies of the variables defined in this environment
+  snapshot(): Record<string, unknown> {
+    return Object.fromEntries(
+      Array.from(this.variables.entries()).map(([k, v]) => [k, copyValue(v)])
+    )
+  }
+
+  // Create a variable in this environment
+  define(name: string, value: unknown): void {
+    this.variables.set(name, value)
+  }
+
+  // Assign a variable, creating it if it doesn't exist yet
+  set(name: string, value: unknown): void {
+    if (this.variables.has(name) || !this.parent?.has(name)) {
+      this.variables.set(name, value)
+    } else if (
+      !this.writableParentVariables ||
+      this.writableParentVariables.has(name)
+    ) {
+      this.parent.set(name, value)
+    } else {
+      raiseRuntimeError(
+        'ValueError',
+        `Variable "${name}" is not shared and can't be assigned in a parallel branch`
+      )
+    }
+  }
+}
+
+const defaultRetryPolicy = {
+  maxRetries: 5,
+  backoff: { initialDelay: 1, maxDelay: 60, multiplier: 1.25 },
+}
+
+class Interpreter {
+  private readonly subworkflows: Map<string, Subworkflow>
+  private readonly handlers: Record<string, RuntimeFunctionHandler>
+  private readonly functions: Record<string, ExpressionFunction>
+  private readonly sleep: (seconds: number) => Promise<void>
+  private readonly observer: ExecutionObserver
+  private readonly parsedExpressions: Map<string, Expression> = new Map()
+
+  constructor(app: WorkflowApp, options: ExecutionOptions) {
+    this.subworkflows = new Map(app.subworkflows.map((w) => [w.name, w]))
+    this.sleep = options.sleep ?? defaultSleep
+    this.observer = options.observer ?? {}
+    this.functions = { ...builtinFunctions, ...options.functions }
+    this.handlers = {
+      'sys.log': () => null,
+      'sys.sleep': async (args) => {
+        await this.sleep(Number(args.seconds))
+        return null
+      },
+      ...options.handlers,
+    }
+  }
+
+  async runWorkflow(
+    workflow: BaseWorkflow,
+    args: Record<string, unknown>
+  ): Promise<unknown> {
+    const env = new Environment(workflow.name)
+    try {
+      return await this.runWorkflowSteps(workflow, args, env)
+    } finally {
+      this.observer.onWorkflowExit?.({
+        workflow: workflow.name,
+        variables: env.snapshot(),
+      })
+    }
+  }
+
+  private async runWorkflowSteps(
+    workflow: BaseWorkflow,
+    args: Record<string, unknown>,
+    env: Environment
+  ): Promise<unknown> {
+    for (const param of workflow.params ?? []) {
+      if (hasKey(args, param.name)) {
+        env.define(param.name, args[param.name])
+      } else if (typeof param.default !== 'undefined') {
+        env.define(
+          param.name,
+          await this.evaluateValue(param.default, env, undefined)
+        )
+      } else {
+        raiseRuntimeError(
+          'TypeError',
+          `Missing required argument "${param.name}" for workflow "${workflow.name}"`
+        )
+      }
+    }
+
+    const extraArgs = Object.keys(args).filter(
+      (name) => !(workflow.params ?? []).some((p) => p.name === name)
+    )
+    if (extraArgs.length > 0) {
+      raiseRuntimeError(
+        'TypeError',
+        `Unexpected arguments for workflow "${workflow.name}": ${extraArgs.join(
+          ', '
+        )}`
+      )
+    }
+
+    const completion = await this.executeSteps(workflow.steps, env)
+    if (completion.type === 'return') {
+      return completion.value
+    } else if (completion.type === 'jump' && completion.target !== 'end') {
+      throw new Error(
+        `Jump target "${completion.target}" not found in workflow "${workflow.name}"`
+      )
+    } else {
+      return null
+    }
+  }
+
+  private async executeSteps(
+    steps: NamedWorkflowStep[],
+    env: Environment
+  ): Promise<Completion> {
+    let i = 0
+    while (i < steps.length) {
+      const stepCompletion = await this.executeStep(steps[i], env)
+
+      // The step's own next applies when the step completes normally
+      const next = steps[i].step.next
+      const completion: Completion =
+        stepCompletion.type === 'normal' && next
+          ? { type: 'jump', target: next }
+          : stepCompletion
+
+      if (completion.type === 'jump') {
+        // Jumps to steps on outer levels are handled by the callers
+        const targetIndex = steps.findIndex((x) => x.name === completion.target)
+        if (targetIndex < 0) {
+          return completion
+        }
+        i = targetIndex
+      } else if (completion.type === 'return') {
+        return completion
+      } else {
+        i += 1
+      }
+    }
+
+    return normalCompletion
+  }
+
+  private async executeStep(
+    { name, step }: NamedWorkflowStep,
+    env: Environment
+  ): Promise<Completion> {
+    this.observer.onStep?.({ workflow: env.workflow, step: name })
+
+    if (step instanceof AssignStep) {
+      for (const [target, value] of step.assignments) {
+        // An assignment without asynchronous function calls completes
+        // without yielding. This makes it atomic in parallel branches.
+        await andThen(this.evaluateValue(value, env, name), (x) =>
+          this.assign(target, x, env, name)
+        )
+      }
+      return normalCompletion
+    } else if (step instanceof CallStep) {
+      const result = await this.call(name, step, env)
+      if (step.result) {
+        env.set(step.result, result)
+      }
+      return normalCompletion
+    } else if (step instanceof SwitchStep) {
+      return this.executeSwitch(name, step, env)
+    } else if (step instanceof TryExceptStep) {
+      return this.executeTry(name, step, env)
+    } else if (step instanceof ForStep) {
+      return this.executeFor(name, step, env)
+    } else if (step instanceof Parallel) {
+      return this.executeParallel(name, step, env)
+    } else if (step instanceof StepsStep) {
+      return this.executeSteps(step.steps, env)
+    } else if (step instanceof RaiseStep) {
+      throw new WorkflowRuntimeError(
+        await this.evaluateValue(step.value, env, name)
+      )
+    } else if (step instanceof ReturnStep) {
+      return {
+        type: 'return',
+        value: await this.evaluateValue(step.value, env, name),
+      }
+    } else if (step instanceof NextStep) {
+      // The jump is handled by executeSteps()
+      return normalCompletion
+    } else {
+      throw new Error(`Unsupported step type in step "${name}"`)
+    }
+  }
+
+  private async call(
+    name: string,
+    step: CallStep,
+    env: Environment
+  ): Promise<unknown> {
+    const args: Record<string, unknown> = {}
+    for (const [k, v] of Object.entries(step.args ?? {})) {
+      args[k] = await this.evaluateValue(v, env, name)
+    }
+    this.observer.onCall?.({
+      workflow: env.workflow,
+      step: name,
+      target: step.call,
+      args: copyValue(args) as Record<string, unknown>,
+    })
+
+    const subworkflow = this.subworkflows.get(step.call)
+    if (subworkflow) {
+      return this.runWorkflow(subworkflow, args)
+    }
+
+    const handler = hasKey(this.handlers, step.call)
+      ? this.handlers[step.call]
+      : null
+    if (!handler) {
+      throw new Error(`No handler for the runtime function "${step.call}"`)
+    }
+
+    try {
+      return copyValue(await handler(args))
+    } catch (err) {
+      if (err instanceof WorkflowRuntimeError) {
+        throw err
+      } else {
+        throw new WorkflowRuntimeError({
+          message: err instanceof Error ? err.message : String(err),
+          tags: ['RuntimeError'],
+        })
+      }
+    }
+  }
+
+  private async executeSwitch(
+    name: string,
+    step: SwitchStep,
+    env: Environment
+  ): Promise<Completion> {
+    for (const [index, cond] of step.conditions.entries()) {
+      const conditionValue = await this.evaluateValue(cond.condition, env, name)
+      if (typeof conditionValue !== 'boolean') {
+        raiseRuntimeError('TypeError', 'Switch condition must be a boolean')
+      }
+
+      if (conditionValue) {
+        this.observer.onCondition?.({
+          workflow: env.workflow,
+          step: name,
+          index,
+        })
+
+        if (cond.next) {
+          return { type: 'jump', target: cond.next }
+        }
+
+        return this.executeSteps(cond.steps, env)
+      }
+    }
+
+    return normalCompletion
+  }
+
+  private async executeTry(
+    name: string,
+    step: TryExceptStep,
+    env: Environment
+  ): Promise<Completion> {
+    const policy =
+      typeof step.retryPolicy === 'string'
+        ? { predicate: step.retryPolicy, ...defaultRetryPolicy }
+        : step.retryPolicy
+    let retries = 0
+    let delay = policy?.backoff.initialDelay ?? 0
+
+    for (;;) {
+      try {
+        return await this.executeSteps(step.trySteps, env)
+      } catch (err) {
+        if (!(err instanceof WorkflowRuntimeError)) {
+          throw err
+        }
+
+        if (
+          policy &&
+          retries < policy.maxRetries &&
+          (await this.shouldRetry(policy.predicate, err.value))
+        ) {
+          retries += 1
+          await this.sleep(delay)
+          delay = Math.min(
+            delay * policy.backoff.multiplier,
+            policy.backoff.maxDelay
+          )
+          continue
+        }
+
+        if (step.exceptSteps.length === 0 && !step.errorMap) {
+          throw err
+        }
+
+        this.observer.onErrorCaught?.({ workflow: env.workflow, step: name })
+        if (step.errorMap) {
+          env.set(step.errorMap, err.value)
+        }
+        return this.executeSteps(step.exceptSteps, env)
+      }
+    }
+  }
+
+  private async shouldRetry(
+    predicate: CustomRetryPolicy['predicate'] | string,
+    error: unknown
+  ): Promise<boolean> {
+    if (typeof predicate === 'string') {
+      return defaultRetryPredicate(predicate, error)
+    }
+
+    const paramName = predicate.params?.[0]?.name
+    const args = paramName ? { [paramName]: error } : {}
+    const result = await this.runWorkflow(predicate, args)
+    if (typeof result !== 'boolean') {
+      raiseRuntimeError(
+        'TypeError',
+        `Retry predicate "${predicate.name}" must return a boolean`
+      )
+    }
+
+    return result
+  }
+
+  private async executeFor(
+    name: string,
+    step: ForStep,
+    env: Environment
+  ): Promise<Completion> {
+    for (const [index, value] of (
+      await this.loopItems(name, step, env)
+    ).entries()) {
+      const completion = await this.executeSteps(
+        step.steps,
+        this.loopEnvironment(step, index, value, env)
+      )
+      if (isLoopJump(completion, breakLoop)) {
+        break
+      } else if (
+        completion.type !== 'normal' &&
+        !isLoopJump(completion, continueLoop)
+      ) {
+        return completion
+      }
+    }
+
+    return normalCompletion
+  }
+
+  private async loopItems(
+    name: string,
+    step: ForStep,
+    env: Environment
+  ): Promise<unknown[]> {
+    if (typeof step.listExpression === 'undefined') {
+      const items: number[] = []
+      for (
+        let i = step.rangeStart ?? 0;
+        i <= (step.rangeEnd ?? -Infinity);
+        i++
+      ) {
+        items.push(i)
+      }
+      return items
+    }
+
+    const list = await this.evaluateValue(step.listExpression, env, name)
+    if (Array.isArray(list)) {
+      return list
+    } else if (isMap(list)) {
+      return Object.keys(list)
+    } else {
+      raiseRuntimeError('TypeError', 'A for loop requires a list or a map')
+    }
+  }
+
+  // Loop variables are local to the loop body
+  private loopEnvironment(
+    step: ForStep,
+    index: number,
+    value: unknown,
+    parent: Environment
+  ): Environment {
+    const loopEnv = new Environment(parent.workflow, parent)
+    loopEnv.define(step.loopVariableName, value)
+    if (step.indexVariableName) {
+      loopEnv.define(step.indexVariableName, index)
+    }
+    return loopEnv
+  }
+
+  private async executeParallel(
+    name: string,
+    step: Parallel,
+    env: Environment
+  ): Promise<Completion> {
+    const shared = new Set(step.shared ?? [])
+    let tasks: (() => Promise<Completion>)[]
+
+    if (step.forStep) {
+      const forStep = step.forStep
+      // A break skips the iterations that haven't started yet
+      let breakExecuted = false
+      tasks = (await this.loopItems(name, forStep, env)).map(
+        (value, index) => async () => {
+          if (breakExecuted) {
+            return normalCompletion
+          }
+
+          const branchEnv = new Environment(env.workflow, env, shared)
+          const completion = await this.executeSteps(
+            forStep.steps,
+            this.loopEnvironment(forStep, index, value, branchEnv)
+          )
+          if (isLoopJump(completion, breakLoop)) {
+            breakExecuted = true
+            return normalCompletion
+          } else if (isLoopJump(completion, continueLoop)) {
+            return normalCompletion
+          } else {
+            return completion
+          }
+        }
+      )
+    } else {
+      tasks = (step.branches ?? []).map(
+        (branch) => () =>
+          this.executeStep(branch, new Environment(env.workflow, env, shared))
+      )
+    }
+
+    const completions = await runConcurrently(tasks, step.concurrenceLimit)
+    if (completions.some((x) => x.type !== 'normal')) {
+      throw new Error(`Parallel step "${name}" can't return or jump out`)
+    }
+
+    return normalCompletion
+  }
+
+  // Assign a value to a variable or to an element of a list or a map,
+  // as in "my_list[0]" or "my_map.key"
+  private assign(
+    target: string,
+    value: unknown,
+    env: Environment,
+    step: string
+  ): MaybePromise<void> {
+    const ex = this.parse(target)
+    if (ex.type === 'variable') {
+      env.set(ex.name, value)
+      return
+    }
+
+    if (ex.type !== 'member' && ex.type !== 'index') {
+      throw new Error(`Invalid assignment target: ${target}`)
+    }
+
+    return andThen(
+      this.resolveAssignmentContainer(ex.object, env, step),
+      (container) =>
+        andThen(this.assignmentKey(ex, env, step), (key) =>
+          setElement(container, key, value)
+        )
+    )
+  }
+
+  // Evaluates the container of an assignment target. Missing map keys on the
+  // path are created.
+  private resolveAssignmentContainer(
+    ex: Expression,
+    env: Environment,
+    step: string
+  ): MaybePromise<unknown> {
+    if (ex.type === 'variable') {
+      return env.get(ex.name)
+    } else if (ex.type === 'member' || ex.type === 'index') {
+      return andThen(
+        this.resolveAssignmentContainer(ex.object, env, step),
+        (parent) =>
+          andThen(this.assignmentKey(ex, env, step), (key) => {
+            if (
+              isMap(parent) &&
+              typeof key === 'string' &&
+              !hasKey(parent, key)
+            ) {
+              parent[key] = {}
+            }
+            return getIndex(parent, key)
+          })
+      )
+    } else {
+      throw new Error('Invalid assignment target')
+    }
+  }
+
+  private assignmentKey(
+    ex: Extract<Expression, { type: 'member' | 'index' }>,
+    env: Environment,
+    step: string
+  ): MaybePromise<unknown> {
+    return ex.type === 'member'
+      ? ex.property
+      : evaluateAsync(ex.index, this.evaluationContext(env, step))
+  }
+
+  // Returns a promise only if the value calls an asynchronous function
+  private evaluateValue(
+    val: GWValue,
+    env: Environment,
+    step: string | undefined
+  ): MaybePromise<unknown> {
+    if (val instanceof GWExpression) {
+      return andThen(
+        evaluateAsync(
+          this.parse(val.expression),
+          this.evaluationContext(env, step)
+        ),
+        copyValue
+      )
+    } else if (Array.isArray(val)) {
+      return sequence(val.map((x) => () => this.evaluateValue(x, env, step)))
+    } else if (val !== null && typeof val === 'object') {
+      const entries = Object.entries(val)
+      return andThen(
+        sequence(
+          entries.map(
+            ([, v]) =>
+              () =>
+                this.evaluateValue(v, env, step)
+          )
+        ),
+        (values) => Object.fromEntries(entries.map(([k], i) => [k, values[i]]))
+      )
+    } else {
+      return val
+    }
+  }
+
+  // The step is undefined for the default values of parameters
+  private evaluationContext(
+    env: Environment,
+    step: string | undefined
+  ): AsyncEvaluationContext {
+    return {
+      lookupVariable: (name) => env.get(name),
+      callFunction: (name, args) => {
+        const subworkflow = this.subworkflows.get(name)
+        if (subworkflow) {
+          return this.runWorkflow(
+            subworkflow,
+            positionalArguments(subworkflow, args)
+          )
+        }
+
+        const fn = hasKey(this.functions, name) ? this.functions[name] : null
+        if (!fn) {
+          throw new Error(`No handler for the runtime function "${name}"`)
+        }
+        this.observer.onFunctionCall?.({
+          workflow: env.workflow,
+          step,
+          name,
+          args: copyValue(args) as unknown[],
+        })
+        return fn(...args)
+      },
+    }
+  }
+
+  private parse(expression: string): Expression {
+    let parsed = this.parsedExpressions.get(expression)
+    if (!parsed) {
+      parsed = parseExpression(expression)
+      this.parsedExpressions.set(expression, parsed)
+    }
+    return parsed
+  }
+}
+
+// Arguments of a subworkflow called in an expression, named by the parameters
+function positionalArguments(
+  workflow: BaseWorkflow,
+  args: unknown[]
+): Record<string, unknown> {
+  const params = workflow.params ?? []
+  if (args.length > params.length) {
+    raiseRuntimeError(
+      'TypeError',
+      `Too many arguments for workflow "${workflow.name}"`
+    )
+  }
+
+  return Object.fromEntries(args.map((x, i) => [params[i].name, x]))
+}
+
+function setElement(container: unknown, key: unknown, value: unknown): void {
+  if (Array.isArray(container)) {
+    // Validates the index
+    getIndex(container, key)
+    container[key as number] = value
+  } else if (isMap(container)) {
+    if (typeof key !== 'string') {
+      raiseRuntimeError('TypeError', 'Map key must be a string')
+    }
+    container[key] = value
+  } else {
+    raiseRuntimeError('TypeError', 'Only lists and maps can be assigned to')
+  }
+}
+
+// Workflows variables have value semantics. Copy lists and maps so that
+// assignments don't create aliases.
+function copyValue(val: unknown): unknown {
+  if (Array.isArray(val)) {
+    return val.map(copyValue)
+  } else if (isMap(val)) {
+    return Object.fromEntries(
+      Object.entries(val).map(([k, v]) => [k, copyValue(v)])
+    )
+  } else {
+    return typeof val === 'undefined' ? null : val
+  }
+}
+
+function isLoopJump(completion: Completion, target: string): boolean {
+  return completion.type === 'jump' && completion.target === target
+}
+
+async function runConcurrently<T>(
+  tasks: (() => Promise<T>)[],
+  concurrencyLimit?: number
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length)
+  let nextTask = 0
+
+  async function worker() {
+    while (nextTask < tasks.length) {
+      const i = nextTask
+      nextTask += 1
+      results[i] = await tasks[i]()
+    }
+  }
+
+  const workerCount = Math.min(concurrencyLimit ?? tasks.length, tasks.length)
+  await Promise.all(Array.from({ length: workerCount }, worker))
+
+  return results
+}
+
+// https://cloud.google.com/workflows/docs/reference/syntax/retrying#default-retry-policy
+function defaultRetryPredicate(policyName: string, error: unknown): boolean {
+  const nonIdempotent =
+    policyName === 'http.default_retry_non_idempotent' ||
+    policyName === 'http.default_retry_predicate_non_idempotent'
+  const retryableCodes = nonIdempotent ? [429, 503] : [429, 502, 503, 504]
+  const retryableTags = nonIdempotent
+    ? ['ConnectionFailedError']
+    : ['ConnectionError', 'ConnectionFailedError', 'TimeoutError']
+
+  if (!isMap(error)) {
+    return false
+  }
+
+  const tags = Array.isArray(error.tags) ? error.tags : []
+  return (
+    retryableCodes.includes(error.code as number) ||
+    tags.some((tag) => retryableTags.includes(tag as string))
+  )
+}
+
+function defaultSleep(seconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, seconds * 1000))
+}
+
+function typeName(val: unknown): string {
+  if (val === null) {
+    return 'null'
+  } else if (typeof val === 'number') {
+    return Number.isInteger(val) ? 'integer' : 'double'
+  } else if (typeof val === 'string') {
+    return 'string'
+  } else if (typeof val === 'boolean') {
+    return 'boolean'
+  } else if (Array.isArray(val)) {
+    return 'list'
+  } else {
+    return 'map'
+  }
+}
+
+function expectList(val: unknown, functionName: string): unknown[] {
+  if (!Array.isArray(val)) {
+    raiseRuntimeError('TypeError', `${functionName}() requires a list`)
+  }
+  return val
+}
+
+function expectMap(
+  val: unknown,
+  functionName: string
+): Record<string, unknown> {
+  if (!isMap(val)) {
+    raiseRuntimeError('TypeError', `${functionName}() requires a map`)
+  }
+  return val
+}
+
+function expectString(val: unknown, functionName: string): string {
+  if (typeof val !== 'string') {
+    raiseRuntimeError('TypeError', `${functionName}() requires a string`)
+  }
+  return val
+}
+
+// A subset of the standard library functions that are available in
+// expressions
+// https://cloud.google.com/workflows/docs/reference/stdlib/overview
+const builtinFunctions: Record<string, ExpressionFunction> = {
+  default: (val, defaultValue) => (val === null ? defaultValue : val),
+  double: (val) => {
+    const result = Number(val)
+    if (typeof val === 'boolean' || Number.isNaN(result)) {
+      raiseRuntimeError('ValueError', `Can't convert to double: ${val}`)
+    }
+    return result
+  },
+  int: (val) => {
+    const result = typeof val === 'string' ? Number(val) : val
+    if (typeof result !== 'number' || !Number.isFinite(result)) {
+      raiseRuntimeError('ValueError', `Can't convert to int: ${val}`)
+    }
+    return Math.trunc(result)
+  },
+  keys: (val) => Object.keys(expectMap(val, 'keys')),
+  len: (val) => {
+    if (typeof val === 'string' || Array.isArray(val)) {
+      return val.length
+    } else if (isMap(val)) {
+      return Object.keys(val).length
+    } else {
+      raiseRuntimeError('TypeError', 'len() requires a string, list or map')
+    }
+  },
+  string: (val) => {
+    if (typeof val === 'string') {
+      return val
+    } else if (typeof val === 'number' || typeof val === 'boolean') {
+      return String(val)
+    } else {
+      raiseRuntimeError(
+        'TypeError',
+        `Can't convert to string: ${typeName(val)}`
+      )
+    }
+  },
+  type: typeName,
+  'json.decode': (val) => {
+    try {
+      return JSON.parse(expectString(val, 'json.decode'))
+    } catch {
+      raiseRuntimeError('ValueError', 'Invalid JSON')
+    }
+  },
+  'json.encode_to_string': (val) => JSON.stringify(val),
+  'list.concat': (list, val) => [...expectList(list, 'list.concat'), val],
+  'list.prepend': (list, val) => [val, ...expectList(list, 'list.prepend')],
+  'map.get': (map, key) => {
+    const m = expectMap(map, 'map.get')
+    return typeof key === 'string' && hasKey(m, key) ? m[key] : null
+  },
+  'map.merge': (first, second) => ({
+    ...expectMap(first, 'map.merge'),
+    ...expectMap(second, 'map.merge'),
+  }),
+  'math.abs': (val) => Math.abs(val as number),
+  'math.floor': (val) => Math.floor(val as number),
+  'math.max': (a, b) => Math.max(a as number, b as number),
+  'math.min': (a, b) => Math.min(a as number, b as number),
+  'sys.now': () => Date.now() / 1000,
+  'text.split': (source, separator) =>
+    expectString(source, 'text.split').split(
+      expectString(separator, 'text.split')
+    ),
+  'text.replace_all': (source, substr, repl) =>
+    expectString(source, 'text.replace_all')
+      .split(expectString(substr, 'text.replace_all'))
+      .join(expectString(repl, 'text.replace_all')),
+  'text.substring': (source, start, end) =>
+    expectString(source, 'text.substring').substring(
+      start as number,
+      end as number
+    ),
+  'text.to_lower': (source) =>
+    expectString(source, 'text.to_lower').toLowerCase(),
+  'text.to_upper': (source) =>
+    expectString(source, 'text.to_upper').toUpperCase(),
+}
@@ -0,0 +1,734 @@
+import * as YAML from 'yaml'
+
+import { ExpressionBuilder } from './expressionBuilder'
+import { parseExpression as parseExpressionAST } from './expressions'
+import {
+  AssignStep,
+  CallStep,
+  ConnectorParams,
+  CustomRetryPolicy,
+  DefaultRetryPolicy,
+  DefaultRetryPredicate,
+  ForStep,
+  GWArguments,
+  GWAssignment,
+  GWStepName,
+  NamedWorkflowStep,
+  NextStep,
+  Parallel,
+  RaiseStep,
+  ReturnStep,
+  StepsStep,
+  SwitchCondition,
+  SwitchStep,
+  TryExceptStep,
+  WorkflowStep,
+} from './steps'
+import { GWExpression, GWValue, GWVariableName } from './variables'
+import {
+  MainWorkflow,
+  Subworkflow,
+  WorkflowApp,
+  WorkflowParameter,
+} from './workflows'
+
+export class WorkflowParseError extends Error {
+  // Location of the offending block, e.g. "main.steps[2].log_step"
+  path: string
+
+  constructor(message: string, path: string) {
+    super(path ? `${message} (at ${path})` : message)
+    this.name = this.constructor.name
+    this.path = path
+  }
+}
+
+type ParsedObject = Record<string, unknown>
+
+/**
+ * Parse a Workflows definition in the YAML format.
+ *
+ * Throws a WorkflowParseError if the source is not a valid workflow definition.
+ */
+export function fromYAMLString(source: string): WorkflowApp {
+  let parsed: unknown
+  try {
+    parsed = YAML.parse(source)
+  } catch (err) {
+    throw new WorkflowParseError(`Invalid YAML: ${errorMessage(err)}`, '')
+  }
+
+  return parseWorkflowApp(parsed)
+}
+
+/**
+ * Parse a Workflows definition in the JSON format.
+ *
+ * Throws a WorkflowParseError if the source is not a valid workflow definition.
+ */
+export function fromJSON(source: string): WorkflowApp {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(source)
+  } catch (err) {
+    throw new WorkflowParseError(`Invalid JSON: ${errorMessage(err)}`, '')
+  }
+
+  return parseWorkflowApp(parsed)
+}
+
+/**
+ * Build a WorkflowApp from an already deserialized workflow definition.
+ */
+export function parseWorkflowApp(definition: unknown): WorkflowApp {
+  // A workflow without subworkflows can be written as a plain list of steps
+  if (Array.isArray(definition)) {
+    const parser = new DefinitionParser(new Map())
+    return new WorkflowApp(
+      new MainWorkflow(parser.parseSteps(definition, 'main.steps'))
+    )
+  }
+
+  const workflows = expectObject(definition, '')
+  if (!('main' in workflows)) {
+    throw new WorkflowParseError('The main workflow is missing', '')
+  }
+
+  // Subworkflows are created before parsing the steps so that retry
+  // predicates can refer to them
+  const subworkflowBodies = Object.entries(workflows).filter(
+    ([name]) => name !== 'main'
+  )
+  const subworkflowsByName = new Map(
+    subworkflowBodies.map(([name, body]) => {
+      const params = parseParams(body, name)
+      return [name, new Subworkflow(name, [], params)]
+    })
+  )
+  const parser = new DefinitionParser(subworkflowsByName)
+
+  for (const [name, body] of subworkflowBodies) {
+    const subworkflow = subworkflowsByName.get(name) as Subworkflow
+    subworkflow.steps.push(...parser.parseWorkflowSteps(body, name))
+  }
+
+  const mainParams = parseParams(workflows.main, 'main')
+  if (mainParams && (mainParams.length !== 1 || 'default' in mainParams[0])) {
+    throw new WorkflowParseError(
+      'The main workflow accepts exactly one parameter without a default value',
+      'main.params'
+    )
+  }
+
+  const mainWorkflow = new MainWorkflow(
+    parser.parseWorkflowSteps(workflows.main, 'main'),
+    mainParams?.[0].name
+  )
+
+  return new WorkflowApp(mainWorkflow, Array.from(subworkflowsByName.values()))
+}
+
+function parseParams(
+  body: unknown,
+  path: string
+): WorkflowParameter[] | undefined {
+  const workflow = expectObject(body, path)
+  checkKeys(workflow, ['params', 'steps'], path)
+
+  if (typeof workflow.params === 'undefined') {
+    return undefined
+  }
+
+  const paramsPath = `${path}.params`
+  return expectArray(workflow.params, paramsPath).map((param, i) => {
+    const paramPath = `${paramsPath}[${i}]`
+    if (typeof param === 'string') {
+      return { name: param }
+    } else {
+      const [name, defaultValue] = expectSingleKey(param, paramPath)
+      return { name, default: parseValue(defaultValue, `${paramPath}.${name}`) }
+    }
+  })
+}
+
+class DefinitionParser {
+  private readonly subworkflowsByName: Map<string, Subworkflow>
+
+  constructor(subworkflowsByName: Map<string, Subworkflow>) {
+    this.subworkflowsByName = subworkflowsByName
+  }
+
+  parseWorkflowSteps(body: unknown, path: string): NamedWorkflowStep[] {
+    const workflow = expectObject(body, path)
+    if (typeof workflow.steps === 'undefined') {
+      throw new WorkflowParseError('Workflow has no steps', path)
+    }
+
+    return this.parseSteps(workflow.steps, `${path}.steps`)
+  }
+
+  parseSteps(steps: unknown, path: string): NamedWorkflowStep[] {
+    return expectArray(steps, path).map((namedStep, i) => {
+      const stepPath = `${path}[${i}]`
+      const [name, body] = expectSingleKey(namedStep, stepPath)
+      return { name, step: this.parseStep(name, body, `${stepPath}.${name}`) }
+    })
+  }
+
+  private parseStep(
+    name: GWStepName,
+    body: unknown,
+    path: string
+  ): WorkflowStep {
+    const step = expectObject(body, path)
+
+    if ('assign' in step) {
+      return this.parseAssign(step, path)
+    } else if ('call' in step) {
+      return this.parseCall(step, path)
+    } else if ('switch' in step) {
+      return this.parseSwitch(step, path)
+    } else if ('try' in step) {
+      return this.parseTry(name, step, path)
+    } else if ('for' in step) {
+      checkKeys(step, ['for', 'next'], path)
+      return this.parseForBody(step.for, `${path}.for`, parseNext(step, path))
+    } else if ('parallel' in step) {
+      return this.parseParallel(step, path)
+    } else if ('raise' in step) {
+      checkKeys(step, ['raise'], path)
+      return new RaiseStep(parseValue(step.raise, `${path}.raise`))
+    } else if ('return' in step) {
+      checkKeys(step, ['return'], path)
+      return new ReturnStep(parseValue(step.return, `${path}.return`))
+    } else if ('steps' in step) {
+      checkKeys(step, ['steps', 'next'], path)
+      return new StepsStep(
+        this.parseSteps(step.steps, `${path}.steps`),
+        parseNext(step, path)
+      )
+    } else if ('next' in step) {
+      checkKeys(step, ['next'], path)
+      return new NextStep(expectString(step.next, `${path}.next`))
+    } else {
+      throw new WorkflowParseError(
+        `Unrecognized step type with keys: ${Object.keys(step).join(', ')}`,
+        path
+      )
+    }
+  }
+
+  private parseAssign(step: ParsedObject, path: string): AssignStep {
+    checkKeys(step, ['assign', 'next'], path)
+
+    const assignPath = `${path}.assign`
+    const assignments = expectArray(step.assign, assignPath).map(
+      (assignment, i): GWAssignment => {
+        const [name, value] = expectSingleKey(assignment, `${assignPath}[${i}]`)
+        return [name, parseValue(value, `${assignPath}[${i}].${name}`)]
+      }
+    )
+
+    return new AssignStep(assignments, parseNext(step, path))
+  }
+
+  private parseCall(step: ParsedObject, path: string): CallStep {
+    checkKeys(step, ['call', 'args', 'result', 'next'], path)
+
+    const callTarget = expectString(step.call, `${path}.call`)
+    let args: GWArguments | undefined = undefined
+    let connectorParams: ConnectorParams | undefined = undefined
+    if (typeof step.args !== 'undefined') {
+      const argsPath = `${path}.args`
+      const { connector_params: connectorParamsBody, ...otherArgs } =
+        expectObject(step.args, argsPath)
+      args = Object.fromEntries(
+        Object.entries(otherArgs).map(([k, v]) => [
+          k,
+          parseValue(v, `${argsPath}.${k}`),
+        ])
+      )
+      if (typeof connectorParamsBody !== 'undefined') {
+        connectorParams = parseConnectorParams(
+          connectorParamsBody,
+          `${argsPath}.connector_params`
+        )
+      }
+    }
+    const result =
+      typeof step.result === 'undefined'
+        ? undefined
+        : expectString(step.result, `${path}.result`)
+
+    return new CallStep(
+      callTarget,
+      args,
+      result,
+      parseNext(step, path),
+      undefined,
+      connectorParams
+    )
+  }
+
+  private parseSwitch(step: ParsedObject, path: string): SwitchStep {
+    checkKeys(step, ['switch', 'next'], path)
+
+    const switchPath = `${path}.switch`
+    const conditions = expectArray(step.switch, switchPath).map((cond, i) =>
+      this.parseCondition(cond, `${switchPath}[${i}]`)
+    )
+    return new SwitchStep(conditions, parseNext(step, path))
+  }
+
+  private parseCondition(body: unknown, path: string): SwitchCondition {
+    const cond = expectObject(body, path)
+    checkKeys(cond, ['condition', 'next', 'steps'], path)
+
+    const conditionPath = `${path}.condition`
+    let expression: GWExpression
+    if (typeof cond.condition === 'boolean') {
+      expression = new GWExpression(String(cond.condition))
+    } else if (typeof cond.condition === 'undefined') {
+      throw new WorkflowParseError('Condition is missing', path)
+    } else {
+      const parsed = parseValue(cond.condition, conditionPath)
+      if (!(parsed instanceof GWExpression)) {
+        throw new WorkflowParseError(
+          'Condition must be an expression',
+          conditionPath
+        )
+      }
+      expression = parsed
+    }
+
+    if (typeof cond.next !== 'undefined' && typeof cond.steps !== 'undefined') {
+      throw new WorkflowParseError(
+        'A condition can have either "next" or "steps" but not both',
+        path
+      )
+    } else if (typeof cond.next !== 'undefined') {
+      return new SwitchCondition(expression, {
+        next: expectString(cond.next, `${path}.next`),
+      })
+    } else if (typeof cond.steps !== 'undefined') {
+      return new SwitchCondition(expression, {
+        steps: this.parseSteps(cond.steps, `${path}.steps`),
+      })
+    } else {
+      throw new WorkflowParseError(
+        'A condition must have either "next" or "steps"',
+        path
+      )
+    }
+  }
+
+  private parseTry(
+    name: GWStepName,
+    step: ParsedObject,
+    path: string
+  ): TryExceptStep {
+    checkKeys(step, ['try', 'retry', 'except', 'next'], path)
+
+    // The body of the try block is either nested steps or a single step. A
+    // single step is named <name>_body.
+    const tryPath = `${path}.try`
+    const tryBlock = expectObject(step.try, tryPath)
+    let trySteps: NamedWorkflowStep[]
+    if ('steps' in tryBlock) {
+      checkKeys(tryBlock, ['steps'], tryPath)
+      trySteps = this.parseSteps(tryBlock.steps, `${tryPath}.steps`)
+    } else {
+      trySteps = [
+        {
+          name: `${name}_body`,
+          step: this.parseStep(`${name}_body`, tryBlock, tryPath),
+        },
+      ]
+    }
+
+    let exceptSteps: NamedWorkflowStep[] = []
+    let errorMap: GWVariableName | undefined = undefined
+    if (typeof step.except !== 'undefined') {
+      const exceptPath = `${path}.except`
+      const exceptBlock = expectObject(step.except, exceptPath)
+      checkKeys(exceptBlock, ['as', 'steps'], exceptPath)
+
+      if (typeof exceptBlock.as !== 'undefined') {
+        errorMap = expectString(exceptBlock.as, `${exceptPath}.as`)
+      }
+      if (typeof exceptBlock.steps !== 'undefined') {
+        exceptSteps = this.parseSteps(exceptBlock.steps, `${exceptPath}.steps`)
+      }
+    }
+
+    const retryPolicy =
+      typeof step.retry === 'undefined'
+        ? undefined
+        : this.parseRetryPolicy(step.retry, `${path}.retry`)
+
+    return new TryExceptStep(
+      trySteps,
+      exceptSteps,
+      retryPolicy,
+      errorMap,
+      parseNext(step, path)
+    )
+  }
+
+  private parseRetryPolicy(
+    body: unknown,
+    path: string
+  ): DefaultRetryPolicy | CustomRetryPolicy {
+    if (typeof body === 'string') {
+      return parseDefaultRetryPolicy(body, path)
+    }
+
+    const retry = expectObject(body, path)
+    checkKeys(retry, ['predicate', 'max_retries', 'backoff'], path)
+
+    const predicatePath = `${path}.predicate`
+    const predicateName = expressionBody(
+      expectString(retry.predicate, predicatePath),
+      predicatePath
+    )
+    const predicate =
+      isDefaultRetryPolicy(predicateName) ||
+      isDefaultRetryPredicate(predicateName)
+        ? predicateName
+        : this.subworkflowsByName.get(predicateName)
+    if (typeof predicate === 'undefined') {
+      throw new WorkflowParseError(
+        `Unknown retry predicate "${predicateName}"`,
+        predicatePath
+      )
+    }
+
+    const backoffPath = `${path}.backoff`
+    const backoff = expectObject(retry.backoff, backoffPath)
+    checkKeys(
+      backoff,
+      ['initial_delay', 'max_delay', 'multiplier'],
+      backoffPath
+    )
+
+    return {
+      predicate,
+      maxRetries: expectNumber(retry.max_retries, `${path}.max_retries`),
+      backoff: {
+        initialDelay: expectNumber(
+          backoff.initial_delay,
+          `${backoffPath}.initial_delay`
+        ),
+        maxDelay: expectNumber(backoff.max_delay, `${backoffPath}.max_delay`),
+        multiplier: expectNumber(
+          backoff.multiplier,
+          `${backoffPath}.multiplier`
+        ),
+      },
+    }
+  }
+
+  private parseForBody(
+    body: unknown,
+    path: string,
+    next?: GWStepName
+  ): ForStep {
+    const forBody = expectObject(body, path)
+    checkKeys(forBody, ['value', 'index', 'in', 'range', 'steps'], path)
+
+    const loopVariable = expectString(forBody.value, `${path}.value`)
+    const steps = this.parseSteps(forBody.steps, `${path}.steps`)
+
+    if (
+      typeof forBody.in !== 'undefined' &&
+      typeof forBody.range === 'undefined'
+    ) {
+      const inPath = `${path}.in`
+      const listExpression = parseValue(forBody.in, inPath)
+      if (
+        !(listExpression instanceof GWExpression) &&
+        !Array.isArray(listExpression)
+      ) {
+        throw new WorkflowParseError('Expected a list or an expression', inPath)
+      }
+      const indexVariable =
+        typeof forBody.index === 'undefined'
+          ? undefined
+          : expectString(forBody.index, `${path}.index`)
+
+      return new ForStep(
+        steps,
+        loopVariable,
+        listExpression,
+        indexVariable,
+        undefined,
+        undefined,
+        next
+      )
+    } else if (
+      typeof forBody.range !== 'undefined' &&
+      typeof forBody.in === 'undefined'
+    ) {
+      const rangePath = `${path}.range`
+      const range = expectArray(forBody.range, rangePath)
+      if (range.length !== 2) {
+        throw new WorkflowParseError(
+          'Range must be a list of two numbers',
+          rangePath
+        )
+      }
+      if (typeof forBody.index !== 'undefined') {
+        throw new WorkflowParseError(
+          'Index variable is not supported in range loops',
+          `${path}.index`
+        )
+      }
+
+      return new ForStep(
+        steps,
+        loopVariable,
+        undefined,
+        undefined,
+        expectNumber(range[0], `${rangePath}[0]`),
+        expectNumber(range[1], `${rangePath}[1]`),
+        next
+      )
+    } else {
+      throw new WorkflowParseError(
+        'A for loop must have either "in" or "range"',
+        path
+      )
+    }
+  }
+
+  private parseParallel(step: ParsedObject, path: string): Parallel {
+    checkKeys(step, ['parallel', 'next'], path)
+
+    const parallelPath = `${path}.parallel`
+    const body = expectObject(step.parallel, parallelPath)
+    checkKeys(
+      body,
+      ['shared', 'concurrency_limit', 'branches', 'for'],
+      parallelPath
+    )
+
+    const shared =
+      typeof body.shared === 'undefined'
+        ? undefined
+        : expectArray(body.shared, `${parallelPath}.shared`).map((x, i) =>
+            expectString(x, `${parallelPath}.shared[${i}]`)
+          )
+    const concurrencyLimit =
+      typeof body.concurrency_limit === 'undefined'
+        ? undefined
+        : expectNumber(
+            body.concurrency_limit,
+            `${parallelPath}.concurrency_limit`
+          )
+    const next = parseNext(step, path)
+
+    if (
+      typeof body.branches !== 'undefined' &&
+      typeof body.for === 'undefined'
+    ) {
+      const branches = this.parseSteps(
+        body.branches,
+        `${parallelPath}.branches`
+      )
+      return new Parallel(branches, shared, concurrencyLimit, next)
+    } else if (
+      typeof body.for !== 'undefined' &&
+      typeof body.branches === 'undefined'
+    ) {
+      const forStep = this.parseForBody(body.for, `${parallelPath}.for`)
+      return new Parallel(forStep, shared, concurrencyLimit, next)
+    } else {
+      throw new WorkflowParseError(
+        'A parallel step must have either "branches" or "for"',
+        parallelPath
+      )
+    }
+  }
+}
+
+/**
+ * Convert a deserialized value into a GWValue, turning "${...}" strings into
+ * expressions.
+ */
+function parseValue(value: unknown, path: string): GWValue {
+  if (typeof value === 'string') {
+    if (isExpressionString(value)) {
+      return parseExpression(value.slice(2, -1), path)
+    } else {
+      return value
+    }
+  } else if (
+    value === null ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return value
+  } else if (Array.isArray(value)) {
+    return value.map((x, i) => parseValue(x, `${path}[${i}]`))
+  } else if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, parseValue(v, `${path}.${k}`)])
+    )
+  } else {
+    throw new WorkflowParseError(`Unsupported value: ${String(value)}`, path)
+  }
+}
+
+// The expression is built from its syntax tree, so it renders in the form
+// printed by printExpression(), and literals may contain "$", "{" and "}"
+function parseExpression(expression: string, path: string): GWExpression {
+  try {
+    return new ExpressionBuilder(parseExpressionAST(expression))
+  } catch (err) {
+    throw new WorkflowParseError(
+      `Invalid expression "${expression}": ${errorMessage(err)}`,
+      path
+    )
+  }
+}
+
+function parseDefaultRetryPolicy(
+  value: string,
+  path: string
+): DefaultRetryPolicy {
+  const policyName = expressionBody(value, path)
+  if (!isDefaultRetryPolicy(policyName)) {
+    throw new WorkflowParseError(`Unknown retry policy "${policyName}"`, path)
+  }
+
+  return policyName
+}
+
+function isDefaultRetryPolicy(name: string): name is DefaultRetryPolicy {
+  return (
+    name === 'http.default_retry' ||
+    name === 'http.default_retry_non_idempotent'
+  )
+}
+
+function isDefaultRetryPredicate(name: string): name is DefaultRetryPredicate {
+  return (
+    name === 'http.default_retry_predicate' ||
+    name === 'http.default_retry_predicate_non_idempotent'
+  )
+}
+
+function isExpressionString(value: string): boolean {
+  return value.startsWith('${') && value.endsWith('}')
+}
+
+// Returns the part inside "${...}"
+function expressionBody(value: string, path: string): string {
+  if (!isExpressionString(value)) {
+    throw new WorkflowParseError('Expected an expression', path)
+  }
+
+  return value.slice(2, -1).trim()
+}
+
+function parseConnectorParams(body: unknown, path: string): ConnectorParams {
+  const params = expectObject(body, path)
+  checkKeys(
+    params,
+    ['timeout', 'polling_policy', 'skip_polling', 'scopes'],
+    path
+  )
+
+  const connectorParams: ConnectorParams = {}
+  if (typeof params.timeout !== 'undefined') {
+    connectorParams.timeout = expectNumber(params.timeout, `${path}.timeout`)
+  }
+  if (typeof params.polling_policy !== 'undefined') {
+    const policyPath = `${path}.polling_policy`
+    const policy = expectObject(params.polling_policy, policyPath)
+    checkKeys(policy, ['initial_delay', 'multiplier', 'max_delay'], policyPath)
+    connectorParams.pollingPolicy = {
+      initialDelay: expectNumber(
+        policy.initial_delay,
+        `${policyPath}.initial_delay`
+      ),
+      multiplier: expectNumber(policy.multiplier, `${policyPath}.multiplier`),
+      maxDelay: expectNumber(policy.max_delay, `${policyPath}.max_delay`),
+    }
+  }
+  if (typeof params.skip_polling !== 'undefined') {
+    if (typeof params.skip_polling !== 'boolean') {
+      throw new WorkflowParseError('Expected a boolean', `${path}.skip_polling`)
+    }
+    connectorParams.skipPolling = params.skip_polling
+  }
+  if (typeof params.scopes !== 'undefined') {
+    connectorParams.scopes = Array.isArray(params.scopes)
+      ? params.scopes.map((x, i) => expectString(x, `${path}.scopes[${i}]`))
+      : expectString(params.scopes, `${path}.scopes`)
+  }
+
+  return connectorParams
+}
+
+function checkKeys(obj: ParsedObject, allowed: string[], path: string): void {
+  const unknownKeys = Object.keys(obj).filter((k) => !allowed.includes(k))
+  if (unknownKeys.length > 0) {
+    throw new WorkflowParseError(
+      `Unknown keys: ${unknownKeys.join(', ')}`,
+      path
+    )
+  }
+}
+
+function expectObject(value: unknown, path: string): ParsedObject {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new WorkflowParseError('Expected a map', path)
+  }
+
+  return value as ParsedObject
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new WorkflowParseError('Expected a list', path)
+  }
+
+  return value
+}
+
+function parseNext(step: ParsedObject, path: string): GWStepName | undefined {
+  return typeof step.next === 'undefined'
+    ? undefined
+    : expectString(step.next, `${path}.next`)
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new WorkflowParseError('Expected a string', path)
+  }
+
+  return value
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number') {
+    throw new WorkflowParseError('Expected a number', path)
+  }
+
+  return value
+}
+
+function expectSingleKey(value: unknown, path: string): [GWStepName, unknown] {
+  const obj = expectObject(value, path)
+  const entries = Object.entries(obj)
+  if (entries.length !== 1) {
+    throw new WorkflowParseError('Expected a map with a single key', path)
+  }
+
+  return entries[0]
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
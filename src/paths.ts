@@ -0,0 +1,826 @@
+import { quoteString } from './codegen'
+import {
+  BinaryOperator,
+  Expression,
+  parseExpression,
+  printExpression,
+} from './expressions'
+import {
+  AssignStep,
+  CallStep,
+  ForStep,
+  NamedWorkflowStep,
+  NextStep,
+  Parallel,
+  RaiseStep,
+  ReturnStep,
+  StepsStep,
+  SwitchStep,
+  TryExceptStep,
+  breakLoop,
+  continueLoop,
+  end,
+} from './steps'
+import { GWExpression, GWValue } from './variables'
+import { BaseWorkflow, Subworkflow, WorkflowApp } from './workflows'
+
+export interface PathOptions {
+  // Maximum number of paths to enumerate. Default: 100
+  maxPaths?: number
+  // Nesting depth up to which subworkflow calls are inlined. Deeper calls are
+  // treated like runtime function calls. Default: 3
+  maxCallDepth?: number
+  // How many times a step can be executed on a single path when following
+  // jumps backwards. Default: 2
+  maxStepVisits?: number
+}
+
+// A call whose result is not derived from the workflow arguments
+export interface PathCall {
+  // Name of the call step. Steps in subworkflows are prefixed by the
+  // subworkflow name: "subworkflow.step".
+  step: string
+  // The runtime function or subworkflow that is called
+  call: string
+  // The symbol that refers to the result, or to the error, in the conditions
+  symbol: string
+  // true if the call raises an error on this path
+  raises: boolean
+}
+
+export interface ExecutionPath {
+  // Names of the executed steps in the execution order
+  steps: string[]
+  // Conditions that hold on this path
+  conditions: string[]
+  // Calls whose results affect the path
+  calls: PathCall[]
+  // The value returned by the main workflow or the uncaught error
+  outcome: { type: 'return' | 'raise'; value: string }
+}
+
+/**
+ * Enumerate the distinct execution paths through the main workflow.
+ *
+ * A path is a sequence of choices: the switch condition that matches, whether
+ * a try block succeeds or a call in it raises an error, and whether a for loop
+ * body is executed or skipped. Loop bodies are followed for one iteration.
+ * Subworkflow calls are inlined up to options.maxCallDepth.
+ *
+ * The conditions of a path are expressed in terms of the main workflow
+ * argument and the results of calls. The result of a call step "get" is
+ * denoted by result("get") and the error raised by it by error("get").
+ *
+ * At most options.maxPaths paths are returned.
+ */
+export function enumeratePaths(
+  app: WorkflowApp,
+  options: PathOptions = {}
+): ExecutionPath[] {
+  return new PathEnumerator(app, options).enumerate()
+}
+
+export interface TestSkeletonOptions extends PathOptions {
+  // The module from which executeWorkflow is imported
+  importPath?: string
+  // The module that exports the workflow under test
+  workflowImportPath?: string
+  // Name of the exported WorkflowApp variable
+  exportName?: string
+}
+
+/**
+ * Generate a jest test suite with a test case for each execution path. Each
+ * test lists the conditions for reaching the path and mocks the runtime
+ * function calls on the path. The arguments and the mocked results are left
+ * for the developer to fill in.
+ */
+export function toTestSkeletons(
+  app: WorkflowApp,
+  options: TestSkeletonOptions = {}
+): string {
+  const importPath = options.importPath ?? 'gcp-workflows-toolkit'
+  const workflowImportPath = options.workflowImportPath ?? './workflow'
+  const exportName = options.exportName ?? 'workflow'
+  const paths = enumeratePaths(app, options)
+  const hasArgs = (app.mainWorkflow.params ?? []).length > 0
+  const subworkflowNames = app.subworkflows.map((x) => x.name)
+
+  const tests = paths.map((path, i) => {
+    const lines: string[] = []
+    const outcomeStep = path.steps[path.steps.length - 1] ?? ''
+    const description =
+      path.outcome.type === 'return'
+        ? `returns at ${outcomeStep}`
+        : `raises at ${outcomeStep}`
+    lines.push(
+      `it(${quoteString(`path ${i + 1} ${description}`)}, async () => {`
+    )
+    lines.push(`  // Steps: ${path.steps.join(', ')}`)
+    if (path.conditions.length > 0) {
+      lines.push('  // Conditions:')
+      path.conditions.forEach((x) => lines.push(`  //   ${x}`))
+    }
+    if (hasArgs) {
+      lines.push(
+        '  const args = {} // TODO: arguments satisfying the conditions'
+      )
+    }
+
+    const callsByFunction = new Map<string, PathCall[]>()
+    for (const call of path.calls) {
+      if (subworkflowNames.includes(call.call)) {
+        continue
+      }
+      const calls = callsByFunction.get(call.call) ?? []
+      calls.push(call)
+      callsByFunction.set(call.call, calls)
+    }
+
+    if (callsByFunction.size > 0) {
+      lines.push('  const handlers = {')
+      for (const [functionName, calls] of callsByFunction) {
+        lines.push(`    ${quoteString(functionName)}: jest`, '      .fn()')
+        for (const call of calls) {
+          lines.push(`      // TODO: ${call.symbol}`)
+          if (call.raises) {
+            lines.push(
+              '      .mockRejectedValueOnce(',
+              "        new WorkflowRuntimeError({ message: 'TODO', tags: [] })",
+              '      )'
+            )
+          } else {
+            lines.push('      .mockResolvedValueOnce(null)')
+          }
+        }
+        lines[lines.length - 1] += ','
+      }
+      lines.push('  }')
+    } else {
+      lines.push('  const handlers = {}')
+    }
+
+    lines.push('')
+    lines.push(
+      `  const execution = await executeWorkflow(${exportName}, ${
+        hasArgs ? 'args' : 'undefined'
+      }, { handlers })`
+    )
+    lines.push('')
+    lines.push(
+      `  expect(execution.status).toBe(${quoteString(
+        path.outcome.type === 'return' ? 'succeeded' : 'failed'
+      )})`
+    )
+    lines.push('})')
+
+    return lines.map((x) => (x ? '  ' + x : x)).join('\n')
+  })
+
+  const needsErrorClass = paths.some((path) =>
+    path.calls.some((x) => x.raises && !subworkflowNames.includes(x.call))
+  )
+  const imports = needsErrorClass
+    ? 'WorkflowRuntimeError, executeWorkflow'
+    : 'executeWorkflow'
+
+  return (
+    [
+      `import { ${imports} } from ${quoteString(importPath)}`,
+      `import { ${exportName} } from ${quoteString(workflowImportPath)}`,
+      `describe(${quoteString(`${exportName} paths`)}, () => {\n${tests.join(
+        '\n\n'
+      )}\n})`,
+    ].join('\n\n') + '\n'
+  )
+}
+
+// Symbolic state of a path under construction
+interface PathState {
+  // Values of the variables of the current workflow invocation in terms of
+  // the main workflow argument and the call results
+  bindings: Map<string, Expression>
+  conditions: Expression[]
+  steps: string[]
+  calls: PathCall[]
+}
+
+// How a step or a list of steps completes on a path
+type Completion =
+  | { type: 'normal' }
+  | { type: 'jump'; target: string }
+  | { type: 'return'; value: Expression }
+  | { type: 'raise'; value: Expression }
+
+interface Outcome {
+  state: PathState
+  completion: Completion
+}
+
+// Context of the steps being executed
+interface Frame {
+  workflow: BaseWorkflow
+  // Number of inlined subworkflow calls on the call stack
+  depth: number
+  // true if errors raised by calls can be caught by an enclosing try step
+  inTry: boolean
+  // Number of steps executed on the path before this workflow invocation
+  stepOffset: number
+}
+
+const normalCompletion: Completion = { type: 'normal' }
+
+// Runtime functions that the interpreter handles by default and that never
+// fail in practice. These are not mocked.
+const uninterestingFunctions = ['sys.log', 'sys.sleep']
+
+class PathEnumerator {
+  private readonly app: WorkflowApp
+  private readonly subworkflows: Map<string, Subworkflow>
+  private readonly maxPaths: number
+  private readonly maxCallDepth: number
+  private readonly maxStepVisits: number
+
+  constructor(app: WorkflowApp, options: PathOptions) {
+    this.app = app
+    this.subworkflows = new Map(app.subworkflows.map((w) => [w.name, w]))
+    this.maxPaths = options.maxPaths ?? 100
+    this.maxCallDepth = options.maxCallDepth ?? 3
+    this.maxStepVisits = options.maxStepVisits ?? 2
+  }
+
+  enumerate(): ExecutionPath[] {
+    const initialState: PathState = {
+      bindings: new Map(),
+      conditions: [],
+      steps: [],
+      calls: [],
+    }
+    const frame = {
+      workflow: this.app.mainWorkflow,
+      depth: 0,
+      inTry: false,
+      stepOffset: 0,
+    }
+    const outcomes = this.executeSteps(
+      this.app.mainWorkflow.steps,
+      initialState,
+      frame
+    )
+
+    return outcomes.flatMap(({ state, completion }): ExecutionPath[] => {
+      let outcome: ExecutionPath['outcome']
+      if (completion.type === 'return' || completion.type === 'raise') {
+        outcome = {
+          type: completion.type,
+          value: printExpression(completion.value),
+        }
+      } else if (completion.type === 'normal' || completion.target === end) {
+        outcome = { type: 'return', value: 'null' }
+      } else {
+        // A jump to a missing step
+        return []
+      }
+
+      return [
+        {
+          steps: state.steps,
+          conditions: state.conditions.map(printExpression),
+          calls: state.calls,
+          outcome,
+        },
+      ]
+    })
+  }
+
+  private executeSteps(
+    steps: NamedWorkflowStep[],
+    initialState: PathState,
+    frame: Frame
+  ): Outcome[] {
+    const finished: Outcome[] = []
+    let active = [{ state: initialState, index: 0 }]
+
+    while (active.length > 0) {
+      const next: { state: PathState; index: number }[] = []
+
+      for (const { state, index } of active) {
+        if (index >= steps.length) {
+          finished.push({ state, completion: normalCompletion })
+          continue
+        }
+
+        const namedStep = steps[index]
+        for (const outcome of this.executeStep(namedStep, state, frame)) {
+          let completion = outcome.completion
+          if (completion.type === 'normal' && namedStep.step.next) {
+            completion = { type: 'jump', target: namedStep.step.next }
+          }
+
+          if (completion.type === 'normal') {
+            next.push({ state: outcome.state, index: index + 1 })
+          } else if (completion.type === 'jump') {
+            const target = completion.target
+            const targetIndex = steps.findIndex((x) => x.name === target)
+            if (targetIndex < 0) {
+              // Jumps to steps on outer levels are handled by the callers
+              finished.push({ state: outcome.state, completion })
+            } else if (
+              this.visitCount(outcome.state, steps[targetIndex].name, frame) <
+              this.maxStepVisits
+            ) {
+              next.push({ state: outcome.state, index: targetIndex })
+            }
+          } else {
+            finished.push({ state: outcome.state, completion })
+          }
+        }
+      }
+
+      active = next.slice(0, Math.max(this.maxPaths - finished.length, 0))
+    }
+
+    return finished.slice(0, this.maxPaths)
+  }
+
+  private executeStep(
+    { name, step }: NamedWorkflowStep,
+    initialState: PathState,
+    frame: Frame
+  ): Outcome[] {
+    const state = copyState(initialState)
+    const stepName = qualifiedStepName(name, frame)
+    state.steps.push(stepName)
+
+    if (step instanceof AssignStep) {
+      for (const [target, value] of step.assignments) {
+        const targetExpression = parseExpression(target)
+        const assigned = this.symbolicValue(value, state)
+        if (targetExpression.type === 'variable') {
+          state.bindings.set(targetExpression.name, assigned)
+        } else {
+          // An element of a list or a map is modified. The value of the
+          // variable is not tracked after this.
+          const root = rootVariable(targetExpression)
+          if (root) {
+            state.bindings.delete(root)
+          }
+        }
+      }
+      return [{ state, completion: normalCompletion }]
+    } else if (step instanceof CallStep) {
+      return this.executeCall(step, stepName, state, frame)
+    } else if (step instanceof SwitchStep) {
+      return this.executeSwitch(step, state, frame)
+    } else if (step instanceof TryExceptStep) {
+      return this.executeTry(step, state, frame)
+    } else if (step instanceof ForStep) {
+      return this.executeFor(step, state, frame)
+    } else if (step instanceof Parallel) {
+      return this.executeParallel(step, state, frame)
+    } else if (step instanceof StepsStep) {
+      return this.executeSteps(step.steps, state, frame)
+    } else if (step instanceof RaiseStep) {
+      const value = this.symbolicValue(step.value, state)
+      return [{ state, completion: { type: 'raise', value } }]
+    } else if (step instanceof ReturnStep) {
+      const value = this.symbolicValue(step.value, state)
+      return [{ state, completion: { type: 'return', value } }]
+    } else if (step instanceof NextStep) {
+      return [{ state, completion: normalCompletion }]
+    } else {
+      throw new Error(`Unsupported step type in step "${name}"`)
+    }
+  }
+
+  private executeCall(
+    step: CallStep,
+    stepName: string,
+    state: PathState,
+    frame: Frame
+  ): Outcome[] {
+    const subworkflow = this.subworkflows.get(step.call)
+    if (subworkflow && frame.depth < this.maxCallDepth) {
+      return this.inlineSubworkflow(step, subworkflow, state, frame)
+    }
+
+    if (uninterestingFunctions.includes(step.call)) {
+      return [{ state, completion: normalCompletion }]
+    }
+
+    const outcomes: Outcome[] = []
+    const resultSymbol = callSymbol('result', stepName, state)
+    const succeeded = copyState(state)
+    succeeded.calls.push({
+      step: stepName,
+      call: step.call,
+      symbol: printExpression(resultSymbol),
+      raises: false,
+    })
+    if (step.result) {
+      succeeded.bindings.set(step.result, resultSymbol)
+    }
+    outcomes.push({ state: succeeded, completion: normalCompletion })
+
+    // Failures are interesting only if they can be caught
+    if (frame.inTry) {
+      const errorSymbol = callSymbol('error', stepName, state)
+      const failed = copyState(state)
+      failed.calls.push({
+        step: stepName,
+        call: step.call,
+        symbol: printExpression(errorSymbol),
+        raises: true,
+      })
+      outcomes.push({
+        state: failed,
+        completion: { type: 'raise', value: errorSymbol },
+      })
+    }
+
+    return outcomes
+  }
+
+  private inlineSubworkflow(
+    step: CallStep,
+    subworkflow: Subworkflow,
+    state: PathState,
+    frame: Frame
+  ): Outcome[] {
+    const callerBindings = state.bindings
+    const bindings = new Map<string, Expression>()
+    for (const param of subworkflow.params ?? []) {
+      const arg = step.args?.[param.name]
+      if (typeof arg !== 'undefined') {
+        bindings.set(param.name, this.symbolicValue(arg, state))
+      } else if (typeof param.default !== 'undefined') {
+        bindings.set(param.name, valueToExpression(param.default))
+      }
+    }
+
+    const calleeFrame = {
+      workflow: subworkflow,
+      depth: frame.depth + 1,
+      inTry: frame.inTry,
+      stepOffset: state.steps.length,
+    }
+    const outcomes = this.executeSteps(
+      subworkflow.steps,
+      { ...state, bindings },
+      calleeFrame
+    )
+
+    return outcomes.map(({ state: calleeState, completion }): Outcome => {
+      const returnedState = {
+        ...calleeState,
+        bindings: new Map(callerBindings),
+      }
+      if (completion.type === 'raise') {
+        return { state: returnedState, completion }
+      }
+
+      if (step.result) {
+        const result: Expression =
+          completion.type === 'return'
+            ? completion.value
+            : { type: 'literal', value: null }
+        returnedState.bindings.set(step.result, result)
+      }
+
+      return { state: returnedState, completion: normalCompletion }
+    })
+  }
+
+  private executeSwitch(
+    step: SwitchStep,
+    state: PathState,
+    frame: Frame
+  ): Outcome[] {
+    const outcomes: Outcome[] = []
+    // The state where none of the conditions so far has matched
+    let unmatched: PathState | undefined = state
+
+    for (const cond of step.conditions) {
+      if (!unmatched) {
+        break
+      }
+
+      const condition = this.symbolicValue(cond.condition, unmatched)
+      const matched = withCondition(unmatched, condition)
+      unmatched = withCondition(unmatched, negate(condition))
+
+      if (matched && cond.next) {
+        outcomes.push({
+          state: matched,
+          completion: { type: 'jump', target: cond.next },
+        })
+      } else if (matched) {
+        outcomes.push(...this.executeSteps(cond.steps, matched, frame))
+      }
+    }
+
+    if (unmatched) {
+      outcomes.push({ state: unmatched, completion: normalCompletion })
+    }
+
+    return outcomes
+  }
+
+  private executeTry(
+    step: TryExceptStep,
+    state: PathState,
+    frame: Frame
+  ): Outcome[] {
+    const tryOutcomes = this.executeSteps(step.trySteps, state, {
+      ...frame,
+      inTry: true,
+    })
+    const hasExcept = step.exceptSteps.length > 0 || !!step.errorMap
+
+    return tryOutcomes.flatMap(({ state: tryState, completion }) => {
+      if (completion.type !== 'raise' || !hasExcept) {
+        return [{ state: tryState, completion }]
+      }
+
+      const exceptState = copyState(tryState)
+      if (step.errorMap) {
+        exceptState.bindings.set(step.errorMap, completion.value)
+      }
+      return this.executeSteps(step.exceptSteps, exceptState, frame)
+    })
+  }
+
+  private executeFor(step: ForStep, state: PathState, frame: Frame): Outcome[] {
+    const outcomes: Outcome[] = []
+    const firstItems: { state: PathState; item: Expression }[] = []
+
+    if (typeof step.listExpression === 'undefined') {
+      const start = step.rangeStart ?? 0
+      if (start <= (step.rangeEnd ?? -Infinity)) {
+        firstItems.push({ state, item: { type: 'literal', value: start } })
+      } else {
+        outcomes.push({ state, completion: normalCompletion })
+      }
+    } else if (Array.isArray(step.listExpression)) {
+      if (step.listExpression.length > 0) {
+        const item = valueToExpression(step.listExpression[0])
+        firstItems.push({ state, item })
+      } else {
+        outcomes.push({ state, completion: normalCompletion })
+      }
+    } else {
+      const list = this.symbolicValue(step.listExpression, state)
+      const length: Expression = { type: 'call', name: 'len', args: [list] }
+      const zero: Expression = { type: 'literal', value: 0 }
+
+      const skipped = withCondition(state, {
+        type: 'binary',
+        operator: '==',
+        left: length,
+        right: zero,
+      })
+      if (skipped) {
+        outcomes.push({ state: skipped, completion: normalCompletion })
+      }
+
+      const taken = withCondition(state, {
+        type: 'binary',
+        operator: '>',
+        left: length,
+        right: zero,
+      })
+      if (taken) {
+        firstItems.push({
+          state: taken,
+          item: { type: 'index', object: list, index: zero },
+        })
+      }
+    }
+
+    const loopVariables = [step.loopVariableName, step.indexVariableName]
+    for (const { state: loopState, item } of firstItems) {
+      const bodyState = copyState(loopState)
+      bodyState.bindings.set(step.loopVariableName, item)
+      if (step.indexVariableName) {
+        bodyState.bindings.set(step.indexVariableName, {
+          type: 'literal',
+          value: 0,
+        })
+      }
+
+      for (const outcome of this.executeSteps(step.steps, bodyState, frame)) {
+        const completion = outcome.completion
+        if (
+          completion.type === 'normal' ||
+          (completion.type === 'jump' &&
+            (completion.target === breakLoop ||
+              completion.target === continueLoop))
+        ) {
+          // Loop variables are not visible after the loop
+          const afterLoop = copyState(outcome.state)
+          for (const name of loopVariables) {
+            if (!name) {
+              continue
+            }
+            const previous = loopState.bindings.get(name)
+            if (previous) {
+              afterLoop.bindings.set(name, previous)
+            } else {
+              afterLoop.bindings.delete(name)
+            }
+          }
+          outcomes.push({ state: afterLoop, completion: normalCompletion })
+        } else {
+          outcomes.push(outcome)
+        }
+      }
+    }
+
+    return outcomes
+  }
+
+  // Branches are followed one after another in the order they are defined
+  private executeParallel(
+    step: Parallel,
+    state: PathState,
+    frame: Frame
+  ): Outcome[] {
+    if (step.forStep) {
+      return this.executeFor(step.forStep, state, frame)
+    }
+
+    let outcomes: Outcome[] = [{ state, completion: normalCompletion }]
+    for (const branch of step.branches ?? []) {
+      outcomes = outcomes.flatMap((outcome) =>
+        outcome.completion.type === 'normal'
+          ? this.executeStep(branch, outcome.state, frame)
+          : [outcome]
+      )
+    }
+
+    return outcomes
+  }
+
+  // How many times the step has been executed in the current invocation
+  private visitCount(state: PathState, name: string, frame: Frame): number {
+    const stepName = qualifiedStepName(name, frame)
+    return state.steps.slice(frame.stepOffset).filter((x) => x === stepName)
+      .length
+  }
+
+  // The value in terms of the main workflow argument and the call results
+  private symbolicValue(value: GWValue, state: PathState): Expression {
+    return substitute(valueToExpression(value), state.bindings)
+  }
+}
+
+function copyState(state: PathState): PathState {
+  return {
+    bindings: new Map(state.bindings),
+    conditions: [...state.conditions],
+    steps: [...state.steps],
+    calls: [...state.calls],
+  }
+}
+
+/**
+ * Returns a copy of the state with the condition added, or undefined if the
+ * condition can't hold on the path.
+ */
+function withCondition(
+  state: PathState,
+  condition: Expression
+): PathState | undefined {
+  if (condition.type === 'literal') {
+    return condition.value === false ? undefined : state
+  }
+
+  const printed = printExpression(condition)
+  const negated = printExpression(negate(condition))
+  const existing = state.conditions.map(printExpression)
+  if (existing.includes(negated)) {
+    return undefined
+  } else if (existing.includes(printed)) {
+    return state
+  }
+
+  const newState = copyState(state)
+  newState.conditions.push(condition)
+  return newState
+}
+
+const negatedComparisons: Partial<Record<BinaryOperator, BinaryOperator>> = {
+  '==': '!=',
+  '!=': '==',
+  '<': '>=',
+  '>=': '<',
+  '>': '<=',
+  '<=': '>',
+}
+
+function negate(ex: Expression): Expression {
+  if (ex.type === 'literal' && typeof ex.value === 'boolean') {
+    return { type: 'literal', value: !ex.value }
+  } else if (ex.type === 'unary' && ex.operator === 'not') {
+    return ex.operand
+  }
+
+  const negatedOperator =
+    ex.type === 'binary' ? negatedComparisons[ex.operator] : undefined
+  if (ex.type === 'binary' && negatedOperator) {
+    return { ...ex, operator: negatedOperator }
+  } else {
+    return { type: 'unary', operator: 'not', operand: ex }
+  }
+}
+
+// A symbol such as result("get"). Repeated calls of the same step get an
+// occurrence number: result("get", 2)
+function callSymbol(
+  kind: 'result' | 'error',
+  stepName: string,
+  state: PathState
+): Expression {
+  const args: Expression[] = [{ type: 'literal', value: stepName }]
+  const occurrence = state.calls.filter((x) => x.step === stepName).length + 1
+  if (occurrence > 1) {
+    args.push({ type: 'literal', value: occurrence })
+  }
+
+  return { type: 'call', name: kind, args }
+}
+
+function qualifiedStepName(name: string, frame: Frame): string {
+  return frame.workflow instanceof Subworkflow
+    ? `${frame.workflow.name}.${name}`
+    : name
+}
+
+function valueToExpression(value: GWValue): Expression {
+  if (value instanceof GWExpression) {
+    return parseExpression(value.expression)
+  } else if (Array.isArray(value)) {
+    return { type: 'list', items: value.map(valueToExpression) }
+  } else if (value !== null && typeof value === 'object') {
+    return {
+      type: 'map',
+      entries: Object.entries(value).map(([k, v]) => [
+        { type: 'literal', value: k },
+        valueToExpression(v),
+      ]),
+    }
+  } else {
+    return { type: 'literal', value }
+  }
+}
+
+function substitute(
+  ex: Expression,
+  bindings: Map<string, Expression>
+): Expression {
+  switch (ex.type) {
+    case 'literal':
+      return ex
+    case 'variable':
+      return bindings.get(ex.name) ?? ex
+    case 'list':
+      return { ...ex, items: ex.items.map((x) => substitute(x, bindings)) }
+    case 'map':
+      return {
+        ...ex,
+        entries: ex.entries.map(([k, v]) => [
+          substitute(k, bindings),
+          substitute(v, bindings),
+        ]),
+      }
+    case 'member':
+      return { ...ex, object: substitute(ex.object, bindings) }
+    case 'index':
+      return {
+        ...ex,
+        object: substitute(ex.object, bindings),
+        index: substitute(ex.index, bindings),
+      }
+    case 'call':
+      return { ...ex, args: ex.args.map((x) => substitute(x, bindings)) }
+    case 'unary':
+      return { ...ex, operand: substitute(ex.operand, bindings) }
+    case 'binary':
+      return {
+        ...ex,
+        left: substitute(ex.left, bindings),
+        right: substitute(ex.right, bindings),
+      }
+  }
+}
+
+// The variable at the root of an assignment target such as "my_map.key[0]"
+function rootVariable(ex: Expression): string | undefined {
+  if (ex.type === 'variable') {
+    return ex.name
+  } else if (ex.type === 'member' || ex.type === 'index') {
+    return rootVariable(ex.object)
+  } else {
+    return undefined
+  }
+}
@@ -0,0 +1,169 @@
+import * as path from 'path'
+import {
+  ForStep,
+  NamedWorkflowStep,
+  Parallel,
+  SourceLocation,
+  StepsStep,
+  SwitchStep,
+  TryExceptStep,
+} from './steps'
+import { WorkflowApp } from './workflows'
+
+export interface SourceMapEntry extends SourceLocation {
+  workflow: string
+  step: string
+}
+
+/**
+ * Maps the step paths of the rendered workflow definition, such as
+ * "main.steps[3].try.steps[0]", to the locations in the code where the steps
+ * were created.
+ */
+export interface WorkflowSourceMap {
+  version: 1
+  steps: Record<string, SourceMapEntry>
+}
+
+/**
+ * Build a source map of the steps created by the builder functions. Steps
+ * that were constructed in some other way, for example by the parser, are
+ * left out.
+ *
+ * The file names are relative to rootDir, which defaults to the current
+ * working directory.
+ */
+export function buildSourceMap(
+  app: WorkflowApp,
+  options: { rootDir?: string } = {}
+): WorkflowSourceMap {
+  const rootDir = options.rootDir ?? process.cwd()
+  const steps: Record<string, SourceMapEntry> = {}
+
+  for (const workflow of [app.mainWorkflow, ...app.subworkflows]) {
+    for (const [stepPath, { name, source }] of stepPaths(
+      workflow.steps,
+      `${workflow.name}.steps`
+    )) {
+      if (source) {
+        steps[stepPath] = {
+          workflow: workflow.name,
+          step: name,
+          file: relativeFileName(source.file, rootDir),
+          line: source.line,
+          column: source.column,
+        }
+      }
+    }
+  }
+
+  return { version: 1, steps }
+}
+
+/**
+ * Find the source locations of the steps referred to by a query. The query
+ * can be
+ * - a step path, with or without the step names: "main.steps[3].try.steps[0]"
+ *   or "main.steps[3].get_order.try.steps[0].fetch"
+ * - an error message from a workflow execution, which names the step and the
+ *   workflow as in: in step "fetch", routine "main"
+ * - an execution error object with a stack trace, as returned by the
+ *   Workflows API
+ */
+export function lookupSource(
+  sourceMap: WorkflowSourceMap,
+  query: unknown
+): SourceMapEntry[] {
+  const entries = Object.values(sourceMap.steps)
+  const findStep = (step: unknown, workflow: unknown) =>
+    entries.filter((x) => x.step === step && x.workflow === workflow)
+
+  if (typeof query === 'string') {
+    const exact = sourceMap.steps[query] ?? sourceMap.steps[withoutNames(query)]
+    if (exact) {
+      return [exact]
+    }
+
+    const stepPattern = /step "([^"]+)", routine "([^"]+)"/g
+    const found: SourceMapEntry[] = []
+    let match: RegExpExecArray | null
+    while ((match = stepPattern.exec(query)) !== null) {
+      found.push(...findStep(match[1], match[2]))
+    }
+
+    return found
+  } else if (isRecord(query)) {
+    const stackTrace = query.stackTrace
+    if (isRecord(stackTrace) && Array.isArray(stackTrace.elements)) {
+      return stackTrace.elements
+        .filter(isRecord)
+        .flatMap((element) => findStep(element.step, element.routine))
+    }
+
+    for (const key of ['context', 'message', 'error']) {
+      const found = lookupSource(sourceMap, query[key])
+      if (found.length > 0) {
+        return found
+      }
+    }
+  }
+
+  return []
+}
+
+/**
+ * Format an entry as "src/app.ts:12:5 (step "fetch" in workflow "main")".
+ */
+export function formatSourceMapEntry(entry: SourceMapEntry): string {
+  return `${entry.file}:${entry.line}:${entry.column} (step "${entry.step}" in workflow "${entry.workflow}")`
+}
+
+// Paths of the steps in the same order as they are rendered
+function* stepPaths(
+  steps: NamedWorkflowStep[],
+  basePath: string
+): IterableIterator<[string, NamedWorkflowStep]> {
+  for (const [i, namedStep] of steps.entries()) {
+    const stepPath = `${basePath}[${i}]`
+    yield [stepPath, namedStep]
+
+    const { step } = namedStep
+    if (step instanceof SwitchStep) {
+      for (const [j, cond] of step.conditions.entries()) {
+        yield* stepPaths(cond.steps, `${stepPath}.switch[${j}].steps`)
+      }
+    } else if (step instanceof TryExceptStep) {
+      yield* stepPaths(step.trySteps, `${stepPath}.try.steps`)
+      yield* stepPaths(step.exceptSteps, `${stepPath}.except.steps`)
+    } else if (step instanceof ForStep) {
+      yield* stepPaths(step.steps, `${stepPath}.for.steps`)
+    } else if (step instanceof Parallel) {
+      if (step.forStep) {
+        yield* stepPaths(step.forStep.steps, `${stepPath}.parallel.for.steps`)
+      } else {
+        yield* stepPaths(step.branches ?? [], `${stepPath}.parallel.branches`)
+      }
+    } else if (step instanceof StepsStep) {
+      yield* stepPaths(step.steps, `${stepPath}.steps`)
+    }
+  }
+}
+
+// Remove the step names that follow the indices of a step list:
+// main.steps[0].get_order.try => main.steps[0].try
+function withoutNames(stepPath: string): string {
+  return stepPath.replace(/((?:steps|branches)\[\d+\])\.[^.[\]]+/g, '$1')
+}
+
+// A file name relative to rootDir with forward slashes
+export function relativeFileName(file: string, rootDir: string): string {
+  if (!path.isAbsolute(file)) {
+    return file
+  }
+
+  return path.relative(rootDir, file).split(path.sep).join('/')
+}
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return typeof x === 'object' && x !== null && !Array.isArray(x)
+}
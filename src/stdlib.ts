@@ -0,0 +1,268 @@
+// A catalogue of the Workflows standard library functions
+// https://cloud.google.com/workflows/docs/reference/stdlib/overview
+
+export type StdlibType =
+  | 'any'
+  | 'boolean'
+  | 'bytes'
+  | 'double'
+  | 'integer'
+  | 'list'
+  | 'map'
+  | 'null'
+  | 'number'
+  | 'string'
+
+export interface StdlibParameter {
+  name: string
+  type: StdlibType
+  required: boolean
+}
+
+/**
+ * A standard library function. The parameters are given in the order of the
+ * positional arguments in expressions. Call steps pass the arguments by name.
+ */
+export interface StdlibFunction {
+  name: string
+  params: StdlibParameter[]
+  result: StdlibType
+}
+
+function required(name: string, type: StdlibType): StdlibParameter {
+  return { name, type, required: true }
+}
+
+function optional(name: string, type: StdlibType): StdlibParameter {
+  return { name, type, required: false }
+}
+
+function fn(
+  name: string,
+  params: StdlibParameter[],
+  result: StdlibType
+): StdlibFunction {
+  return { name, params, result }
+}
+
+// The optional parameters of all HTTP requests
+const httpOptions = [
+  optional('timeout', 'number'),
+  optional('headers', 'map'),
+  optional('query', 'map'),
+  optional('auth', 'map'),
+  optional('private_service_name', 'string'),
+]
+
+const httpRequestWithBody = [
+  required('url', 'string'),
+  optional('body', 'any'),
+  ...httpOptions,
+]
+
+export const stdlibFunctions: StdlibFunction[] = [
+  fn(
+    'base64.decode',
+    [required('data', 'string'), optional('padding', 'boolean')],
+    'bytes'
+  ),
+  fn(
+    'base64.encode',
+    [required('data', 'bytes'), optional('padding', 'boolean')],
+    'string'
+  ),
+
+  fn(
+    'events.await_callback',
+    [required('callback', 'map'), optional('timeout', 'number')],
+    'map'
+  ),
+  fn(
+    'events.create_callback_endpoint',
+    [optional('http_callback_method', 'string')],
+    'map'
+  ),
+
+  fn(
+    'experimental.executions.map',
+    [required('workflow_id', 'string'), required('arguments', 'list')],
+    'list'
+  ),
+  fn(
+    'experimental.executions.run',
+    [required('workflow_id', 'string'), optional('argument', 'any')],
+    'any'
+  ),
+
+  fn(
+    'hash.compute_checksum',
+    [required('data', 'bytes'), required('algorithm', 'string')],
+    'bytes'
+  ),
+  fn(
+    'hash.compute_hmac',
+    [
+      required('key', 'bytes'),
+      required('data', 'bytes'),
+      required('algorithm', 'string'),
+    ],
+    'bytes'
+  ),
+
+  fn('http.default_retry', [required('e', 'map')], 'boolean'),
+  fn('http.default_retry_non_idempotent', [required('e', 'map')], 'boolean'),
+  fn('http.default_retry_predicate', [required('e', 'map')], 'boolean'),
+  fn(
+    'http.default_retry_predicate_non_idempotent',
+    [required('e', 'map')],
+    'boolean'
+  ),
+  fn('http.delete', httpRequestWithBody, 'map'),
+  fn('http.get', [required('url', 'string'), ...httpOptions], 'map'),
+  fn('http.patch', httpRequestWithBody, 'map'),
+  fn('http.post', httpRequestWithBody, 'map'),
+  fn('http.put', httpRequestWithBody, 'map'),
+  fn(
+    'http.request',
+    [required('method', 'string'), ...httpRequestWithBody],
+    'map'
+  ),
+
+  fn('json.decode', [required('data', 'any')], 'any'),
+  fn(
+    'json.encode',
+    [required('data', 'any'), optional('indent', 'any')],
+    'bytes'
+  ),
+  fn(
+    'json.encode_to_string',
+    [required('data', 'any'), optional('indent', 'any')],
+    'string'
+  ),
+
+  fn('list.concat', [required('objs', 'list'), required('val', 'any')], 'list'),
+  fn(
+    'list.prepend',
+    [required('objs', 'list'), required('val', 'any')],
+    'list'
+  ),
+
+  fn('map.delete', [required('map', 'map'), required('key', 'string')], 'map'),
+  fn('map.get', [required('map', 'map'), required('keys', 'any')], 'any'),
+  fn('map.merge', [required('first', 'map'), required('second', 'map')], 'map'),
+  fn(
+    'map.merge_nested',
+    [required('first', 'map'), required('second', 'map')],
+    'map'
+  ),
+
+  fn('math.abs', [required('x', 'number')], 'number'),
+  fn('math.floor', [required('x', 'number')], 'integer'),
+  fn('math.max', [required('x', 'number'), required('y', 'number')], 'number'),
+  fn('math.min', [required('x', 'number'), required('y', 'number')], 'number'),
+
+  fn('retry.always', [required('e', 'map')], 'boolean'),
+  fn('retry.never', [required('e', 'map')], 'boolean'),
+
+  fn(
+    'sys.get_env',
+    [required('name', 'string'), optional('default', 'string')],
+    'string'
+  ),
+  fn(
+    'sys.log',
+    [
+      optional('data', 'any'),
+      optional('severity', 'string'),
+      optional('text', 'any'),
+      optional('json', 'any'),
+      optional('timeout', 'number'),
+    ],
+    'null'
+  ),
+  fn('sys.now', [], 'double'),
+  fn('sys.sleep', [required('seconds', 'number')], 'null'),
+  fn('sys.sleep_until', [required('time', 'string')], 'null'),
+
+  fn(
+    'text.decode',
+    [required('data', 'bytes'), optional('charset', 'string')],
+    'string'
+  ),
+  fn(
+    'text.encode',
+    [required('text', 'string'), optional('charset', 'string')],
+    'bytes'
+  ),
+  fn(
+    'text.find_all',
+    [required('source', 'string'), required('substr', 'string')],
+    'list'
+  ),
+  fn(
+    'text.find_all_regex',
+    [required('source', 'string'), required('regexp', 'string')],
+    'list'
+  ),
+  fn(
+    'text.match_regex',
+    [required('source', 'string'), required('regexp', 'string')],
+    'boolean'
+  ),
+  fn(
+    'text.replace_all',
+    [
+      required('source', 'string'),
+      required('substr', 'string'),
+      required('repl', 'string'),
+    ],
+    'string'
+  ),
+  fn(
+    'text.replace_all_regex',
+    [
+      required('source', 'string'),
+      required('regexp', 'string'),
+      required('repl', 'string'),
+    ],
+    'string'
+  ),
+  fn(
+    'text.split',
+    [required('source', 'string'), required('separator', 'string')],
+    'list'
+  ),
+  fn(
+    'text.substring',
+    [
+      required('source', 'string'),
+      required('start', 'integer'),
+      required('end', 'integer'),
+    ],
+    'string'
+  ),
+  fn('text.to_lower', [required('source', 'string')], 'string'),
+  fn('text.to_upper', [required('source', 'string')], 'string'),
+  fn('text.url_decode', [required('source', 'string')], 'string'),
+  fn('text.url_encode', [required('source', 'string')], 'string'),
+  fn('text.url_encode_plus', [required('source', 'string')], 'string'),
+
+  fn(
+    'time.format',
+    [required('seconds', 'number'), optional('timezone', 'string')],
+    'string'
+  ),
+  fn('time.parse', [required('value', 'string')], 'double'),
+
+  fn('uuid.generate', [], 'string'),
+]
+
+const stdlibByName = new Map(stdlibFunctions.map((x) => [x.name, x]))
+
+/**
+ * Returns the standard library function with the given name, or undefined if
+ * there is no such function.
+ */
+export function getStdlibFunction(name: string): StdlibFunction | undefined {
+  return stdlibByName.get(name)
+}
@@ -7,20 +7,39 @@ export type GWAssignment = readonly [GWVariableName, GWValue]
 export type GWArguments = Record<GWVariableName, GWValue>
 
 export interface WorkflowStep {
+  // The step to jump to after this step
+  readonly next?: GWStepName
   render(): object
   nestedSteps(): NamedWorkflowStep[]
 }
 
-export type NamedWorkflowStep = { name: GWStepName; step: WorkflowStep }
+export type NamedWorkflowStep = {
+  name: GWStepName
+  step: WorkflowStep
+  // Written as a comment in the YAML output
+  description?: string
+  // Where the step was created. Set by the builder functions.
+  source?: SourceLocation
+}
+
+export interface SourceLocation {
+  file: string
+  line: number
+  column: number
+}
 
 export const end = 'end'
+export const breakLoop = 'break'
+export const continueLoop = 'continue'
 
 // https://cloud.google.com/workflows/docs/reference/syntax/variables#assign-step
 export class AssignStep implements WorkflowStep {
   readonly assignments: Array<GWAssignment>
+  readonly next?: GWStepName
 
-  constructor(assignments: Array<GWAssignment>) {
+  constructor(assignments: Array<GWAssignment>, next?: GWStepName) {
     this.assignments = assignments
+    this.next = next
   }
 
   render(): object {
@@ -28,6 +47,7 @@ export class AssignStep implements WorkflowStep {
       assign: this.assignments.map(([key, val]) => {
         return { [key]: renderGWValue(val) }
       }),
+      next: this.next,
     }
   }
 
@@ -38,9 +58,34 @@ export class AssignStep implements WorkflowStep {
 
 export function assign(
   name: GWStepName,
-  assignments: Array<GWAssignment>
+  assignments: Array<GWAssignment>,
+  options: { next?: GWStepName } = {}
 ): NamedWorkflowStep {
-  return { name, step: new AssignStep(assignments) }
+  return {
+    name,
+    step: new AssignStep(assignments, options.next),
+    source: callerLocation(assign),
+  }
+}
+
+/**
+ * Options of a connector call (googleapis.*). Rendered as the connector_params
+ * argument.
+ */
+export interface ConnectorParams {
+  // Timeout of the call in seconds, including the polling of a long-running
+  // operation
+  timeout?: number
+  // How a long-running operation is polled, delays in seconds
+  pollingPolicy?: {
+    initialDelay: number
+    multiplier: number
+    maxDelay: number
+  }
+  // Don't wait for a long-running operation to complete
+  skipPolling?: boolean
+  // OAuth scopes of the access token
+  scopes?: string | string[]
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/calls
@@ -48,11 +93,25 @@ export class CallStep implements WorkflowStep {
   readonly call: string
   readonly args?: GWArguments
   readonly result?: string
+  readonly next?: GWStepName
+  // The called subworkflow if the step was created with a Subworkflow object
+  readonly subworkflow?: Subworkflow
+  readonly connectorParams?: ConnectorParams
 
-  constructor(call: string, args?: GWArguments, result?: string) {
+  constructor(
+    call: string,
+    args?: GWArguments,
+    result?: string,
+    next?: GWStepName,
+    subworkflow?: Subworkflow,
+    connectorParams?: ConnectorParams
+  ) {
     this.call = call
     this.args = args
     this.result = result
+    this.next = next
+    this.subworkflow = subworkflow
+    this.connectorParams = connectorParams
   }
 
   render(): object {
@@ -66,11 +125,18 @@ export class CallStep implements WorkflowStep {
         })
       )
     }
+    if (this.connectorParams) {
+      renderedArgs = {
+        ...renderedArgs,
+        connector_params: renderConnectorParams(this.connectorParams),
+      }
+    }
 
     return {
       call: this.call,
       args: renderedArgs,
       result: this.result,
+      next: this.next,
     }
   }
 
@@ -81,12 +147,26 @@ export class CallStep implements WorkflowStep {
 
 export function call(
   name: GWStepName,
-  options: { call: string | Subworkflow; args?: GWArguments; result?: string }
+  options: {
+    call: string | Subworkflow
+    args?: GWArguments
+    result?: string
+    connectorParams?: ConnectorParams
+    next?: GWStepName
+  }
 ): NamedWorkflowStep {
   const callTarget = options.call instanceof Subworkflow ? options.call.name : options.call
   return {
     name,
-    step: new CallStep(callTarget, options.args, options.result),
+    step: new CallStep(
+      callTarget,
+      options.args,
+      options.result,
+      options.next,
+      options.call instanceof Subworkflow ? options.call : undefined,
+      options.connectorParams
+    ),
+    source: callerLocation(call),
   }
 }
 
@@ -153,14 +233,21 @@ export function switchStep(
   name: GWStepName,
   options: { conditions: SwitchCondition[]; next?: GWStepName }
 ): NamedWorkflowStep {
-  return { name, step: new SwitchStep(options.conditions, options.next) }
+  return {
+    name,
+    step: new SwitchStep(options.conditions, options.next),
+    source: callerLocation(switchStep),
+  }
 }
 
 export type DefaultRetryPolicy =
   | 'http.default_retry'
   | 'http.default_retry_non_idempotent'
+export type DefaultRetryPredicate =
+  | 'http.default_retry_predicate'
+  | 'http.default_retry_predicate_non_idempotent'
 export interface CustomRetryPolicy {
-  predicate: DefaultRetryPolicy | Subworkflow
+  predicate: DefaultRetryPolicy | DefaultRetryPredicate | Subworkflow
   maxRetries: number
   backoff: {
     initialDelay: number
@@ -177,17 +264,20 @@ export class TryExceptStep implements WorkflowStep {
   readonly trySteps: NamedWorkflowStep[]
   // Steps in the except block
   readonly exceptSteps: NamedWorkflowStep[]
+  readonly next?: GWStepName
 
   constructor(
     steps: NamedWorkflowStep[],
     exceptSteps: NamedWorkflowStep[],
     retryPolicy?: DefaultRetryPolicy | CustomRetryPolicy,
-    errorMap?: GWVariableName
+    errorMap?: GWVariableName,
+    next?: GWStepName
   ) {
     this.trySteps = steps
     this.retryPolicy = retryPolicy
     this.errorMap = errorMap
     this.exceptSteps = exceptSteps
+    this.next = next
   }
 
   render(): object {
@@ -217,10 +307,20 @@ export class TryExceptStep implements WorkflowStep {
         steps: renderSteps(this.trySteps),
       },
       retry: retry,
-      except: {
-        as: this.errorMap,
-        steps: renderSteps(this.exceptSteps),
-      },
+      except: this.renderExcept(),
+      next: this.next,
+    }
+  }
+
+  private renderExcept(): object | undefined {
+    // A try step with only a retry policy doesn't need an except block
+    if (this.exceptSteps.length === 0 && !this.errorMap) {
+      return undefined
+    }
+
+    return {
+      as: this.errorMap,
+      steps: renderSteps(this.exceptSteps),
     }
   }
 
@@ -236,6 +336,7 @@ export function tryExcept(
     retryPolicy?: DefaultRetryPolicy | CustomRetryPolicy
     errorMap?: GWVariableName
     exceptSteps: NamedWorkflowStep[]
+    next?: GWStepName
   }
 ): NamedWorkflowStep {
   return {
@@ -244,8 +345,10 @@ export function tryExcept(
       options.steps,
       options.exceptSteps,
       options.retryPolicy,
-      options.errorMap
+      options.errorMap,
+      options.next
     ),
+    source: callerLocation(tryExcept),
   }
 }
 
@@ -269,7 +372,7 @@ export class RaiseStep implements WorkflowStep {
 }
 
 export function raise(name: GWStepName, value: GWValue): NamedWorkflowStep {
-  return { name, step: new RaiseStep(value) }
+  return { name, step: new RaiseStep(value), source: callerLocation(raise) }
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/iteration
@@ -280,6 +383,8 @@ export class ForStep implements WorkflowStep {
   readonly listExpression?: GWExpression | GWValue[]
   readonly rangeStart?: number
   readonly rangeEnd?: number
+  // Not rendered when the loop is the body of a parallel step
+  readonly next?: GWStepName
 
   constructor(
     steps: NamedWorkflowStep[],
@@ -287,7 +392,8 @@ export class ForStep implements WorkflowStep {
     listExpression?: GWExpression | GWValue[],
     indexVariable?: GWVariableName,
     rangeStart?: number,
-    rangeEnd?: number
+    rangeEnd?: number,
+    next?: GWStepName
   ) {
     this.steps = steps
     this.loopVariableName = loopVariable
@@ -295,11 +401,13 @@ export class ForStep implements WorkflowStep {
     this.listExpression = listExpression
     this.rangeStart = rangeStart
     this.rangeEnd = rangeEnd
+    this.next = next
   }
 
   render(): object {
     return {
       for: this.renderBody(),
+      next: this.next,
     }
   }
 
@@ -336,12 +444,14 @@ export function forStep(
         loopVariable: GWVariableName
         indexVariable?: GWVariableName
         listExpression: GWExpression | GWValue[]
+        next?: GWStepName
       }
     | {
         steps: NamedWorkflowStep[]
         loopVariable: GWVariableName
         start: number
         end: number
+        next?: GWStepName
       }
 ): NamedWorkflowStep {
   let step: ForStep
@@ -352,7 +462,8 @@ export function forStep(
       options.listExpression,
       options.indexVariable,
       undefined,
-      undefined
+      undefined,
+      options.next
     )
   } else {
     step = new ForStep(
@@ -361,13 +472,15 @@ export function forStep(
       undefined,
       undefined,
       options.start,
-      options.end
+      options.end,
+      options.next
     )
   }
 
   return {
     name,
     step,
+    source: callerLocation(forStep),
   }
 }
 
@@ -379,13 +492,17 @@ export class StepsStep implements WorkflowStep {
   // @ts-ignore
   private readonly _isStepsStep: boolean = true
 
-  constructor(steps: NamedWorkflowStep[]) {
+  readonly next?: GWStepName
+
+  constructor(steps: NamedWorkflowStep[], next?: GWStepName) {
     this.steps = steps
+    this.next = next
   }
 
   render(): object {
     return {
       steps: renderSteps(this.steps),
+      next: this.next,
     }
   }
 
@@ -396,9 +513,14 @@ export class StepsStep implements WorkflowStep {
 
 export function stepsStep(
   name: GWStepName,
-  steps: NamedWorkflowStep[]
+  steps: NamedWorkflowStep[],
+  options: { next?: GWStepName } = {}
 ): NamedWorkflowStep {
-  return { name, step: new StepsStep(steps) }
+  return {
+    name,
+    step: new StepsStep(steps, options.next),
+    source: callerLocation(stepsStep),
+  }
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/parallel-steps
@@ -408,14 +530,17 @@ export class Parallel implements WorkflowStep {
   readonly forStep?: ForStep
   readonly shared?: GWVariableName[]
   readonly concurrenceLimit?: number
+  readonly next?: GWStepName
 
   constructor(
     steps: NamedWorkflowStep[] | ForStep,
     shared?: GWVariableName[],
-    concurrencyLimit?: number
+    concurrencyLimit?: number,
+    next?: GWStepName
   ) {
     this.shared = shared
     this.concurrenceLimit = concurrencyLimit
+    this.next = next
 
     if (steps instanceof ForStep) {
       this.forStep = steps
@@ -432,6 +557,7 @@ export class Parallel implements WorkflowStep {
         branches: this.branches ? renderSteps(this.branches) : undefined,
         for: this.forStep ? this.forStep.renderBody() : undefined,
       },
+      next: this.next,
     }
   }
 
@@ -447,17 +573,25 @@ export function parallel(
         branches: NamedWorkflowStep[]
         shared?: GWVariableName[]
         concurrencyLimit?: number
+        next?: GWStepName
       }
     | {
         forLoop: ForStep
         shared?: GWVariableName[]
         concurrencyLimit?: number
+        next?: GWStepName
       }
 ): NamedWorkflowStep {
   const steps = 'branches' in options ? options.branches : options.forLoop
   return {
     name,
-    step: new Parallel(steps, options.shared, options.concurrencyLimit),
+    step: new Parallel(
+      steps,
+      options.shared,
+      options.concurrencyLimit,
+      options.next
+    ),
+    source: callerLocation(parallel),
   }
 }
 
@@ -484,7 +618,96 @@ export function returnStep(
   name: GWStepName,
   value: GWValue
 ): NamedWorkflowStep {
-  return { name, step: new ReturnStep(value) }
+  return {
+    name,
+    step: new ReturnStep(value),
+    source: callerLocation(returnStep),
+  }
+}
+
+// https://cloud.google.com/workflows/docs/reference/syntax/jumps
+// A step that only jumps to another step
+export class NextStep implements WorkflowStep {
+  readonly next: GWStepName
+
+  constructor(next: GWStepName) {
+    this.next = next
+  }
+
+  render(): object {
+    return {
+      next: this.next,
+    }
+  }
+
+  nestedSteps(): NamedWorkflowStep[] {
+    return []
+  }
+}
+
+export function jump(name: GWStepName, next: GWStepName): NamedWorkflowStep {
+  return { name, step: new NextStep(next), source: callerLocation(jump) }
+}
+
+// https://cloud.google.com/workflows/docs/reference/syntax/iteration#break-continue
+// Exits the innermost for loop
+export function breakStep(name: GWStepName): NamedWorkflowStep {
+  return {
+    name,
+    step: new NextStep(breakLoop),
+    source: callerLocation(breakStep),
+  }
+}
+
+// Skips to the next iteration of the innermost for loop
+export function continueStep(name: GWStepName): NamedWorkflowStep {
+  return {
+    name,
+    step: new NextStep(continueLoop),
+    source: callerLocation(continueStep),
+  }
+}
+
+/**
+ * Attach a description to a step. The description is written as a comment
+ * above the step in the YAML output.
+ */
+export function withDescription(
+  step: NamedWorkflowStep,
+  description: string
+): NamedWorkflowStep {
+  return { ...step, description }
+}
+
+function renderConnectorParams(params: ConnectorParams): object {
+  return {
+    timeout: params.timeout,
+    polling_policy: params.pollingPolicy
+      ? {
+          initial_delay: params.pollingPolicy.initialDelay,
+          multiplier: params.pollingPolicy.multiplier,
+          max_delay: params.pollingPolicy.maxDelay,
+        }
+      : undefined,
+    skip_polling: params.skipPolling,
+    scopes: params.scopes,
+  }
+}
+
+// The location of the code that called a builder function
+export function callerLocation(
+  builder: (...args: never[]) => NamedWorkflowStep
+): SourceLocation | undefined {
+  // Omits the frames of the builder and this function
+  const holder: { stack?: string } = {}
+  Error.captureStackTrace(holder, builder)
+  const frame = holder.stack?.split('\n')[1] ?? ''
+  const match = /^\s*at (?:.* \()?(.+?):(\d+):(\d+)\)?$/.exec(frame)
+  if (!match) {
+    return undefined
+  }
+
+  return { file: match[1], line: Number(match[2]), column: Number(match[3]) }
 }
 
 function renderSteps(steps: NamedWorkflowStep[]) {
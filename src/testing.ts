@@ -0,0 +1,263 @@
+import { isDeepStrictEqual } from 'util'
+import { WorkflowCoverage } from './coverage'
+import {
+  ExecutionOptions,
+  ExpressionFunction,
+  RuntimeFunctionHandler,
+  executeWorkflow,
+} from './interpreter'
+import { hasKey } from './expressions'
+import { getStdlibFunction } from './stdlib'
+import { WorkflowApp } from './workflows'
+
+export interface TestRunOptions {
+  // The argument of the main workflow
+  args?: unknown
+  /**
+   * Mocked runtime functions by function name. A mock is called with the
+   * arguments of a call step. Mocks of standard library functions are used
+   * also in expressions, such as ${sys.now()}. The positional arguments of an
+   * expression call are passed to the mock by their parameter names, and the
+   * calls are recorded like calls of call steps.
+   */
+  mocks?: Record<string, RuntimeFunctionHandler>
+  // Functions used in expressions. Override the mocks and the built-in
+  // functions.
+  functions?: Record<string, ExpressionFunction>
+  // Called to wait between retries and on sys.sleep. Doesn't wait by default.
+  sleep?: (seconds: number) => Promise<void>
+  // Records the coverage of the execution
+  coverage?: WorkflowCoverage
+}
+
+// A step in the execution trace
+export interface TracedStep {
+  workflow: string
+  step: string
+}
+
+// A call step that called a subworkflow or a runtime function, or an
+// expression that called a mocked standard library function
+export interface RecordedCall {
+  // The workflow and the step that made the call
+  workflow: string
+  step: string
+  // The called subworkflow or runtime function
+  target: string
+  args: Record<string, unknown>
+}
+
+export class WorkflowAssertionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = this.constructor.name
+  }
+}
+
+/**
+ * The outcome of a workflow execution by runWorkflow() with assertions about
+ * the executed steps and calls. The assertions throw a WorkflowAssertionError
+ * if they fail.
+ */
+export class WorkflowTestRun {
+  readonly status: 'succeeded' | 'failed'
+  // The value returned by the main workflow, undefined if the workflow failed
+  readonly result: unknown
+  // The error raised by the main workflow, undefined if the workflow succeeded
+  readonly error: unknown
+  // The top-level variables of the main workflow at the end of the execution
+  readonly variables: Record<string, unknown>
+  // The executed steps in the order of execution
+  readonly trace: TracedStep[]
+  // The calls in the order they were made
+  readonly calls: RecordedCall[]
+
+  constructor(
+    outcome: Pick<WorkflowTestRun, 'status' | 'result' | 'error'>,
+    variables: Record<string, unknown>,
+    trace: TracedStep[],
+    calls: RecordedCall[]
+  ) {
+    this.status = outcome.status
+    this.result = outcome.result
+    this.error = outcome.error
+    this.variables = variables
+    this.trace = trace
+    this.calls = calls
+  }
+
+  // Names of the steps executed by the workflow in the order of execution
+  executedSteps(workflow = 'main'): string[] {
+    return this.trace.filter((x) => x.workflow === workflow).map((x) => x.step)
+  }
+
+  wasExecuted(step: string, workflow = 'main'): boolean {
+    return this.executedSteps(workflow).includes(step)
+  }
+
+  // Calls to a subworkflow or a runtime function
+  callsTo(target: string): RecordedCall[] {
+    return this.calls.filter((x) => x.target === target)
+  }
+
+  expectSucceeded(): void {
+    if (this.status !== 'succeeded') {
+      this.fail(
+        `Expected the workflow to succeed, but it raised ${JSON.stringify(
+          this.error
+        )}`
+      )
+    }
+  }
+
+  expectFailed(): void {
+    if (this.status !== 'failed') {
+      this.fail(
+        `Expected the workflow to fail, but it returned ${JSON.stringify(
+          this.result
+        )}`
+      )
+    }
+  }
+
+  expectStepExecuted(step: string, workflow = 'main'): void {
+    if (!this.wasExecuted(step, workflow)) {
+      this.fail(
+        `Expected step "${step}" of workflow "${workflow}" to be executed. Executed steps: ${this.executedSteps(
+          workflow
+        ).join(', ')}`
+      )
+    }
+  }
+
+  expectStepNotExecuted(step: string, workflow = 'main'): void {
+    if (this.wasExecuted(step, workflow)) {
+      this.fail(
+        `Expected step "${step}" of workflow "${workflow}" not to be executed`
+      )
+    }
+  }
+
+  // Passes if at least one call to the target had exactly these arguments
+  expectCalledWith(target: string, args: Record<string, unknown>): void {
+    const calls = this.callsTo(target)
+    if (!calls.some((x) => isDeepStrictEqual(x.args, args))) {
+      const actual = calls.map((x) => JSON.stringify(x.args))
+      this.fail(
+        `Expected "${target}" to be called with ${JSON.stringify(args)}. ${
+          calls.length > 0
+            ? `Actual arguments: ${actual.join(', ')}`
+            : 'It was not called.'
+        }`
+      )
+    }
+  }
+
+  expectCallCount(target: string, count: number): void {
+    const actual = this.callsTo(target).length
+    if (actual !== count) {
+      this.fail(
+        `Expected "${target}" to be called ${count} times, but it was called ${actual} times`
+      )
+    }
+  }
+
+  private fail(message: string): never {
+    throw new WorkflowAssertionError(message)
+  }
+}
+
+/**
+ * Execute a workflow locally with mocked runtime functions and record the
+ * executed steps and calls.
+ *
+ * Rejects the promise if the workflow can't be executed, for example, because
+ * it calls a runtime function that is not mocked.
+ */
+export async function runWorkflow(
+  app: WorkflowApp,
+  options: TestRunOptions = {}
+): Promise<WorkflowTestRun> {
+  const mocks = options.mocks ?? {}
+  const trace: TracedStep[] = []
+  const calls: RecordedCall[] = []
+  let variables: Record<string, unknown> = {}
+  const coverage = options.coverage?.observer(app) ?? {}
+
+  const executionOptions: ExecutionOptions = {
+    handlers: mocks,
+    functions: {
+      ...mockedExpressionFunctions(mocks),
+      ...options.functions,
+    },
+    sleep: options.sleep ?? (() => Promise.resolve()),
+    observer: {
+      ...coverage,
+      onStep: (event) => {
+        trace.push(event)
+        coverage.onStep?.(event)
+      },
+      onCall: (event) => calls.push(event),
+      onFunctionCall: (event) => {
+        const args = mockedFunctionArguments(mocks, event.name, event.args)
+        if (args && !hasKey(options.functions ?? {}, event.name)) {
+          calls.push({
+            workflow: event.workflow,
+            // A default value of a parameter
+            step: event.step ?? '',
+            target: event.name,
+            args,
+          })
+        }
+      },
+      onWorkflowExit: (event) => {
+        // The main workflow is the last one to exit
+        variables = event.variables
+      },
+    },
+  }
+
+  const outcome = await executeWorkflow(app, options.args, executionOptions)
+
+  return new WorkflowTestRun(
+    outcome.status === 'succeeded'
+      ? { status: 'succeeded', result: outcome.result, error: undefined }
+      : { status: 'failed', result: undefined, error: outcome.error },
+    variables,
+    trace,
+    calls
+  )
+}
+
+// Expression functions that call the mocks of the standard library functions
+// with the positional arguments mapped to the parameter names
+function mockedExpressionFunctions(
+  mocks: Record<string, RuntimeFunctionHandler>
+): Record<string, ExpressionFunction> {
+  return Object.fromEntries(
+    Object.keys(mocks).flatMap((name) => {
+      const fn: ExpressionFunction = (...args) =>
+        mocks[name](mockedFunctionArguments(mocks, name, args) ?? {})
+      return getStdlibFunction(name) ? [[name, fn]] : []
+    })
+  )
+}
+
+// The named arguments of a call to a mocked standard library function in an
+// expression, or undefined if the function is not mocked
+function mockedFunctionArguments(
+  mocks: Record<string, RuntimeFunctionHandler>,
+  name: string,
+  args: unknown[]
+): Record<string, unknown> | undefined {
+  const stdlibFunction = getStdlibFunction(name)
+  if (!stdlibFunction || !hasKey(mocks, name)) {
+    return undefined
+  }
+
+  return Object.fromEntries(
+    stdlibFunction.params
+      .slice(0, args.length)
+      .map((param, i) => [param.name, args[i]])
+  )
+}
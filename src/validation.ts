@@ -1,4 +1,30 @@
-import { CallStep, SwitchStep } from './steps'
+import { buildCallGraph } from './callgraph'
+import {
+  buildControlFlowGraph,
+  entryNode,
+  exitNode,
+  switchNeverFallsThrough,
+} from './cfg'
+import { Expression, parseExpression, referencedVariables } from './expressions'
+import {
+  AssignStep,
+  CallStep,
+  ForStep,
+  GWStepName,
+  NamedWorkflowStep,
+  Parallel,
+  RaiseStep,
+  ReturnStep,
+  StepsStep,
+  SwitchStep,
+  TryExceptStep,
+  WorkflowStep,
+  breakLoop,
+  continueLoop,
+  end,
+} from './steps'
+import { getStdlibFunction, stdlibFunctions } from './stdlib'
+import { GWExpression, GWValue } from './variables'
 import { BaseWorkflow, WorkflowApp } from './workflows'
 
 export class WorkflowValidationError extends Error {
@@ -12,22 +38,117 @@ export class WorkflowValidationError extends Error {
   }
 }
 
-export type WorkflowIssue = { type: string; message: string }
+export type IssueSeverity = 'error' | 'warning' | 'info'
+
+export interface WorkflowIssueLocation {
+  workflow: string
+  // Undefined if the issue concerns the whole workflow
+  step?: GWStepName
+  // The path from the workflow to the step through the enclosing steps and
+  // blocks: "main > try_get > except > known_errors > condition[0]"
+  path: string
+}
+
+export type WorkflowIssue = {
+  type: string
+  message: string
+  severity: IssueSeverity
+  // Undefined if the issue concerns the whole app
+  location?: WorkflowIssueLocation
+}
+
+// A severity override or "off" to disable a validator
+export type RuleSetting = IssueSeverity | 'off'
+
+export interface ValidateOptions {
+  // Types of the issues whose validators are skipped
+  disabled?: string[]
+  // Settings of the built-in and custom validators by name
+  rules?: Record<string, RuleSetting>
+  // Additional validators executed after the built-in validators
+  validators?: CustomValidator[]
+  // Throw a WorkflowValidationError if there are errors. Default: true
+  throwOnError?: boolean
+}
+
+/**
+ * A user-defined validator. The visitor callbacks report issues through the
+ * context. The name of the validator is the type of the issues it reports.
+ */
+export interface CustomValidator {
+  name: string
+  // The severity of the reported issues unless overridden in the rules.
+  // Default: 'error'
+  severity?: IssueSeverity
+  // Called for the main workflow and for each subworkflow
+  visitWorkflow?: (workflow: BaseWorkflow, context: ValidatorContext) => void
+  // Called for each step, including the nested steps, in depth-first order
+  visitStep?: (step: NamedWorkflowStep, context: StepValidatorContext) => void
+}
+
+export interface ValidatorContext {
+  app: WorkflowApp
+  workflow: BaseWorkflow
+  // Report an issue. The location defaults to the visited workflow or step.
+  report: (message: string, location?: WorkflowIssueLocation) => void
+}
+
+export interface StepValidatorContext extends ValidatorContext {
+  // The steps enclosing the visited step, the outermost first
+  ancestors: NamedWorkflowStep[]
+  location: WorkflowIssueLocation
+}
 
 /**
- * Execute all syntax validators on a WorkflowApp app.
+ * Execute all syntax validators and the custom validators on a WorkflowApp
+ * app. The second argument is either the options or a list of validators to
+ * skip.
  *
- * Throws a WorkflowValidationError if there are errors.
+ * Returns the issues found. Throws a WorkflowValidationError if some of the
+ * issues have the error severity, unless throwOnError is false.
  */
-export function validate(app: WorkflowApp, disabled: string[] = []): void {
-  const validators = new Map([
+export function validate(
+  app: WorkflowApp,
+  options: ValidateOptions | string[] = {}
+): WorkflowIssue[] {
+  const {
+    disabled = [],
+    rules = {},
+    validators: customValidators = [],
+    throwOnError = true,
+  } = Array.isArray(options) ? { disabled: options } : options
+  const validators = new Map<string, (app: WorkflowApp) => WorkflowIssue[]>([
     ['invalidWorkflowName', validateWorkflowNames],
     ['duplicatedStepName', validateNoDuplicateStepNames],
     ['duplicatedSubworkflowName', validateNoDuplicateSubworkflowNames],
     ['missingJumpTarget', validateJumpTargets],
+    ['unknownFunction', validateFunctionsExist],
     ['wrongNumberOfCallArguments', validateSubworkflowArguments],
+    ['undefinedVariable', validateVariablesDefined],
+    ['nonSharedVariableAssignment', validateParallelAssignments],
+    ['loopVariableOutOfScope', validateLoopVariableScope],
+    ['undefinedSharedVariable', validateSharedVariablesDefined],
+    ['invalidLoopControl', validateLoopControl],
+    ['unreachableStep', validateStepsReachable],
+    ['infiniteLoop', validateLoopsExit],
+    ['subworkflowNotIncluded', validateSubworkflowsIncluded],
+    ['unusedSubworkflow', validateSubworkflowsUsed],
+    ['recursiveSubworkflow', validateNoRecursion],
   ])
 
+  for (const custom of customValidators) {
+    if (validators.has(custom.name)) {
+      throw new Error(`Validator "${custom.name}" is already defined`)
+    }
+    validators.set(custom.name, (app) => runCustomValidator(app, custom))
+  }
+
+  for (const rule of Object.keys(rules)) {
+    if (!validators.has(rule)) {
+      throw new Error(`Unknown validation rule "${rule}"`)
+    }
+  }
+
   for (const dis of disabled) {
     if (validators.has(dis)) {
       validators.delete(dis)
@@ -35,13 +156,137 @@ export function validate(app: WorkflowApp, disabled: string[] = []): void {
   }
 
   const issues: WorkflowIssue[] = []
-  for (const validator of validators.values()) {
-    issues.push(...validator(app))
+  for (const [name, validator] of validators) {
+    const setting = rules[name]
+    if (setting === 'off') {
+      continue
+    }
+
+    const found = validator(app)
+    issues.push(
+      ...(setting ? found.map((x) => ({ ...x, severity: setting })) : found)
+    )
   }
 
-  if (issues.length > 0) {
+  if (throwOnError && issues.some((x) => x.severity === 'error')) {
     throw new WorkflowValidationError(issues)
   }
+
+  return issues
+}
+
+function runCustomValidator(
+  app: WorkflowApp,
+  validator: CustomValidator
+): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = []
+  const reporter =
+    (defaultLocation: WorkflowIssueLocation) =>
+    (message: string, location: WorkflowIssueLocation = defaultLocation) => {
+      issues.push({
+        type: validator.name,
+        message,
+        severity: validator.severity ?? 'error',
+        location,
+      })
+    }
+
+  for (const workflow of [app.mainWorkflow, ...app.subworkflows]) {
+    validator.visitWorkflow?.(workflow, {
+      app,
+      workflow,
+      report: reporter(workflowLocation(workflow.name)),
+    })
+
+    walkSteps(workflow, (step, ancestors, path) => {
+      const location = {
+        workflow: workflow.name,
+        step: step.name,
+        path: path.join(' > '),
+      }
+      validator.visitStep?.(step, {
+        app,
+        workflow,
+        ancestors,
+        location,
+        report: reporter(location),
+      })
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Call the visitor on each step in depth-first order. The path leads from the
+ * workflow to the step through the enclosing steps and blocks.
+ */
+function walkSteps(
+  workflow: BaseWorkflow,
+  visitor: (
+    step: NamedWorkflowStep,
+    ancestors: NamedWorkflowStep[],
+    path: string[]
+  ) => void
+) {
+  function visitSteps(
+    steps: NamedWorkflowStep[],
+    ancestors: NamedWorkflowStep[],
+    parentPath: string[]
+  ) {
+    for (const namedStep of steps) {
+      const { name, step } = namedStep
+      const path = [...parentPath, name]
+      visitor(namedStep, ancestors, path)
+
+      const nestedAncestors = [...ancestors, namedStep]
+      if (step instanceof SwitchStep) {
+        step.conditions.forEach((cond, i) => {
+          visitSteps(cond.steps, nestedAncestors, [...path, `condition[${i}]`])
+        })
+      } else if (step instanceof TryExceptStep) {
+        visitSteps(step.trySteps, nestedAncestors, [...path, 'try'])
+        visitSteps(step.exceptSteps, nestedAncestors, [...path, 'except'])
+      } else {
+        visitSteps(step.nestedSteps(), nestedAncestors, path)
+      }
+    }
+  }
+
+  visitSteps(workflow.steps, [], [workflow.name])
+}
+
+// Paths of the steps of a workflow, indexed by the step name
+function stepPaths(workflow: BaseWorkflow): Map<GWStepName, string[]> {
+  const paths = new Map<GWStepName, string[]>()
+  walkSteps(workflow, ({ name }, _, path) => {
+    if (!paths.has(name)) {
+      paths.set(name, path)
+    }
+  })
+
+  return paths
+}
+
+/**
+ * The location of a step. The optional detail, such as "condition[0]", points
+ * to a part of the step.
+ */
+function stepLocation(
+  workflow: BaseWorkflow,
+  stepName: GWStepName,
+  detail?: string
+): WorkflowIssueLocation {
+  const path = stepPaths(workflow).get(stepName) ?? [workflow.name, stepName]
+  return {
+    workflow: workflow.name,
+    step: stepName,
+    path: (detail ? [...path, detail] : path).join(' > '),
+  }
+}
+
+function workflowLocation(workflowName: string): WorkflowIssueLocation {
+  return { workflow: workflowName, path: workflowName }
 }
 
 /**
@@ -70,7 +315,12 @@ function validateNoDuplicateStepNames(app: WorkflowApp): WorkflowIssue[] {
     const message = `Duplicated step names in the main workflow: ${duplicatesInMain.join(
       ', '
     )}`
-    issues.push({ type: 'duplicatedStepName', message: message })
+    issues.push({
+      type: 'duplicatedStepName',
+      message: message,
+      severity: 'error',
+      location: workflowLocation(app.mainWorkflow.name),
+    })
   }
 
   for (const subworkflow of app.subworkflows) {
@@ -80,7 +330,12 @@ function validateNoDuplicateStepNames(app: WorkflowApp): WorkflowIssue[] {
       const message = `Duplicated step names in the subworkflow ${
         subworkflow.name
       }: ${duplicatesInSub.join(', ')}`
-      issues.push({ type: 'duplicatedStepName', message: message })
+      issues.push({
+        type: 'duplicatedStepName',
+        message: message,
+        severity: 'error',
+        location: workflowLocation(subworkflow.name),
+      })
     }
   }
 
@@ -111,6 +366,7 @@ function validateNoDuplicateSubworkflowNames(
       {
         type: 'duplicatedSubworkflowName',
         message: `Duplicated subworkflow names: ${dup.join(', ')}`,
+        severity: 'error',
       },
     ]
   } else {
@@ -129,6 +385,8 @@ function validateWorkflowNames(app: WorkflowApp): WorkflowIssue[] {
     issues.push({
       type: 'invalidWorkflowName',
       message: 'Subworkflow can\'t be called "main"',
+      severity: 'error',
+      location: workflowLocation('main'),
     })
   }
 
@@ -136,6 +394,7 @@ function validateWorkflowNames(app: WorkflowApp): WorkflowIssue[] {
     issues.push({
       type: 'invalidWorkflowName',
       message: 'Subworkflow must have a non-empty name',
+      severity: 'error',
     })
   }
 
@@ -169,15 +428,23 @@ function validateJumpTargetsInWorkflow(
   }
 
   function validCallTarget(name: string) {
+    // Names with a dot are runtime functions. They are checked by
+    // validateFunctionsExist().
     return (
-      isRuntimeFunction(name) ||
+      name.includes('.') ||
       stepNames.includes(name) ||
       subworkflowNames.includes(name)
     )
   }
 
   function validNextTarget(name: string) {
-    return stepNames.includes(name) || name === 'end' // accepts "next: end"
+    // accepts "next: end", "next: break" and "next: continue"
+    return (
+      stepNames.includes(name) ||
+      name === end ||
+      name === breakLoop ||
+      name === continueLoop
+    )
   }
 
   for (const { name, step } of workflow.iterateStepsDepthFirst()) {
@@ -186,20 +453,28 @@ function validateJumpTargetsInWorkflow(
         issues.push({
           type: 'missingJumpTarget',
           message: `Call target "${step.call}" in step "${name}" not found`,
+          severity: 'error',
+          location: stepLocation(workflow, name),
         })
-    } else if (step instanceof SwitchStep) {
-      if (step.next && !validNextTarget(step.next)) {
-        issues.push({
-          type: 'missingJumpTarget',
-          message: `Next target "${step.next}" in step "${name}" not found`,
-        })
-      }
+    }
+
+    if (step.next && !validNextTarget(step.next)) {
+      issues.push({
+        type: 'missingJumpTarget',
+        message: `Next target "${step.next}" in step "${name}" not found`,
+        severity: 'error',
+        location: stepLocation(workflow, name),
+      })
+    }
 
-      step.conditions.forEach((cond) => {
+    if (step instanceof SwitchStep) {
+      step.conditions.forEach((cond, i) => {
         if (cond.next && !validNextTarget(cond.next)) {
           issues.push({
             type: 'missingJumpTarget',
             message: `Next target "${cond.next}" in step "${name}" not found`,
+            severity: 'error',
+            location: stepLocation(workflow, name, `condition[${i}]`),
           })
         }
       })
@@ -210,26 +485,321 @@ function validateJumpTargetsInWorkflow(
 }
 
 /**
- * Check that call steps provide a correct number of argument in subworkflow calls
+ * Check that the runtime functions called by call steps exist
+ */
+function validateFunctionsExist(app: WorkflowApp): WorkflowIssue[] {
+  return [app.mainWorkflow, ...app.subworkflows].flatMap((workflow) => {
+    const issues: WorkflowIssue[] = []
+    for (const { name, step } of workflow.iterateStepsDepthFirst()) {
+      if (
+        step instanceof CallStep &&
+        step.call.includes('.') &&
+        !isRuntimeFunction(step.call)
+      ) {
+        issues.push({
+          type: 'unknownFunction',
+          message: `Unknown function "${step.call}" called in step "${name}"`,
+          severity: 'error',
+          location: stepLocation(workflow, name),
+        })
+      }
+    }
+
+    return issues
+  })
+}
+
+/**
+ * Check that "next: break" and "next: continue" are used only inside for loops
+ * and don't jump out of a parallel branch.
+ */
+function validateLoopControl(app: WorkflowApp): WorkflowIssue[] {
+  return [app.mainWorkflow, ...app.subworkflows].flatMap(
+    validateLoopControlInWorkflow
+  )
+}
+
+// Where a step is located relative to the innermost for loop
+type LoopContext = 'none' | 'loop' | 'parallelBranch'
+
+function validateLoopControlInWorkflow(
+  workflow: BaseWorkflow
+): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = []
+
+  function checkTarget(
+    target: GWStepName | undefined,
+    stepName: string,
+    context: LoopContext,
+    detail?: string
+  ) {
+    if (target !== breakLoop && target !== continueLoop) {
+      return
+    }
+
+    if (context === 'none') {
+      issues.push({
+        type: 'invalidLoopControl',
+        message: `"next: ${target}" in step "${stepName}" of workflow "${workflow.name}" is not inside a for loop`,
+        severity: 'error',
+        location: stepLocation(workflow, stepName, detail),
+      })
+    } else if (context === 'parallelBranch') {
+      issues.push({
+        type: 'invalidLoopControl',
+        message: `"next: ${target}" in step "${stepName}" of workflow "${workflow.name}" can't exit a parallel branch`,
+        severity: 'error',
+        location: stepLocation(workflow, stepName, detail),
+      })
+    }
+  }
+
+  function visitSteps(steps: NamedWorkflowStep[], context: LoopContext) {
+    for (const { name, step } of steps) {
+      checkTarget(step.next, name, context)
+
+      if (step instanceof SwitchStep) {
+        step.conditions.forEach((cond, i) =>
+          checkTarget(cond.next, name, context, `condition[${i}]`)
+        )
+      }
+
+      if (step instanceof ForStep) {
+        visitSteps(step.steps, 'loop')
+      } else if (step instanceof Parallel && step.forStep) {
+        visitSteps(step.forStep.steps, 'loop')
+      } else if (step instanceof Parallel) {
+        // A loop outside of a parallel step can't be controlled from a branch
+        visitSteps(
+          step.branches ?? [],
+          context === 'none' ? 'none' : 'parallelBranch'
+        )
+      } else {
+        visitSteps(step.nestedSteps(), context)
+      }
+    }
+  }
+
+  visitSteps(workflow.steps, 'none')
+
+  return issues
+}
+
+/**
+ * Check that all steps can be reached from the start of the workflow
+ */
+function validateStepsReachable(app: WorkflowApp): WorkflowIssue[] {
+  return [app.mainWorkflow, ...app.subworkflows].flatMap(findUnreachableSteps)
+}
+
+function findUnreachableSteps(workflow: BaseWorkflow): WorkflowIssue[] {
+  const graph = buildControlFlowGraph(workflow)
+  const reachable = graph.reachableFrom(entryNode)
+  const issues: WorkflowIssue[] = []
+
+  // Only the first step of a block of unreachable steps is reported
+  function visitSteps(steps: NamedWorkflowStep[], parentReachable: boolean) {
+    steps.forEach(({ name, step }, i) => {
+      const isReachable = reachable.has(name)
+      const previous = i > 0 ? steps[i - 1] : undefined
+      const previousReachable = previous
+        ? reachable.has(previous.name)
+        : parentReachable
+
+      if (!isReachable && previousReachable) {
+        issues.push({
+          type: 'unreachableStep',
+          message: unreachableStepMessage(name, workflow.name, previous),
+          severity: 'warning',
+          location: stepLocation(workflow, name),
+        })
+      }
+
+      for (const nested of nestedStepLists(step)) {
+        visitSteps(nested, isReachable)
+      }
+    })
+  }
+
+  visitSteps(workflow.steps, true)
+
+  return issues
+}
+
+function unreachableStepMessage(
+  stepName: string,
+  workflowName: string,
+  previousStep?: NamedWorkflowStep
+): string {
+  const message = `Step "${stepName}" in workflow "${workflowName}" is unreachable`
+  const previous = previousStep?.step
+  if (previous instanceof ReturnStep || previous instanceof RaiseStep) {
+    const stepType = previous instanceof ReturnStep ? 'return' : 'raise'
+    return `${message}: it follows the ${stepType} step "${previousStep?.name}"`
+  } else if (
+    previous instanceof SwitchStep &&
+    !previous.next &&
+    switchNeverFallsThrough(previous)
+  ) {
+    return `${message}: the switch step "${previousStep?.name}" before it never falls through`
+  } else {
+    return message
+  }
+}
+
+// The blocks of steps nested in a step
+function nestedStepLists(step: WorkflowStep): NamedWorkflowStep[][] {
+  if (step instanceof SwitchStep) {
+    return step.conditions.map((x) => x.steps)
+  } else if (step instanceof TryExceptStep) {
+    return [step.trySteps, step.exceptSteps]
+  } else if (step instanceof ForStep || step instanceof StepsStep) {
+    return [step.steps]
+  } else if (step instanceof Parallel) {
+    return step.forStep
+      ? [step.forStep.steps]
+      : (step.branches ?? []).map((x) => [x])
+  } else {
+    return []
+  }
+}
+
+/**
+ * Check that there are no loops that can never be exited
+ */
+function validateLoopsExit(app: WorkflowApp): WorkflowIssue[] {
+  return [app.mainWorkflow, ...app.subworkflows].flatMap(findInfiniteLoops)
+}
+
+function findInfiniteLoops(workflow: BaseWorkflow): WorkflowIssue[] {
+  const graph = buildControlFlowGraph(workflow)
+  const reachable = graph.reachableFrom(entryNode)
+  const completing = graph.reachingTo(exitNode)
+
+  return graph
+    .stronglyConnectedComponents()
+    .filter((component) => {
+      const first = component[0]
+      const isCycle =
+        component.length > 1 || graph.successors(first).includes(first)
+      return isCycle && reachable.has(first) && !completing.has(first)
+    })
+    .map((component): WorkflowIssue => {
+      const stepNames = component.map((x) => `"${x}"`).join(', ')
+      return {
+        type: 'infiniteLoop',
+        message: `Steps ${stepNames} in workflow "${workflow.name}" form a loop that never exits`,
+        severity: 'warning',
+        location: stepLocation(workflow, component[0]),
+      }
+    })
+}
+
+/**
+ * Check that the subworkflows called by Subworkflow objects or used as retry
+ * predicates are included in the app
+ */
+function validateSubworkflowsIncluded(app: WorkflowApp): WorkflowIssue[] {
+  const graph = buildCallGraph(app)
+  const workflows = [app.mainWorkflow, ...app.subworkflows]
+
+  return graph.edges
+    .filter((edge) => !graph.workflows.includes(edge.to))
+    .flatMap((edge) => {
+      const workflow = workflows.find((x) => x.name === edge.from)
+      if (!workflow) {
+        return []
+      }
+
+      const usage =
+        edge.kind === 'call'
+          ? `called in step "${edge.step}"`
+          : `used as the retry predicate in step "${edge.step}"`
+      return [
+        {
+          type: 'subworkflowNotIncluded',
+          message: `Subworkflow "${edge.to}" ${usage} of workflow "${edge.from}" is not included in the app`,
+          severity: 'error',
+          location: stepLocation(workflow, edge.step),
+        },
+      ]
+    })
+}
+
+/**
+ * Check that all subworkflows are called from the main workflow, directly or
+ * through other subworkflows
+ */
+function validateSubworkflowsUsed(app: WorkflowApp): WorkflowIssue[] {
+  const used = buildCallGraph(app).dependencies(app.mainWorkflow.name)
+
+  return app.subworkflows
+    .filter((x) => !used.includes(x.name))
+    .map((x) => ({
+      type: 'unusedSubworkflow',
+      message: `Subworkflow "${x.name}" is never called`,
+      severity: 'warning',
+      location: workflowLocation(x.name),
+    }))
+}
+
+/**
+ * Warn about directly or indirectly recursive subworkflows. Deep recursion can
+ * exceed the call stack depth limit of Workflows.
+ */
+function validateNoRecursion(app: WorkflowApp): WorkflowIssue[] {
+  const graph = buildCallGraph(app)
+
+  return app.subworkflows.flatMap((workflow) => {
+    const path = graph.recursionPath(workflow.name)
+    const firstCall = graph.edges.find(
+      (e) => e.from === workflow.name && e.to === path?.[1]
+    )
+    if (!path || !firstCall) {
+      return []
+    }
+
+    return [
+      {
+        type: 'recursiveSubworkflow',
+        message: `Subworkflow "${workflow.name}" is recursive: ${path.join(
+          ' -> '
+        )}`,
+        severity: 'warning',
+        location: stepLocation(workflow, firstCall.step),
+      },
+    ]
+  })
+}
+
+/**
+ * Check that call steps provide a correct number of argument in subworkflow
+ * and standard library function calls
  */
 function validateSubworkflowArguments(app: WorkflowApp): WorkflowIssue[] {
   const issues: WorkflowIssue[] = []
 
   const paramsBySubworkflow = new Map(
-    app.subworkflows.map((x) => [
+    stdlibFunctions.map((x) => [
       x.name,
       {
-        required:
-          x.params
-            ?.filter((x) => typeof x.default === 'undefined')
-            .map((x) => x.name) ?? [],
-        optional:
-          x.params
-            ?.filter((x) => typeof x.default !== 'undefined')
-            .map((x) => x.name) ?? [],
+        required: x.params.filter((p) => p.required).map((p) => p.name),
+        optional: x.params.filter((p) => !p.required).map((p) => p.name),
       },
     ])
   )
+  app.subworkflows.forEach((x) => {
+    paramsBySubworkflow.set(x.name, {
+      required:
+        x.params
+          ?.filter((x) => typeof x.default === 'undefined')
+          .map((x) => x.name) ?? [],
+      optional:
+        x.params
+          ?.filter((x) => typeof x.default !== 'undefined')
+          .map((x) => x.name) ?? [],
+    })
+  })
 
   issues.push(
     ...findIssuesInCallArguments(app.mainWorkflow, paramsBySubworkflow)
@@ -271,6 +841,8 @@ function findIssuesInCallArguments(
           message: `Required parameters not provided on call step "${name}": ${JSON.stringify(
             requiredButNotProvided
           )}`,
+          severity: 'error',
+          location: stepLocation(wf, name),
         })
       }
 
@@ -280,6 +852,8 @@ function findIssuesInCallArguments(
           message: `Extra arguments provided on call step "${name}": ${JSON.stringify(
             providedButNotRequired
           )}`,
+          severity: 'error',
+          location: stepLocation(wf, name),
         })
       }
     }
@@ -291,9 +865,373 @@ function findIssuesInCallArguments(
 /**
  * Returns true if functionName is a standard library or connector function.
  *
- * Current version does a minimalistic checking and assumes that a name is a
- * standard library function if it contains a dot.
+ * Any name in the googleapis namespace is accepted as a connector function.
  */
 function isRuntimeFunction(functionName: string) {
-  return functionName.includes('.')
+  return (
+    typeof getStdlibFunction(functionName) !== 'undefined' ||
+    functionName.startsWith('googleapis.')
+  )
+}
+
+/**
+ * Check that variables are defined before they are read in expressions.
+ *
+ * Steps are analyzed in the order they are written. A variable is considered
+ * defined after a step if it is defined on any branch of the step. Jumps
+ * (next) are not followed.
+ */
+function validateVariablesDefined(app: WorkflowApp): WorkflowIssue[] {
+  return [app.mainWorkflow, ...app.subworkflows].flatMap(findUndefinedVariables)
+}
+
+function findUndefinedVariables(workflow: BaseWorkflow): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = []
+
+  function checkReads(
+    variables: string[],
+    defined: Set<string>,
+    stepName: string
+  ) {
+    for (const name of new Set(variables)) {
+      if (!defined.has(name)) {
+        issues.push({
+          type: 'undefinedVariable',
+          message: `Variable "${name}" is used in step "${stepName}" of workflow "${workflow.name}" before it is defined`,
+          severity: 'error',
+          location: stepLocation(workflow, stepName),
+        })
+      }
+    }
+  }
+
+  // Returns the variables defined after the steps
+  function visitSteps(
+    steps: NamedWorkflowStep[],
+    definedBefore: Set<string>
+  ): Set<string> {
+    return steps.reduce(
+      (defined, step) => visitStep(step, defined),
+      definedBefore
+    )
+  }
+
+  function visitStep(
+    { name, step }: NamedWorkflowStep,
+    definedBefore: Set<string>
+  ): Set<string> {
+    const defined = new Set(definedBefore)
+
+    if (step instanceof AssignStep) {
+      for (const [target, value] of step.assignments) {
+        checkReads(valueReads(value), defined, name)
+
+        const targetExpression = tryParseExpression(target)
+        if (targetExpression?.type === 'variable') {
+          defined.add(targetExpression.name)
+        } else if (targetExpression) {
+          checkReads(referencedVariables(targetExpression), defined, name)
+        }
+      }
+      return defined
+    } else if (step instanceof CallStep) {
+      checkReads(valueReads(step.args ?? {}), defined, name)
+      if (step.result) {
+        defined.add(step.result)
+      }
+      return defined
+    } else if (step instanceof SwitchStep) {
+      const definedAfter = new Set(defined)
+      for (const cond of step.conditions) {
+        checkReads(valueReads(cond.condition), defined, name)
+        visitSteps(cond.steps, defined).forEach((x) => definedAfter.add(x))
+      }
+      return definedAfter
+    } else if (step instanceof TryExceptStep) {
+      const definedAfterTry = visitSteps(step.trySteps, defined)
+      const exceptDefined = new Set(definedAfterTry)
+      if (step.errorMap) {
+        exceptDefined.add(step.errorMap)
+      }
+      const definedAfterExcept = visitSteps(step.exceptSteps, exceptDefined)
+      return new Set([...definedAfterTry, ...definedAfterExcept])
+    } else if (step instanceof ForStep) {
+      return visitForLoop(step, defined, name)
+    } else if (step instanceof Parallel) {
+      if (step.forStep) {
+        visitForLoop(step.forStep, defined, name)
+      }
+      for (const branch of step.branches ?? []) {
+        visitStep(branch, defined)
+      }
+
+      // Variables created in the branches are local to the branch. Only the
+      // shared variables are visible after the parallel step.
+      return new Set([...defined, ...(step.shared ?? [])])
+    } else if (step instanceof StepsStep) {
+      return visitSteps(step.steps, defined)
+    } else if (step instanceof RaiseStep || step instanceof ReturnStep) {
+      checkReads(valueReads(step.value), defined, name)
+      return defined
+    } else {
+      return defined
+    }
+  }
+
+  function visitForLoop(
+    step: ForStep,
+    defined: Set<string>,
+    stepName: string
+  ): Set<string> {
+    if (typeof step.listExpression !== 'undefined') {
+      checkReads(valueReads(step.listExpression), defined, stepName)
+    }
+
+    const loopDefined = new Set(defined)
+    loopDefined.add(step.loopVariableName)
+    if (step.indexVariableName) {
+      loopDefined.add(step.indexVariableName)
+    }
+
+    return new Set([...defined, ...visitSteps(step.steps, loopDefined)])
+  }
+
+  const params = new Set(workflow.params?.map((x) => x.name) ?? [])
+  visitSteps(workflow.steps, params)
+
+  return issues
+}
+
+/**
+ * Check that parallel branches only assign variables that are either declared
+ * as shared or created in the branch.
+ */
+function validateParallelAssignments(app: WorkflowApp): WorkflowIssue[] {
+  return findScopeIssues(app, 'nonSharedVariableAssignment')
+}
+
+/**
+ * Check that variables created inside a for loop are not read after the loop.
+ */
+function validateLoopVariableScope(app: WorkflowApp): WorkflowIssue[] {
+  return findScopeIssues(app, 'loopVariableOutOfScope')
+}
+
+/**
+ * Check that the shared variables of a parallel step are defined before the
+ * parallel step.
+ */
+function validateSharedVariablesDefined(app: WorkflowApp): WorkflowIssue[] {
+  return findScopeIssues(app, 'undefinedSharedVariable')
+}
+
+function findScopeIssues(app: WorkflowApp, issueType: string) {
+  return [app.mainWorkflow, ...app.subworkflows]
+    .flatMap(findScopeIssuesInWorkflow)
+    .filter((x) => x.type === issueType)
+}
+
+// Variables visible in a block of steps
+interface VariableScope {
+  defined: Set<string>
+  // Variables of outer scopes that can't be assigned in a parallel branch
+  readOnly: Set<string>
+  // Variables that were local to an already completed for loop, mapped to
+  // the name of the loop step
+  expired: Map<string, string>
+}
+
+/**
+ * Analyze variable scopes: loop variables and variables created inside a for
+ * loop are local to the loop, and parallel branches can only assign outer
+ * variables that are listed as shared.
+ */
+function findScopeIssuesInWorkflow(workflow: BaseWorkflow): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = []
+
+  function checkReads(
+    variables: string[],
+    scope: VariableScope,
+    stepName: string
+  ) {
+    for (const name of new Set(variables)) {
+      const loopName = scope.expired.get(name)
+      if (!scope.defined.has(name) && loopName) {
+        issues.push({
+          type: 'loopVariableOutOfScope',
+          message: `Variable "${name}" is used in step "${stepName}" of workflow "${workflow.name}" outside of the for loop "${loopName}" where it is defined`,
+          severity: 'error',
+          location: stepLocation(workflow, stepName),
+        })
+      }
+    }
+  }
+
+  function write(name: string, scope: VariableScope, stepName: string) {
+    if (scope.readOnly.has(name)) {
+      issues.push({
+        type: 'nonSharedVariableAssignment',
+        message: `Variable "${name}" is assigned in step "${stepName}" of workflow "${workflow.name}" inside a parallel branch but it is not declared as shared`,
+        severity: 'error',
+        location: stepLocation(workflow, stepName),
+      })
+    }
+
+    scope.defined.add(name)
+    scope.expired.delete(name)
+  }
+
+  function copyScope(scope: VariableScope): VariableScope {
+    return {
+      defined: new Set(scope.defined),
+      readOnly: new Set(scope.readOnly),
+      expired: new Map(scope.expired),
+    }
+  }
+
+  // Merge variables defined on alternative branches into the scope
+  function mergeScopes(scope: VariableScope, branches: VariableScope[]) {
+    for (const branch of branches) {
+      branch.defined.forEach((x) => scope.defined.add(x))
+      branch.expired.forEach((loop, name) => {
+        if (!scope.defined.has(name)) {
+          scope.expired.set(name, loop)
+        }
+      })
+    }
+  }
+
+  function visitSteps(steps: NamedWorkflowStep[], scope: VariableScope) {
+    steps.forEach((step) => visitStep(step, scope))
+  }
+
+  // Updates the scope with the variables defined by the step
+  function visitStep({ name, step }: NamedWorkflowStep, scope: VariableScope) {
+    if (step instanceof AssignStep) {
+      for (const [target, value] of step.assignments) {
+        checkReads(valueReads(value), scope, name)
+
+        const targetExpression = tryParseExpression(target)
+        if (targetExpression) {
+          const variables = referencedVariables(targetExpression)
+          checkReads(variables.slice(1), scope, name)
+          write(variables[0], scope, name)
+        }
+      }
+    } else if (step instanceof CallStep) {
+      checkReads(valueReads(step.args ?? {}), scope, name)
+      if (step.result) {
+        write(step.result, scope, name)
+      }
+    } else if (step instanceof SwitchStep) {
+      const branches = step.conditions.map((cond) => {
+        checkReads(valueReads(cond.condition), scope, name)
+        const branchScope = copyScope(scope)
+        visitSteps(cond.steps, branchScope)
+        return branchScope
+      })
+      mergeScopes(scope, branches)
+    } else if (step instanceof TryExceptStep) {
+      const tryScope = copyScope(scope)
+      visitSteps(step.trySteps, tryScope)
+      const exceptScope = copyScope(tryScope)
+      if (step.errorMap) {
+        write(step.errorMap, exceptScope, name)
+      }
+      visitSteps(step.exceptSteps, exceptScope)
+      mergeScopes(scope, [tryScope, exceptScope])
+    } else if (step instanceof ForStep) {
+      visitForLoop(step, name, scope, scope.readOnly)
+    } else if (step instanceof Parallel) {
+      const shared = step.shared ?? []
+      for (const sharedName of shared) {
+        if (!scope.defined.has(sharedName)) {
+          issues.push({
+            type: 'undefinedSharedVariable',
+            message: `Shared variable "${sharedName}" of the parallel step "${name}" in workflow "${workflow.name}" is not defined before the parallel step`,
+            severity: 'error',
+            location: stepLocation(workflow, name),
+          })
+        }
+      }
+
+      const readOnly = new Set(
+        [...scope.defined, ...scope.readOnly].filter((x) => !shared.includes(x))
+      )
+      if (step.forStep) {
+        visitForLoop(step.forStep, name, scope, readOnly)
+      } else {
+        // Variables created in a branch are local to the branch
+        for (const branch of step.branches ?? []) {
+          visitStep(branch, { ...copyScope(scope), readOnly })
+        }
+      }
+    } else if (step instanceof StepsStep) {
+      visitSteps(step.steps, scope)
+    } else if (step instanceof RaiseStep || step instanceof ReturnStep) {
+      checkReads(valueReads(step.value), scope, name)
+    }
+  }
+
+  function visitForLoop(
+    step: ForStep,
+    stepName: string,
+    scope: VariableScope,
+    readOnly: Set<string>
+  ) {
+    if (typeof step.listExpression !== 'undefined') {
+      checkReads(valueReads(step.listExpression), scope, stepName)
+    }
+
+    const loopScope = { ...copyScope(scope), readOnly: new Set(readOnly) }
+    const loopVariables = [step.loopVariableName]
+    if (step.indexVariableName) {
+      loopVariables.push(step.indexVariableName)
+    }
+    loopVariables.forEach((x) => {
+      loopScope.defined.add(x)
+      loopScope.readOnly.delete(x)
+      loopScope.expired.delete(x)
+    })
+
+    visitSteps(step.steps, loopScope)
+
+    // Only the outer variables modified in the loop are visible after it
+    for (const name of loopScope.defined) {
+      if (!scope.defined.has(name)) {
+        scope.expired.set(name, stepName)
+      }
+    }
+  }
+
+  visitSteps(workflow.steps, {
+    defined: new Set(workflow.params?.map((x) => x.name) ?? []),
+    readOnly: new Set(),
+    expired: new Map(),
+  })
+
+  return issues
+}
+
+// Names of the variables read by the expressions in a value
+function valueReads(value: GWValue): string[] {
+  if (value instanceof GWExpression) {
+    const ex = tryParseExpression(value.expression)
+    return ex ? referencedVariables(ex) : []
+  } else if (Array.isArray(value)) {
+    return value.flatMap(valueReads)
+  } else if (value !== null && typeof value === 'object') {
+    return Object.values(value).flatMap(valueReads)
+  } else {
+    return []
+  }
+}
+
+// Syntax errors are not reported by the variable validators
+function tryParseExpression(expression: string): Expression | undefined {
+  try {
+    return parseExpression(expression)
+  } catch {
+    return undefined
+  }
 }
@@ -1,3 +1,5 @@
+import { parseExpression } from './expressions'
+
 export type GWVariableName = string
 export type GWValue =
   | null
@@ -28,12 +30,15 @@ export class GWExpression {
   readonly expression: string
 
   constructor(ex: string) {
+    this.checkExpression(ex)
+    this.expression = ex
+  }
+
+  protected checkExpression(ex: string): void {
     // Detect injections. I don't know if these can be escaped somehow if used in string for example.
     if (ex.includes('$') || ex.includes('{') || ex.includes('}')) {
       throw new Error('Unsupported expression')
     }
-
-    this.expression = ex
   }
 
   render(): string {
@@ -42,6 +47,16 @@ export class GWExpression {
 }
 
 // A short-hand syntax for writing expression: $('a + 1')
-export function $(ex: string): GWExpression {
+//
+// Throws an ExpressionSyntaxError if the expression is not syntactically
+// valid. Validation can be skipped by setting options.validate to false.
+export function $(
+  ex: string,
+  options: { validate?: boolean } = {}
+): GWExpression {
+  if (options.validate ?? true) {
+    parseExpression(ex)
+  }
+
   return new GWExpression(ex)
 }
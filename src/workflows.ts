@@ -1,7 +1,7 @@
 import * as YAML from 'yaml'
 
-import { NamedWorkflowStep } from './steps'
-import { GWValue, GWVariableName } from './variables'
+import { CallStep, NamedWorkflowStep, TryExceptStep } from './steps'
+import { GWValue, GWVariableName, renderGWValue } from './variables'
 
 export interface WorkflowParameter {
   name: GWVariableName
@@ -20,6 +20,43 @@ export class WorkflowApp {
     this.subworkflows = subworkflows
   }
 
+  /**
+   * Create an app that includes all subworkflows that the main workflow
+   * references directly or indirectly: the subworkflows called by Subworkflow
+   * objects and the retry predicates. Subworkflows that are called only by
+   * name can be given in the second argument.
+   *
+   * Throws an error if two different subworkflows have the same name.
+   */
+  static fromMain(
+    mainWorkflow: MainWorkflow,
+    extraSubworkflows: Subworkflow[] = []
+  ): WorkflowApp {
+    const found = new Map<string, Subworkflow>()
+    const queue: BaseWorkflow[] = [mainWorkflow]
+
+    function add(subworkflow: Subworkflow) {
+      const existing = found.get(subworkflow.name)
+      if (typeof existing === 'undefined') {
+        found.set(subworkflow.name, subworkflow)
+        queue.push(subworkflow)
+      } else if (existing !== subworkflow) {
+        throw new Error(
+          `Two different subworkflows are called "${subworkflow.name}"`
+        )
+      }
+    }
+
+    extraSubworkflows.forEach(add)
+
+    let current: BaseWorkflow | undefined
+    while ((current = queue.shift()) !== undefined) {
+      referencedSubworkflows(current).forEach(add)
+    }
+
+    return new WorkflowApp(mainWorkflow, Array.from(found.values()))
+  }
+
   render(): object {
     const merged = new Map()
 
@@ -37,15 +74,19 @@ export class BaseWorkflow {
   readonly name: string
   readonly steps: NamedWorkflowStep[]
   readonly params?: WorkflowParameter[]
+  // Written as a comment in the YAML output
+  readonly description?: string
 
   constructor(
     name: string,
     steps: NamedWorkflowStep[],
-    params?: WorkflowParameter[]
+    params?: WorkflowParameter[],
+    description?: string
   ) {
     this.name = name
     this.steps = steps
     this.params = params
+    this.description = description
   }
 
   render(): object {
@@ -57,8 +98,8 @@ export class BaseWorkflow {
   renderBody(): object {
     return {
       params: this.params?.map((x) => {
-        if (x.default) {
-          return { [x.name]: x.default }
+        if (typeof x.default !== 'undefined') {
+          return { [x.name]: renderGWValue(x.default) }
         } else {
           return x.name
         }
@@ -97,23 +138,199 @@ export class Subworkflow extends BaseWorkflow {
   constructor(
     name: string,
     steps: NamedWorkflowStep[],
-    params?: WorkflowParameter[]
+    params?: WorkflowParameter[],
+    description?: string
   ) {
-    super(name, steps, params)
+    super(name, steps, params, description)
   }
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/subworkflows#main-block
 export class MainWorkflow extends BaseWorkflow {
-  constructor(steps: NamedWorkflowStep[], argumentName?: GWVariableName) {
+  constructor(
+    steps: NamedWorkflowStep[],
+    argumentName?: GWVariableName,
+    description?: string
+  ) {
     const paramsArray = argumentName ? [{ name: argumentName }] : undefined
-    super('main', steps, paramsArray)
+    super('main', steps, paramsArray, description)
   }
 }
 
+export interface YAMLOptions {
+  // A comment at the top of the output, e.g. "Generated from src/app.ts"
+  header?: string
+  // Write the workflow and step descriptions as comments. Default: true
+  comments?: boolean
+  // Maximum line width before long strings are folded. Default: 80
+  lineWidth?: number
+  // Write lists of plain values, such as params, in the flow style: [a, b]
+  flowLists?: boolean
+  // Quote strings that a YAML 1.1 parser would read as something else than
+  // the same string, such as yes, on, 1e3 or 0777
+  quoteAmbiguousStrings?: boolean
+}
+
+// Subworkflows referenced by Subworkflow objects in the steps of a workflow
+function referencedSubworkflows(workflow: BaseWorkflow): Subworkflow[] {
+  const referenced: Subworkflow[] = []
+  for (const { step } of workflow.iterateStepsDepthFirst()) {
+    if (step instanceof CallStep && step.subworkflow) {
+      referenced.push(step.subworkflow)
+    } else if (
+      step instanceof TryExceptStep &&
+      typeof step.retryPolicy === 'object' &&
+      step.retryPolicy.predicate instanceof Subworkflow
+    ) {
+      referenced.push(step.retryPolicy.predicate)
+    }
+  }
+
+  return referenced
+}
+
 /**
  * Print the workflow as a YAML string.
  */
-export function toYAMLString(workflow: WorkflowApp): string {
-  return YAML.stringify(workflow.render())
+export function toYAMLString(
+  workflow: WorkflowApp,
+  options: YAMLOptions = {}
+): string {
+  const doc = new YAML.Document(renderDefinition(workflow))
+
+  if (options.comments ?? true) {
+    addDescriptionComments(doc, workflow)
+  }
+
+  if (options.header) {
+    doc.commentBefore = toComment(options.header)
+  }
+
+  if (options.flowLists) {
+    YAML.visit(doc, {
+      Seq(_, node) {
+        if (node.items.every(YAML.isScalar)) {
+          node.flow = true
+        }
+      },
+    })
+  }
+
+  if (options.quoteAmbiguousStrings) {
+    YAML.visit(doc, {
+      Scalar(_, node) {
+        if (typeof node.value === 'string' && isAmbiguous(node.value)) {
+          node.type = 'QUOTE_DOUBLE'
+        }
+      },
+    })
+  }
+
+  return doc.toString({
+    lineWidth: options.lineWidth,
+    flowCollectionPadding: false,
+  })
+}
+
+/**
+ * Print the workflow as a JSON string. The keys are in the same order as in
+ * the YAML output. Indented if the pretty option is true.
+ */
+export function toJSONString(
+  workflow: WorkflowApp,
+  options: { pretty?: boolean } = {}
+): string {
+  return JSON.stringify(
+    renderDefinition(workflow),
+    undefined,
+    options.pretty ? 2 : undefined
+  )
+}
+
+// The render() methods leave optional fields (next, args, result, retry, ...)
+// undefined. Drop them so that YAML and JSON outputs have the same keys.
+function renderDefinition(workflow: WorkflowApp): object {
+  return stripUndefined(workflow.render()) as object
+}
+
+// Attach the descriptions as comments to the workflow keys and step items.
+// Steps are identified by their names, which are unique within a workflow.
+function addDescriptionComments(doc: YAML.Document, workflow: WorkflowApp) {
+  if (!YAML.isMap(doc.contents)) {
+    return
+  }
+
+  for (const wf of [workflow.mainWorkflow, ...workflow.subworkflows]) {
+    const pair = doc.contents.items.find(
+      (x) => YAML.isScalar(x.key) && x.key.value === wf.name
+    )
+    if (!pair || !YAML.isScalar(pair.key) || !YAML.isNode(pair.value)) {
+      continue
+    }
+
+    if (wf.description) {
+      pair.key.commentBefore = toComment(wf.description)
+    }
+
+    const descriptions = new Map<string, string>()
+    for (const { name, description } of wf.iterateStepsDepthFirst()) {
+      if (description) {
+        descriptions.set(name, description)
+      }
+    }
+
+    YAML.visit(pair.value, {
+      Pair(_, stepList) {
+        if (
+          !YAML.isScalar(stepList.key) ||
+          !['steps', 'branches'].includes(String(stepList.key.value)) ||
+          !YAML.isSeq(stepList.value)
+        ) {
+          return
+        }
+
+        for (const item of stepList.value.items) {
+          if (YAML.isMap(item) && item.items.length === 1) {
+            const key = item.items[0].key
+            const description = YAML.isScalar(key)
+              ? descriptions.get(String(key.value))
+              : undefined
+            if (description) {
+              item.commentBefore = toComment(description)
+            }
+          }
+        }
+      },
+    })
+  }
+}
+
+// Each line becomes a "# line" comment
+function toComment(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? ` ${line}` : ''))
+    .join('\n')
+}
+
+function isAmbiguous(value: string): boolean {
+  try {
+    return YAML.parse(value, { version: '1.1' }) !== value
+  } catch {
+    return true
+  }
+}
+
+function stripUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripUndefined)
+  } else if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, x]) => typeof x !== 'undefined')
+        .map(([key, x]) => [key, stripUndefined(x)])
+    )
+  } else {
+    return value
+  }
 }